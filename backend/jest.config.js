@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+    testMatch: ['**/*.test.ts'],
+    transform: {
+        '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.test.json' }],
+    },
+    globalSetup: '<rootDir>/tests/e2e/globalSetup.ts',
+    setupFiles: ['<rootDir>/tests/e2e/setupEnv.ts'],
+    // Every e2e file shares one test database and Redis db
+    maxWorkers: 1,
+    testTimeout: 60000,
+};
@@ -7,17 +7,32 @@ import sqlRoutes from './routes/sqlroutes';
 import setupRoutes from './routes/setup.routes';
 import configRoutes from './routes/config.routes';
 import botRoutes from './routes/bot.routes';
+import spreadsheetRoutes from './routes/spreadsheets.routes';
+import conflictRoutes from './routes/conflicts.routes';
+import historyRoutes from './routes/history.routes';
+import adminRoutes from './routes/admin.routes';
+import authRoutes from './routes/auth.routes';
+import { keepRawBody } from './middleware/webhookSignature';
 import { initializeDatabase } from './utils/dbInit';
-import cdcMonitor from './services/cdcMonitor';
-import sheetUpdateWorker from './workers/sheetUpdateWorker';
+import spreadsheetRegistry from './services/spreadsheetRegistry';
+import binlogListener from './services/binlogListener';
+import leaderElection from './services/leaderElection';
+import clusterBus from './services/clusterBus';
 import pool from './config/database';
 import redisClient from './config/redis';
+import { INSTANCE_ID } from './config/instance';
 
 dotenv.config();
 const logger = pino();
 
 const app = express();
 
+// Behind a load balancer, rate limits need the client address from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+    const hops = parseInt(process.env.TRUST_PROXY);
+    app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 app.use(cors({
     origin: [
         'http://localhost:5173',
@@ -29,13 +44,19 @@ app.use(cors({
     credentials: true,
 }));
 
-app.use(express.json());
+// Webhook signatures cover the exact bytes sent
+app.use(express.json({ verify: keepRawBody }));
 
 app.use('/api/webhook', webhookRoutes);
 app.use('/api/sql', sqlRoutes);
 app.use('/api/setup', setupRoutes);
 app.use('/api/config', configRoutes);
 app.use('/api/bots', botRoutes);
+app.use('/api/spreadsheets', spreadsheetRoutes);
+app.use('/api/conflicts', conflictRoutes);
+app.use('/api/history', historyRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/auth', authRoutes);
 
 app.get('/health', (req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -51,19 +72,41 @@ async function startServer() {
         await initializeDatabase();
         console.log('✅ Database initialized\n');
 
-        console.log('🔄 Initializing CDC Monitor...');
-        await cdcMonitor.initialize();
-        console.log('✅ CDC Monitor initialized\n');
-
-        console.log('👀 Starting Google Sheet polling...');
-        cdcMonitor.start();
-        console.log('✅ Polling started (every 3 seconds)\n');
+        console.log('📚 Loading spreadsheet registry...');
+        await spreadsheetRegistry.load();
+        console.log(`✅ ${spreadsheetRegistry.list().length} spreadsheet(s) registered\n`);
+
+        console.log('👷 Starting Sheet Update Workers...');
+        await spreadsheetRegistry.startAll();
+        await clusterBus.subscribe(event => spreadsheetRegistry.handleClusterEvent(event));
+        console.log('✅ Workers started\n');
+
+        // Only the leader polls the sheets and pushes DB changes; the rest take over if it goes away
+        console.log(`🗳️ Joining CDC leader election as ${INSTANCE_ID}...`);
+        await leaderElection.start({
+            elected: async () => {
+                await spreadsheetRegistry.lead();
+                if (binlogListener.isEnabled()) {
+                    await binlogListener.start();
+                }
+                console.log('✅ Polling started (adaptive, 2s–30s)\n');
+            },
+            deposed: async () => {
+                await binlogListener.stop();
+                await spreadsheetRegistry.follow();
+            },
+        });
+        if (!leaderElection.isLeader()) {
+            console.log('✅ Following the current leader; CDC Monitors start on failover\n');
+        }
 
         app.listen(PORT, () => {
             console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
             console.log(`✅ Server running on http://localhost:${PORT}`);
             console.log(`🌐 Frontend: http://localhost:5173`);
-            console.log(`📊 Google Sheet ID: ${process.env.GOOGLE_SHEET_ID}`);
+            for (const entry of spreadsheetRegistry.list()) {
+                console.log(`📊 Google Sheet [${entry.config.key}]: ${entry.config.sheetId}`);
+            }
             console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
             console.log('Ready to sync! 🚀\n');
         });
@@ -77,11 +120,15 @@ async function startServer() {
 async function gracefulShutdown(signal: string) {
     console.log(`\n⏹️ ${signal} received, shutting down gracefully...`);
     
-    console.log('🔄 Stopping CDC Monitor...');
-    cdcMonitor.stop();
-    
-    console.log('🔄 Closing Sheet Update Worker...');
-    await sheetUpdateWorker.close();
+    console.log('🔄 Leaving leader election...');
+    await leaderElection.stop();
+    await clusterBus.close();
+
+    console.log('🔄 Stopping binlog listener...');
+    await binlogListener.stop();
+
+    console.log('🔄 Stopping CDC Monitors and Sheet Update Workers...');
+    await spreadsheetRegistry.stopAll();
     
     console.log('🔄 Closing database pool...');
     await pool.end();
@@ -93,14 +140,17 @@ async function gracefulShutdown(signal: string) {
     process.exit(0);
 }
 
-process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
-process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+// Only when run as the entry point; tests import `app` and start what they need
+if (require.main === module) {
+    process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+    process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
-process.on('uncaughtException', async (error) => {
-    console.error('❌ Uncaught exception:', error);
-    await gracefulShutdown('UNCAUGHT_EXCEPTION');
-});
+    process.on('uncaughtException', async (error) => {
+        console.error('❌ Uncaught exception:', error);
+        await gracefulShutdown('UNCAUGHT_EXCEPTION');
+    });
 
-startServer();
+    startServer();
+}
 
 export default app;
\ No newline at end of file
@@ -1,26 +1,19 @@
-import { google } from 'googleapis';
 import { JWT } from 'google-auth-library';
 import dotenv from 'dotenv';
-import pino from 'pino';
 
 dotenv.config();
-const logger = pino();
 
-const jwtClient = new JWT({
-    email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
-    key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-});
+export const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+export const SCRIPT_PROJECTS_SCOPE = 'https://www.googleapis.com/auth/script.projects';
 
-
-jwtClient.authorize((err) => {
-    if (err) {
-        logger.error({ err }, 'Google Sheets authentication failed');
-    } else {
-        logger.info('Google Sheets authenticated successfully');
-    }
-});
-
-const sheets = google.sheets({ version: 'v4', auth: jwtClient });
-export { sheets, jwtClient };
-export default sheets;
+/**
+ * Service-account client for the Google APIs, from GOOGLE_SERVICE_ACCOUNT_EMAIL
+ * and GOOGLE_PRIVATE_KEY. Authorized on first use.
+ */
+export function createJwtClient(scopes: string[]): JWT {
+    return new JWT({
+        email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
+        key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+        scopes,
+    });
+}
@@ -0,0 +1,8 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+
+/**
+ * Identifies this server process among its replicas: the owner of the leader
+ * lease and the sender of cluster events
+ */
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
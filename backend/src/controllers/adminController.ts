@@ -0,0 +1,459 @@
+import { Request, Response } from 'express';
+import { Job } from 'bullmq';
+import spreadsheetRegistry, { SpreadsheetEntry } from '../services/spreadsheetRegistry';
+import { PendingItem, PendingQueue, PendingTarget } from '../services/pendingQueue';
+import webhookSecrets from '../services/webhookSecrets';
+import { appsScriptFor } from '../services/appsScriptInstaller';
+import { getSheetUpdateQueue, SHEET_UPDATE_BATCH_JOB } from '../queues/sheetUpdateQueue';
+import { parseCellRef } from '../utils/a1';
+import pino from 'pino';
+
+const logger = pino();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const JOB_STATES = ['failed', 'waiting', 'active', 'delayed', 'prioritized', 'completed'] as const;
+type JobState = typeof JOB_STATES[number];
+
+const PENDING_TARGETS: PendingTarget[] = ['sheet', 'db'];
+
+interface PendingSummary {
+    count: number;
+    oldestAgeMs: number | null;
+    deadLetters: number;
+}
+
+function page(req: Request): { limit: number; offset: number } {
+    const limit = Math.min(parseInt(String(req.query.limit ?? DEFAULT_PAGE_SIZE)) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(String(req.query.offset ?? 0)) || 0, 0);
+    return { limit: Math.max(limit, 1), offset };
+}
+
+function findSpreadsheet(req: Request, res: Response): SpreadsheetEntry | null {
+    const entry = spreadsheetRegistry.get(String(req.params.spreadsheet));
+    if (!entry) {
+        res.status(404).json({ success: false, error: 'Spreadsheet not found' });
+        return null;
+    }
+    return entry;
+}
+
+/**
+ * The spreadsheet, mapping and target named in the path, or null after answering with the error
+ */
+function findPendingQueue(req: Request, res: Response): { entry: SpreadsheetEntry; mappingId: string; target: PendingTarget; queue: PendingQueue } | null {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return null;
+
+    const mappingId = String(req.params.mapping);
+    if (!entry.monitor.getMappingRegistry().get(mappingId)) {
+        res.status(404).json({ success: false, error: `Mapping "${mappingId}" not found` });
+        return null;
+    }
+    const target = String(req.params.target) as PendingTarget;
+    if (!PENDING_TARGETS.includes(target)) {
+        res.status(400).json({ success: false, error: 'target must be sheet or db' });
+        return null;
+    }
+    return { entry, mappingId, target, queue: entry.monitor.getPendingQueue(mappingId, target) };
+}
+
+function describeJob(job: Job, state?: string) {
+    const now = Date.now();
+    return {
+        id: job.id,
+        state,
+        // Batch jobs (v2 webhooks) cover a whole range
+        cell: !job.data ? null : job.name === SHEET_UPDATE_BATCH_JOB ? job.data.range : `${job.data.col}${job.data.row}`,
+        data: job.data,
+        attemptsMade: job.attemptsMade,
+        failedReason: job.failedReason || null,
+        createdAt: job.timestamp,
+        ageMs: now - job.timestamp,
+        processedOn: job.processedOn ?? null,
+        finishedOn: job.finishedOn ?? null,
+    };
+}
+
+function describePending(item: PendingItem) {
+    if (!item.entry) {
+        return { field: item.field, readable: false, raw: item.raw };
+    }
+    const { change, queuedAt, attempts, lastError } = item.entry;
+    return {
+        field: item.field,
+        cell: `${change.col}${change.row}`,
+        value: change.value,
+        source: change.source,
+        queuedAt,
+        ageMs: Date.now() - queuedAt,
+        attempts,
+        lastError: lastError ?? null,
+    };
+}
+
+/**
+ * GET /api/admin/backlog — job counts and offline backlogs of every spreadsheet
+ */
+export async function getBacklog(req: Request, res: Response) {
+    try {
+        const spreadsheets: object[] = [];
+        for (const entry of spreadsheetRegistry.list()) {
+            const queue = getSheetUpdateQueue(entry.config.key);
+            const jobs = await queue.getJobCounts(...JOB_STATES);
+            const [oldestFailed] = await queue.getJobs(['failed'], 0, 0, true);
+
+            const mappings: { id: string; table: string; pending: Record<PendingTarget, PendingSummary> }[] = [];
+            for (const mapping of entry.config.mappings) {
+                const pending = {} as Record<PendingTarget, PendingSummary>;
+                for (const target of PENDING_TARGETS) {
+                    const backlog = entry.monitor.getPendingQueue(mapping.id, target);
+                    const items = await backlog.entries();
+                    const oldest = items.find(item => item.entry)?.entry;
+                    pending[target] = {
+                        count: items.length,
+                        oldestAgeMs: oldest ? Date.now() - oldest.queuedAt : null,
+                        deadLetters: await backlog.deadLetterCount(),
+                    };
+                }
+                mappings.push({ id: mapping.id, table: mapping.table, pending });
+            }
+
+            spreadsheets.push({
+                key: entry.config.key,
+                jobs,
+                oldestFailedAgeMs: oldestFailed ? Date.now() - oldestFailed.timestamp : null,
+                mappings,
+            });
+        }
+        res.json({ success: true, spreadsheets });
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Reading the sync backlog failed');
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * GET /api/admin/jobs/:spreadsheet?state=failed&limit=&offset=
+ */
+export async function listJobs(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+    const state = (typeof req.query.state === 'string' ? req.query.state : 'failed') as JobState;
+    if (!JOB_STATES.includes(state)) {
+        res.status(400).json({ success: false, error: `state must be one of: ${JOB_STATES.join(', ')}` });
+        return;
+    }
+    const { limit, offset } = page(req);
+
+    try {
+        const queue = getSheetUpdateQueue(entry.config.key);
+        const [jobs, counts] = await Promise.all([
+            queue.getJobs([state], offset, offset + limit - 1),
+            queue.getJobCounts(state),
+        ]);
+        res.json({
+            success: true,
+            state,
+            total: counts[state] ?? 0,
+            limit,
+            offset,
+            jobs: jobs.filter(Boolean).map(job => describeJob(job, state)),
+        });
+    } catch (error: any) {
+        logger.error({ error: error.message, key: entry.config.key }, 'Listing jobs failed');
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * GET /api/admin/jobs/:spreadsheet/:id — one job with its stack traces
+ */
+export async function getJob(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+
+    try {
+        const job = await getSheetUpdateQueue(entry.config.key).getJob(String(req.params.id));
+        if (!job) {
+            res.status(404).json({ success: false, error: 'Job not found' });
+            return;
+        }
+        res.json({
+            success: true,
+            job: { ...describeJob(job, await job.getState()), stacktrace: job.stacktrace, returnValue: job.returnvalue ?? null },
+        });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/admin/jobs/:spreadsheet/:id/retry — run a failed job again
+ */
+export async function retryJob(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+
+    try {
+        const job = await getSheetUpdateQueue(entry.config.key).getJob(String(req.params.id));
+        if (!job) {
+            res.status(404).json({ success: false, error: 'Job not found' });
+            return;
+        }
+        const state = await job.getState();
+        if (state !== 'failed') {
+            res.status(409).json({ success: false, error: `Only failed jobs can be retried (job is ${state})` });
+            return;
+        }
+        await job.retry();
+        logger.info({ key: entry.config.key, jobId: job.id }, 'Failed job retried');
+        res.json({ success: true, id: job.id });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/admin/jobs/:spreadsheet/retry — run every failed job again
+ */
+export async function retryFailedJobs(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+
+    try {
+        const queue = getSheetUpdateQueue(entry.config.key);
+        const { failed } = await queue.getJobCounts('failed');
+        await queue.retryJobs({ state: 'failed' });
+        logger.info({ key: entry.config.key, count: failed }, 'Failed jobs retried');
+        res.json({ success: true, retried: failed });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * DELETE /api/admin/jobs/:spreadsheet/:id
+ */
+export async function removeJob(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+
+    try {
+        const job = await getSheetUpdateQueue(entry.config.key).getJob(String(req.params.id));
+        if (!job) {
+            res.status(404).json({ success: false, error: 'Job not found' });
+            return;
+        }
+        if (await job.isActive()) {
+            res.status(409).json({ success: false, error: 'Job is being processed' });
+            return;
+        }
+        await job.remove();
+        logger.info({ key: entry.config.key, jobId: job.id }, 'Job removed');
+        res.json({ success: true, id: job.id });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * DELETE /api/admin/jobs/:spreadsheet?state=failed — purge every job in a state (not active ones)
+ */
+export async function purgeJobs(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+    const state = (typeof req.query.state === 'string' ? req.query.state : 'failed') as JobState;
+    if (!JOB_STATES.includes(state) || state === 'active') {
+        res.status(400).json({ success: false, error: 'state must be failed, waiting, delayed, prioritized or completed' });
+        return;
+    }
+
+    try {
+        const removed = await getSheetUpdateQueue(entry.config.key).clean(0, 0, state === 'waiting' ? 'wait' : state);
+        logger.info({ key: entry.config.key, state, count: removed.length }, 'Jobs purged');
+        res.json({ success: true, state, removed: removed.length });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * GET /api/admin/pending/:spreadsheet/:mapping/:target?limit=&offset= — queued
+ * offline changes (oldest first) and dead letters (newest first)
+ */
+export async function listPending(req: Request, res: Response) {
+    const found = findPendingQueue(req, res);
+    if (!found) return;
+    const { limit, offset } = page(req);
+
+    try {
+        const items = await found.queue.entries();
+        const deadLetters = await found.queue.deadLetters(offset, limit);
+        res.json({
+            success: true,
+            target: found.target,
+            total: items.length,
+            limit,
+            offset,
+            pending: items.slice(offset, offset + limit).map(describePending),
+            deadLetterTotal: await found.queue.deadLetterCount(),
+            deadLetters: deadLetters.map(letter => ({
+                ...letter,
+                cell: letter.change ? `${letter.change.col}${letter.change.row}` : null,
+                failedAgoMs: Date.now() - letter.failedAt,
+            })),
+        });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/admin/pending/:spreadsheet/:mapping/:target/replay — replay the backlog now
+ */
+export async function replayPending(req: Request, res: Response) {
+    const found = findPendingQueue(req, res);
+    if (!found) return;
+
+    try {
+        const { entry, mappingId, target } = found;
+        if (!entry.monitor.isLeading()) {
+            await entry.monitor.replayPending(mappingId, target);
+            res.status(202).json({ success: true, forwarded: true, message: 'Handed to the CDC leader' });
+            return;
+        }
+        const replayed = await entry.monitor.replayPending(mappingId, target);
+        logger.info({ key: entry.config.key, mappingId, target, replayed }, 'Pending changes replayed');
+        res.json({ success: true, replayed, remaining: await found.queue.size() });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/admin/pending/:spreadsheet/:mapping/:target/dead-letters/requeue —
+ * give dead letters another set of attempts
+ */
+export async function requeueDeadLetters(req: Request, res: Response) {
+    const found = findPendingQueue(req, res);
+    if (!found) return;
+
+    try {
+        const requeued = await found.queue.requeueDeadLetters();
+        logger.info({ key: found.entry.config.key, mappingId: found.mappingId, target: found.target, requeued }, 'Dead letters requeued');
+        res.json({ success: true, requeued });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * DELETE /api/admin/pending/:spreadsheet/:mapping/:target?cell=B2 — drop one
+ * queued cell, or the whole backlog without `cell`
+ */
+export async function purgePending(req: Request, res: Response) {
+    const found = findPendingQueue(req, res);
+    if (!found) return;
+
+    try {
+        if (typeof req.query.cell === 'string') {
+            const ref = parseCellRef(req.query.cell);
+            if (!ref) {
+                res.status(400).json({ success: false, error: 'cell must be an A1 reference such as B2' });
+                return;
+            }
+            const removed = await found.queue.remove(`${ref.row}:${ref.col}`);
+            res.json({ success: true, removed: removed ? 1 : 0 });
+            return;
+        }
+        const removed = await found.queue.clear();
+        logger.info({ key: found.entry.config.key, mappingId: found.mappingId, target: found.target, removed }, 'Pending changes purged');
+        res.json({ success: true, removed });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * DELETE /api/admin/pending/:spreadsheet/:mapping/:target/dead-letters
+ */
+export async function purgeDeadLetters(req: Request, res: Response) {
+    const found = findPendingQueue(req, res);
+    if (!found) return;
+
+    try {
+        const removed = await found.queue.clearDeadLetters();
+        logger.info({ key: found.entry.config.key, mappingId: found.mappingId, target: found.target, removed }, 'Dead letters purged');
+        res.json({ success: true, removed });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * GET /api/admin/webhook-secret/:spreadsheet — when the signing secret was issued and rotated
+ */
+export async function getWebhookSecret(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+
+    try {
+        const info = await webhookSecrets.info(entry.config.key);
+        res.json({ success: true, spreadsheet: entry.config.key, issued: info !== null, ...info });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/admin/webhook-secret/:spreadsheet/rotate — new signing secret. The old one
+ * keeps working for `graceMs` (default 7 days). With `handOver`, scripts signing with
+ * it get the new one back. `revoke` is for a leaked secret: it stops at once and the
+ * new one is never sent over the webhook.
+ */
+export async function rotateWebhookSecret(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+
+    const { graceMs, handOver, revoke } = req.body ?? {};
+    if (graceMs !== undefined && (typeof graceMs !== 'number' || !Number.isInteger(graceMs) || graceMs < 0)) {
+        res.status(400).json({ success: false, error: 'graceMs must be a non-negative integer' });
+        return;
+    }
+    if ((handOver !== undefined && typeof handOver !== 'boolean') || (revoke !== undefined && typeof revoke !== 'boolean')) {
+        res.status(400).json({ success: false, error: 'handOver and revoke must be booleans' });
+        return;
+    }
+    if (revoke && (handOver || graceMs)) {
+        res.status(400).json({ success: false, error: 'A revoking rotation has no grace period and hands nothing over' });
+        return;
+    }
+    if (handOver && graceMs === 0) {
+        res.status(400).json({ success: false, error: 'handOver needs a grace period for the old secret' });
+        return;
+    }
+
+    try {
+        const info = await webhookSecrets.rotate(entry.config.key, revoke ? { graceMs: 0 } : { graceMs, handOver });
+        logger.info({ key: entry.config.key, previousExpiresAt: info.previousExpiresAt }, 'Webhook secret rotated');
+        res.json({ success: true, spreadsheet: entry.config.key, ...info });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * GET /api/admin/apps-script/:spreadsheet — the trigger script with the current secret, for installing by hand
+ */
+export async function getAppsScript(req: Request, res: Response) {
+    const entry = findSpreadsheet(req, res);
+    if (!entry) return;
+
+    try {
+        res.type('text/javascript').send(await appsScriptFor(entry));
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import authService, { ROLES, Role } from '../services/authService';
+import { currentIdentity } from '../middleware/auth';
+import pino from 'pino';
+
+const logger = pino();
+
+/**
+ * POST /api/auth/session  { apiKey } — a session token for the frontend, so
+ * the key itself isn't kept in the browser. Only a key opens one, not a session.
+ */
+export async function openSession(req: Request, res: Response) {
+    const apiKey = req.body?.apiKey;
+    if (typeof apiKey !== 'string' || apiKey.length === 0 || apiKey.length > 200) {
+        res.status(400).json({ success: false, error: 'apiKey is required' });
+        return;
+    }
+
+    try {
+        const identity = await authService.authenticateApiKey(apiKey);
+        if (!identity) {
+            logger.warn({ ip: req.ip }, 'Rejected sign-in');
+            res.status(401).json({ success: false, error: 'Invalid API key' });
+            return;
+        }
+        const session = await authService.openSession(identity);
+        logger.info({ name: identity.name, role: identity.role }, 'Session opened');
+        res.json({ success: true, ...session, identity: { name: identity.name, role: identity.role } });
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Sign-in failed');
+        res.status(503).json({ success: false, error: 'Could not check credentials, try again' });
+    }
+}
+
+/**
+ * GET /api/auth/me
+ */
+export function whoAmI(req: Request, res: Response) {
+    const { name, role } = currentIdentity(res);
+    res.json({ success: true, identity: { name, role } });
+}
+
+/**
+ * GET /api/auth/keys — every key without its secret
+ */
+export async function listKeys(req: Request, res: Response) {
+    try {
+        res.json({ success: true, keys: await authService.listKeys() });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/auth/keys  { name, role } — the key is in the response and can't be read again
+ */
+export async function createKey(req: Request, res: Response) {
+    const { name, role } = req.body || {};
+    const invalid = authService.validateName(name);
+    if (invalid) {
+        res.status(400).json({ success: false, error: invalid });
+        return;
+    }
+    if (!ROLES.includes(role)) {
+        res.status(400).json({ success: false, error: `role must be one of ${ROLES.join(', ')}` });
+        return;
+    }
+
+    try {
+        const { info, key } = await authService.createKey(name, role as Role);
+        logger.info({ id: info.id, name, role, by: currentIdentity(res).name }, 'API key issued');
+        res.status(201).json({ success: true, key, info });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * DELETE /api/auth/keys/:id — revoke a key and the sessions opened with it
+ */
+export async function revokeKey(req: Request, res: Response) {
+    const id = parseInt(String(req.params.id));
+    if (!Number.isInteger(id) || id < 1) {
+        res.status(400).json({ success: false, error: 'Invalid key id' });
+        return;
+    }
+
+    try {
+        if (!await authService.revokeKey(id)) {
+            res.status(404).json({ success: false, error: 'Key not found or already revoked' });
+            return;
+        }
+        logger.info({ id, by: currentIdentity(res).name }, 'API key revoked');
+        res.json({ success: true });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
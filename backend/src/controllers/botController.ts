@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
-import pool from '../config/database';
 import lockService from '../services/lockService';
-import cdcMonitor from '../services/cdcMonitor';
+import spreadsheetRegistry from '../services/spreadsheetRegistry';
+import { mappingScope } from '../utils/redisKeys';
+import { CDCMonitor } from '../services/cdcMonitor';
+import { currentIdentity } from '../middleware/auth';
 import pino from 'pino';
 
 const logger = pino();
@@ -38,22 +40,24 @@ interface BotResult {
     botName: string;
     cell: string;
     value: string;
-    status: 'success' | 'lock_conflict' | 'error';
+    status: 'success' | 'lock_conflict' | 'version_conflict' | 'error';
     message: string;
     lockWaitMs?: number;
+    conflictId?: number;
 }
 
-async function executeBotTask(task: BotTask): Promise<BotResult> {
+async function executeBotTask(monitor: CDCMonitor, mappingId: string, scope: string, task: BotTask): Promise<BotResult> {
+    const store = monitor.getStore(mappingId);
     const { botName, row, col, value } = task;
     const cellRef = `${col}${row}`;
     const startTime = Date.now();
 
     // Try to acquire lock
-    const locked = await lockService.acquireLock(row, col, botName);
+    const locked = await lockService.acquireLock(scope, row, col, botName);
     const lockWaitMs = Date.now() - startTime;
 
     if (!locked) {
-        const lockInfo = await lockService.isLocked(row, col);
+        const lockInfo = await lockService.isLocked(scope, row, col);
         return {
             botName,
             cell: cellRef,
@@ -65,15 +69,34 @@ async function executeBotTask(task: BotTask): Promise<BotResult> {
     }
 
     try {
+        // Read-modify-write: the write is based on the version seen here
+        const seen = await store.readCell(row, col);
+
         // Simulate a small processing delay to increase contention window
         await new Promise(resolve => setTimeout(resolve, randomInt(50, 200)));
 
-        await pool.query(
-            `INSERT INTO users (row_num, col_name, cell_value, last_modified_by)
-             VALUES (?, ?, ?, ?)
-             ON DUPLICATE KEY UPDATE cell_value = VALUES(cell_value), last_modified_by = VALUES(last_modified_by)`,
-            [row, col, value, botName]
-        );
+        // Locks keep bots apart, but sheet edits don't take them
+        const outcome = await store.writeCell(row, col, value, botName, seen.version);
+        if (!outcome.applied) {
+            const conflictId = await monitor.recordConflict(mappingId, {
+                row,
+                col,
+                side: 'db',
+                value,
+                source: botName,
+                baseVersion: seen.version,
+                current: outcome.current,
+            });
+            return {
+                botName,
+                cell: cellRef,
+                value,
+                status: 'version_conflict',
+                message: `${cellRef} changed since version ${seen.version} (now v${outcome.current.version}); recorded as conflict #${conflictId}`,
+                lockWaitMs,
+                conflictId,
+            };
+        }
 
         return {
             botName,
@@ -93,7 +116,7 @@ async function executeBotTask(task: BotTask): Promise<BotResult> {
             lockWaitMs,
         };
     } finally {
-        await lockService.releaseLock(row, col, botName);
+        await lockService.releaseLock(scope, row, col, botName);
     }
 }
 
@@ -105,12 +128,36 @@ export async function runBotSimulation(req: Request, res: Response) {
             return;
         }
         const botCount = Math.min(Math.max(rawCount || 8, 2), 50);
+
+        const { spreadsheet: spreadsheetKey, mappingId } = req.body;
+        const spreadsheet = spreadsheetKey === undefined
+            ? spreadsheetRegistry.getDefault()
+            : spreadsheetRegistry.get(spreadsheetKey);
+        if (!spreadsheet) {
+            res.status(400).json({ success: false, error: `Unknown spreadsheet "${spreadsheetKey ?? 'default'}"` });
+            return;
+        }
+
+        const cdcMonitor = spreadsheet.monitor;
+        const mappings = cdcMonitor.getMappingRegistry();
+        const mapping = mappingId === undefined ? mappings.getDefault() : mappings.get(mappingId);
+        if (!mapping) {
+            res.status(400).json({ success: false, error: `Unknown mappingId "${mappingId}"` });
+            return;
+        }
+        // Random writes would land on the header row and rename columns
+        if (mapping.mode === 'rows') {
+            res.status(400).json({ success: false, error: `Mapping "${mapping.id}" uses rows mode; bot simulation needs a cells mapping` });
+            return;
+        }
+        const scope = mappingScope(spreadsheet.config.key, mapping.id);
+
         const contestedCell = {
             row: randomInt(1, 5),
             col: COLUMNS[randomInt(0, 3)],
         };
 
-        logger.info(`🤖 Starting bot simulation: ${botCount} bots, contested cell = ${contestedCell.col}${contestedCell.row}`);
+        logger.info(`🤖 ${currentIdentity(res).name} started a bot simulation on ${scope}: ${botCount} bots, contested cell = ${contestedCell.col}${contestedCell.row}`);
 
         const tasks: BotTask[] = [];
 
@@ -138,23 +185,26 @@ export async function runBotSimulation(req: Request, res: Response) {
 
         // Fire ALL tasks at once (simultaneously)
         const startTime = Date.now();
-        const results = await Promise.all(tasks.map(t => executeBotTask(t)));
+        const results = await Promise.all(tasks.map(t => executeBotTask(cdcMonitor, mapping.id, scope, t)));
         const totalMs = Date.now() - startTime;
 
         // Sync to Google Sheet after all bots finish
         try {
-            cdcMonitor.markDirty();
-            await cdcMonitor.syncFromDatabase();
+            cdcMonitor.markDirty(mapping.id);
+            await cdcMonitor.syncFromDatabase(mapping.id);
         } catch (err) {
             logger.error({ err }, 'Bot sync to sheet failed');
         }
 
         const summary = {
+            spreadsheet: spreadsheet.config.key,
+            mappingId: mapping.id,
             totalBots: botCount,
             contestedCell: `${contestedCell.col}${contestedCell.row}`,
             totalTimeMs: totalMs,
             successes: results.filter(r => r.status === 'success').length,
             lockConflicts: results.filter(r => r.status === 'lock_conflict').length,
+            versionConflicts: results.filter(r => r.status === 'version_conflict').length,
             errors: results.filter(r => r.status === 'error').length,
         };
 
@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import lockService from '../services/lockService';
+import spreadsheetRegistry, { SpreadsheetEntry } from '../services/spreadsheetRegistry';
+import conflictService, {
+    CONFLICT_POLICIES, Conflict, ConflictPolicy, defaultConflictPolicy, pickWinner,
+} from '../services/conflictService';
+import { mappingScope } from '../utils/redisKeys';
+import pino from 'pino';
+
+const logger = pino();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type Choice = { policy: ConflictPolicy } | { value: string };
+
+type Resolution =
+    | { ok: true; id: number; resolution: string; value: string }
+    | { ok: false; id: number; status: number; error: string };
+
+/**
+ * Read { policy?, value? } from a request body. A value overrides any policy.
+ */
+function parseChoice(body: any): Choice | string {
+    if (body?.value !== undefined) {
+        return typeof body.value === 'string' ? { value: body.value } : 'value must be a string';
+    }
+    const policy = body?.policy ?? defaultConflictPolicy();
+    if (!CONFLICT_POLICIES.includes(policy)) {
+        return `policy must be one of: ${CONFLICT_POLICIES.join(', ')}`;
+    }
+    return { policy };
+}
+
+/**
+ * Write the winning value over the cell and close the conflict. The caller
+ * pushes the mapping to the sheet afterwards.
+ */
+async function resolveOne(conflict: Conflict, choice: Choice): Promise<Resolution> {
+    const { id, row, col, mappingId } = conflict;
+    if (conflict.status !== 'open') {
+        return { ok: false, id, status: 409, error: `Conflict #${id} is already resolved` };
+    }
+
+    const entry = spreadsheetRegistry.get(conflict.spreadsheetKey);
+    if (!entry || !entry.monitor.getMappingRegistry().get(mappingId)) {
+        return { ok: false, id, status: 410, error: `Mapping "${conflict.spreadsheetKey}/${mappingId}" is no longer synced` };
+    }
+
+    const scope = mappingScope(conflict.spreadsheetKey, mappingId);
+    const owner = `conflict:${id}`;
+    if (!await lockService.acquireLock(scope, row, col, owner)) {
+        return { ok: false, id, status: 409, error: `Cell ${col}${row} is locked; try again` };
+    }
+
+    try {
+        const store = entry.monitor.getStore(mappingId);
+        let value: string;
+        let resolution: string;
+        if ('value' in choice) {
+            value = choice.value;
+            resolution = 'manual';
+        } else {
+            // Keeping the current side means keeping whatever is stored now
+            value = pickWinner(conflict, choice.policy) === 'incoming'
+                ? conflict.incoming.value
+                : (await store.readCell(row, col)).value;
+            resolution = choice.policy;
+        }
+
+        await store.writeCell(row, col, value, 'conflict_resolution');
+        await conflictService.markResolved(id, resolution, value);
+        entry.monitor.clearConflict(mappingId, row, col);
+        entry.monitor.markDirty(mappingId);
+
+        logger.info({ id, cell: `${col}${row}`, scope, resolution, value }, 'Conflict resolved');
+        return { ok: true, id, resolution, value };
+    } finally {
+        await lockService.releaseLock(scope, row, col, owner);
+    }
+}
+
+async function pushResolved(entry: SpreadsheetEntry, mappingId: string) {
+    try {
+        await entry.monitor.syncFromDatabase(mappingId);
+    } catch (err) {
+        logger.error({ err, key: entry.config.key, mappingId }, 'Sync after conflict resolution failed');
+    }
+}
+
+/**
+ * GET /api/conflicts?status=open|resolved|all&spreadsheet=&mapping=&limit=&offset=
+ */
+export async function listConflicts(req: Request, res: Response) {
+    const status = typeof req.query.status === 'string' ? req.query.status : 'open';
+    if (!['open', 'resolved', 'all'].includes(status)) {
+        res.status(400).json({ success: false, error: 'status must be open, resolved or all' });
+        return;
+    }
+    const limit = Math.min(parseInt(String(req.query.limit ?? DEFAULT_PAGE_SIZE)) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(String(req.query.offset ?? 0)) || 0, 0);
+
+    try {
+        const { conflicts, total } = await conflictService.list({
+            status: status === 'all' ? undefined : status as 'open' | 'resolved',
+            spreadsheetKey: typeof req.query.spreadsheet === 'string' ? req.query.spreadsheet : undefined,
+            mappingId: typeof req.query.mapping === 'string' ? req.query.mapping : undefined,
+            limit: Math.max(limit, 1),
+            offset,
+        });
+        res.json({ success: true, conflicts, total, limit, offset, defaultPolicy: defaultConflictPolicy() });
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Listing conflicts failed');
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * GET /api/conflicts/:id
+ */
+export async function getConflict(req: Request, res: Response) {
+    try {
+        const conflict = await conflictService.get(parseInt(String(req.params.id)));
+        if (!conflict) {
+            res.status(404).json({ success: false, error: 'Conflict not found' });
+            return;
+        }
+        res.json({ success: true, conflict });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/conflicts/:id/resolve  { policy?: 'sheet-wins' | 'db-wins' | 'latest-timestamp-wins', value?: string }
+ */
+export async function resolveConflict(req: Request, res: Response) {
+    const choice = parseChoice(req.body);
+    if (typeof choice === 'string') {
+        res.status(400).json({ success: false, error: choice });
+        return;
+    }
+
+    try {
+        const conflict = await conflictService.get(parseInt(String(req.params.id)));
+        if (!conflict) {
+            res.status(404).json({ success: false, error: 'Conflict not found' });
+            return;
+        }
+
+        const result = await resolveOne(conflict, choice);
+        if (!result.ok) {
+            res.status(result.status).json({ success: false, error: result.error });
+            return;
+        }
+        await pushResolved(spreadsheetRegistry.get(conflict.spreadsheetKey)!, conflict.mappingId);
+        res.json({ success: true, ...result });
+    } catch (error: any) {
+        logger.error({ error: error.message, id: req.params.id }, 'Resolving conflict failed');
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/conflicts/resolve  { policy?, spreadsheet?, mapping? } — resolve every matching open conflict
+ */
+export async function resolveOpenConflicts(req: Request, res: Response) {
+    const choice = parseChoice(req.body);
+    if (typeof choice === 'string') {
+        res.status(400).json({ success: false, error: choice });
+        return;
+    }
+    if ('value' in choice) {
+        res.status(400).json({ success: false, error: 'A manual value can only resolve one conflict at a time' });
+        return;
+    }
+
+    try {
+        const { conflicts } = await conflictService.list({
+            status: 'open',
+            spreadsheetKey: typeof req.body.spreadsheet === 'string' ? req.body.spreadsheet : undefined,
+            mappingId: typeof req.body.mapping === 'string' ? req.body.mapping : undefined,
+            limit: MAX_PAGE_SIZE,
+            offset: 0,
+        });
+
+        const results: Resolution[] = [];
+        const touched = new Map<string, { entry: SpreadsheetEntry; mappingId: string }>();
+        for (const conflict of conflicts) {
+            const result = await resolveOne(conflict, choice);
+            results.push(result);
+            if (result.ok) {
+                touched.set(`${conflict.spreadsheetKey}:${conflict.mappingId}`, {
+                    entry: spreadsheetRegistry.get(conflict.spreadsheetKey)!,
+                    mappingId: conflict.mappingId,
+                });
+            }
+        }
+        for (const { entry, mappingId } of touched.values()) {
+            await pushResolved(entry, mappingId);
+        }
+
+        res.json({
+            success: true,
+            policy: choice.policy,
+            resolved: results.filter(r => r.ok).length,
+            failed: results.filter(r => !r.ok).length,
+            results,
+        });
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Bulk conflict resolution failed');
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
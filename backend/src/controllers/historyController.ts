@@ -0,0 +1,315 @@
+import { Request, Response } from 'express';
+import spreadsheetRegistry, { SpreadsheetEntry } from '../services/spreadsheetRegistry';
+import historyService, { CELL_CHANGE_TYPES, HistoryEntry } from '../services/historyService';
+import lockService from '../services/lockService';
+import { parseCellRange, parseCellRef } from '../utils/a1';
+import { mappingScope } from '../utils/redisKeys';
+import { SyncMapping } from '../types/types';
+import pino from 'pino';
+
+const logger = pino();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/** A cell to put back; with `expect`, only if it still holds that value */
+interface RestoreTarget {
+    row: number;
+    col: string;
+    value: string;
+    expect?: string;
+}
+
+type RestoreResult =
+    | { cell: string; status: 'restored' | 'unchanged'; value: string }
+    | { cell: string; status: 'skipped'; reason: string; current?: string };
+
+function queryString(value: unknown): string | undefined {
+    return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function parseDate(value: string | undefined): Date | null | undefined {
+    if (value === undefined) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Which tables a history query covers. A cell or mapping narrows it to one
+ * mapping (of the default spreadsheet unless one is named); a spreadsheet alone
+ * to its mappings; nothing at all means every table.
+ */
+function resolveTables(spreadsheetKey?: string, mappingId?: string, needsMapping = false): string[] | undefined | string {
+    if (!spreadsheetKey && !mappingId && !needsMapping) return undefined;
+
+    const entry = spreadsheetKey ? spreadsheetRegistry.get(spreadsheetKey) : spreadsheetRegistry.getDefault();
+    if (!entry) return `Unknown spreadsheet "${spreadsheetKey ?? 'default'}"`;
+    if (!mappingId && !needsMapping) return entry.config.mappings.map(m => m.table);
+
+    const mappings = entry.monitor.getMappingRegistry();
+    const mapping = mappingId ? mappings.get(mappingId) : mappings.getDefault();
+    if (!mapping) return `Unknown mappingId "${mappingId}"`;
+    return [mapping.table];
+}
+
+/**
+ * GET /api/history?cell=B4&spreadsheet=&mapping=&since=&until=&source=&writeId=&limit=&cursor=
+ *
+ * Newest first. `nextCursor` in the response fetches the next (older) page.
+ */
+export async function listHistory(req: Request, res: Response) {
+    const cellRef = queryString(req.query.cell);
+    const cell = cellRef ? parseCellRef(cellRef) : undefined;
+    if (cell === null) {
+        res.status(400).json({ success: false, error: 'cell must be an A1 reference like B4' });
+        return;
+    }
+
+    const since = parseDate(queryString(req.query.since));
+    const until = parseDate(queryString(req.query.until));
+    if (since === null || until === null) {
+        res.status(400).json({ success: false, error: 'since and until must be ISO timestamps' });
+        return;
+    }
+
+    const tables = resolveTables(queryString(req.query.spreadsheet), queryString(req.query.mapping), !!cell);
+    if (typeof tables === 'string') {
+        res.status(404).json({ success: false, error: tables });
+        return;
+    }
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? DEFAULT_PAGE_SIZE)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const cursor = req.query.cursor !== undefined ? parseInt(String(req.query.cursor)) : undefined;
+    if (cursor !== undefined && isNaN(cursor)) {
+        res.status(400).json({ success: false, error: 'cursor must be a history id' });
+        return;
+    }
+
+    try {
+        const { entries, nextCursor } = await historyService.list({
+            tables,
+            row: cell?.row,
+            col: cell?.col,
+            since,
+            until,
+            source: queryString(req.query.source),
+            writeId: queryString(req.query.writeId),
+            cursor,
+            limit,
+        });
+
+        res.json({
+            success: true,
+            entries: entries.map(entry => {
+                const owner = spreadsheetRegistry.findByTable(entry.table);
+                return {
+                    ...entry,
+                    spreadsheet: owner?.spreadsheet.config.key ?? null,
+                    mappingId: owner?.mapping.id ?? null,
+                };
+            }),
+            nextCursor,
+            limit,
+        });
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Reading cell history failed');
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * Write each target back through the lock service, then push the mapping to
+ * the sheet. Cells are written against the version read under the lock, so a
+ * concurrent writer that slips past the lock (a bot) isn't overwritten.
+ */
+async function applyRestore(
+    owner: { spreadsheet: SpreadsheetEntry; mapping: SyncMapping },
+    targets: RestoreTarget[],
+    writer: string
+): Promise<RestoreResult[]> {
+    const { monitor } = owner.spreadsheet;
+    const mappingId = owner.mapping.id;
+    const store = monitor.getStore(mappingId);
+    const scope = mappingScope(owner.spreadsheet.config.key, mappingId);
+    const lockOwner = `${writer}_${Date.now()}`;
+
+    const restoreCell = async (target: RestoreTarget): Promise<RestoreResult> => {
+        const { row, col, value } = target;
+        const cell = `${col}${row}`;
+        if (monitor.hasConflict(mappingId, row, col)) {
+            return { cell, status: 'skipped', reason: 'open conflict; resolve it first' };
+        }
+        if (!await lockService.acquireLock(scope, row, col, lockOwner)) {
+            return { cell, status: 'skipped', reason: 'locked' };
+        }
+        try {
+            const current = await store.readCell(row, col);
+            if (target.expect !== undefined && current.value !== target.expect) {
+                return { cell, status: 'skipped', reason: 'changed since', current: current.value };
+            }
+            if (current.value === value) return { cell, status: 'unchanged', value };
+            // A formula's old result would replace the formula in the sheet
+            if (current.formula) {
+                return { cell, status: 'skipped', reason: 'formula cell; its value follows the formula', current: current.value };
+            }
+
+            const outcome = await store.writeCell(row, col, value, writer, current.version);
+            if (!outcome.applied) {
+                return { cell, status: 'skipped', reason: 'changed since', current: outcome.current.value };
+            }
+            // A rows-mode row can't be recreated before its key cell is back
+            if ((await store.readCell(row, col)).value !== value) {
+                return { cell, status: 'skipped', reason: 'row not stored yet' };
+            }
+            return { cell, status: 'restored', value };
+        } finally {
+            await lockService.releaseLock(scope, row, col, lockOwner);
+        }
+    };
+
+    const results = new Map<string, RestoreResult>();
+    for (const target of targets) {
+        results.set(`${target.col}${target.row}`, await restoreCell(target));
+    }
+    // Second pass for cells whose row came back later in the first one
+    for (const target of targets) {
+        const result = results.get(`${target.col}${target.row}`)!;
+        if (result.status === 'skipped' && result.reason === 'row not stored yet') {
+            results.set(result.cell, await restoreCell(target));
+        }
+    }
+
+    const restored = Array.from(results.values()).filter(r => r.status === 'restored').length;
+    if (restored > 0) {
+        monitor.markDirty(mappingId);
+        try {
+            await monitor.syncFromDatabase(mappingId);
+        } catch (err) {
+            logger.error({ err, scope }, 'Sync after restore failed');
+        }
+    }
+    return Array.from(results.values());
+}
+
+function summarize(results: RestoreResult[]) {
+    return {
+        restored: results.filter(r => r.status === 'restored').length,
+        unchanged: results.filter(r => r.status === 'unchanged').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+        results,
+    };
+}
+
+function structureConflict(entry: HistoryEntry) {
+    return {
+        success: false,
+        error: `Rows or columns were inserted, deleted or moved since (${entry.type} ${entry.cell} at ${entry.changedAt.toISOString()}), so recorded cell positions no longer line up`,
+        structureChange: entry,
+    };
+}
+
+/**
+ * POST /api/history/writes/:writeId/undo  { force?: boolean }
+ *
+ * Put back the before-image of every cell one write changed. Cells changed
+ * again since are left alone unless `force` is set. Structural edits, and writes
+ * older than one, can't be undone.
+ */
+export async function undoWrite(req: Request, res: Response) {
+    const writeId = String(req.params.writeId);
+    const force = req.body?.force === true;
+
+    try {
+        const entries = await historyService.write(writeId);
+        if (entries.length === 0) {
+            res.status(404).json({ success: false, error: 'Write not found' });
+            return;
+        }
+        const owner = spreadsheetRegistry.findByTable(entries[0].table);
+        if (!owner) {
+            res.status(410).json({ success: false, error: `Table "${entries[0].table}" is no longer synced` });
+            return;
+        }
+        if (!(CELL_CHANGE_TYPES as string[]).includes(entries[0].type)) {
+            res.status(409).json({ success: false, error: 'Structural edits can\'t be undone; make the reverse edit in the sheet' });
+            return;
+        }
+        const structure = await historyService.structureChangeSince(entries[0].table, entries[0].changedAt);
+        if (structure) {
+            res.status(409).json(structureConflict(structure));
+            return;
+        }
+
+        // A cell may appear more than once (e.g. moved and written); undo to its first before-image
+        const targets = new Map<string, RestoreTarget>();
+        for (const entry of entries) {
+            const existing = targets.get(entry.cell);
+            targets.set(entry.cell, {
+                row: entry.row,
+                col: entry.col,
+                value: existing ? existing.value : entry.oldValue ?? '',
+                expect: force ? undefined : entry.newValue ?? '',
+            });
+        }
+
+        const results = await applyRestore(owner, Array.from(targets.values()), 'undo');
+        logger.info({ writeId, force, table: entries[0].table }, 'Write undone');
+        res.json({ success: true, writeId, ...summarize(results) });
+    } catch (error: any) {
+        logger.error({ error: error.message, writeId }, 'Undo failed');
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
+
+/**
+ * POST /api/history/restore  { at: ISO timestamp, spreadsheet?, mapping?, range?: 'B2:D10' }
+ *
+ * Roll a range (or, without one, the whole table) back to what it held at `at`.
+ * Refused if rows or columns were inserted, deleted or moved since.
+ */
+export async function restoreToTimestamp(req: Request, res: Response) {
+    const at = parseDate(queryString(req.body?.at));
+    if (!at) {
+        res.status(400).json({ success: false, error: 'at must be an ISO timestamp' });
+        return;
+    }
+    if (at.getTime() > Date.now()) {
+        res.status(400).json({ success: false, error: 'at must be in the past' });
+        return;
+    }
+    const rangeRef = queryString(req.body?.range);
+    const range = rangeRef ? parseCellRange(rangeRef) : undefined;
+    if (range === null) {
+        res.status(400).json({ success: false, error: 'range must be an A1 range like B2:D10' });
+        return;
+    }
+
+    const tables = resolveTables(queryString(req.body?.spreadsheet), queryString(req.body?.mapping), true);
+    if (typeof tables === 'string') {
+        res.status(404).json({ success: false, error: tables });
+        return;
+    }
+    const owner = spreadsheetRegistry.findByTable(tables![0])!;
+
+    try {
+        const structure = await historyService.structureChangeSince(owner.mapping.table, at);
+        if (structure) {
+            res.status(409).json(structureConflict(structure));
+            return;
+        }
+        const targets = await historyService.valuesAt(owner.mapping.table, at, range);
+        const results = await applyRestore(owner, targets, 'restore');
+        logger.info({ table: owner.mapping.table, at, range: rangeRef ?? 'all' }, 'Restored to timestamp');
+        res.json({
+            success: true,
+            spreadsheet: owner.spreadsheet.config.key,
+            mappingId: owner.mapping.id,
+            at,
+            range: rangeRef ?? null,
+            ...summarize(results),
+        });
+    } catch (error: any) {
+        logger.error({ error: error.message }, 'Restore failed');
+        res.status(500).json({ success: false, error: error.message });
+    }
+}
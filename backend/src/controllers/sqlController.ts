@@ -1,153 +1,438 @@
 import { Request, Response } from 'express';
+import { Connection } from 'mysql2/promise';
 import pool from '../config/database';
-import cdcMonitor from '../services/cdcMonitor';
-import lockService from '../services/lockService';
+import lockService, { LockTarget, lockLabel } from '../services/lockService';
+import spreadsheetRegistry, { SpreadsheetEntry } from '../services/spreadsheetRegistry';
+import historyService, { CellChange } from '../services/historyService';
+import { CellTableStore, TableStore, withTransaction } from '../services/tableStore';
+import { mappingScope } from '../utils/redisKeys';
+import { SyncMapping } from '../types/types';
+import { currentIdentity } from '../middleware/auth';
+import { guardedStatement } from '../middleware/sqlGuardMiddleware';
+import {
+    CellAddress, InspectedStatement, assignedLiteral, insertedCells, matchingRecordsQuery, pinnedCell, writeQuery,
+} from '../utils/sqlInspector';
+import { hasRole } from '../services/authService';
+import { randomUUID } from 'crypto';
 import pino from 'pino';
 
 const logger = pino();
 
-function parseAffectedCells(query: string): { row: number; col: string }[] {
-    const cells: { row: number; col: string }[] = [];
-    const upper = query.toUpperCase().trim();
+// Most sheet cells one statement may lock (a rows-mode row counts each mapped column); bigger writes should be split up
+const MAX_LOCKED_CELLS = 5000;
+// Times a write is re-planned when the records it matches change before they're locked
+const MAX_PLAN_ATTEMPTS = 3;
 
-    // INSERT INTO users (row_num, col_name, ...) VALUES (2, 'B', ...)
-    const insertMatch = query.match(/VALUES\s*\(\s*(\d+)\s*,\s*'([A-Za-z])'/i);
-    if (insertMatch) {
-        cells.push({ row: parseInt(insertMatch[1]), col: insertMatch[2].toUpperCase() });
-        return cells; // INSERT only affects one cell
+interface SqlTarget {
+    spreadsheet: SpreadsheetEntry;
+    mapping: SyncMapping;
+    scope: string;
+}
+
+/**
+ * Work out which spreadsheet mapping a statement touches from its target table.
+ * Writes use the INSERT/UPDATE/DELETE target, reads the first table read.
+ */
+function resolveTarget(statement: InspectedStatement): SqlTarget | undefined {
+    const table = statement.writeTable ?? statement.readTables[0];
+    const found = table ? spreadsheetRegistry.findByTable(table) : undefined;
+    if (!found) return undefined;
+    return { ...found, scope: mappingScope(found.spreadsheet.config.key, found.mapping.id) };
+}
+
+function sets(statement: InspectedStatement, column: string): boolean {
+    return statement.writeColumns.some(c => c.toLowerCase() === column.toLowerCase());
+}
+
+/**
+ * The value a single-cell write leaves behind: '' for DELETE, otherwise the
+ * cell_value literal. null when the statement doesn't spell it out.
+ */
+function writtenValue(statement: InspectedStatement): string | null {
+    if (statement.type === 'delete') return '';
+    const value = assignedLiteral(statement, 'cell_value');
+    return value === undefined || value === null ? null : String(value);
+}
+
+/**
+ * What a write is about to change: the stored records it touches and the locks
+ * covering them. Cell tables lock every sheet cell the write can change (the
+ * cells records move to included), rows-mode tables the sheet rows of the
+ * records.
+ */
+interface WritePlan {
+    touched: any[];
+    locks: LockTarget[];
+}
+
+type PlannedWrite = WritePlan | { error: string };
+
+function cellLocks(cells: CellAddress[]): LockTarget[] {
+    const unique = new Map(cells.map(c => [`${c.col}${c.row}`, c]));
+    return [...unique.values()].map(c => ({ kind: 'cell', row: c.row, col: c.col }));
+}
+
+/**
+ * Resolve the records and locks a write needs from its tree. Run on the pool
+ * to plan the locks, then with `forUpdate` inside the write's transaction to
+ * lock the records and check nothing moved in between.
+ */
+async function planWrite(db: Connection, statement: InspectedStatement, target: SqlTarget, forUpdate: boolean): Promise<PlannedWrite> {
+    const { table } = target.mapping;
+    const cellTable = target.mapping.mode !== 'rows';
+
+    if (statement.type === 'insert') {
+        // New rows-mode records have no sheet row until they're placed
+        if (!cellTable) return { touched: [], locks: [] };
+        const cells = insertedCells(statement);
+        if (!cells) {
+            return { error: 'INSERT into a cell table needs literal row_num and col_name values for every row, so its cells can be locked' };
+        }
+        // Stored cells an ON DUPLICATE KEY UPDATE overwrites; a plain INSERT fails on them
+        if (!statement.ast.on_duplicate_update || cells.length === 0) return { touched: [], locks: cellLocks(cells) };
+        const [touched]: any = await db.query(
+            `SELECT * FROM ?? WHERE (row_num, col_name) IN (?)${forUpdate ? ' FOR UPDATE' : ''}`,
+            [table, cells.map(c => [c.row, c.col])]
+        );
+        return { touched, locks: cellLocks(cells) };
     }
 
-    // UPDATE/DELETE with WHERE row_num = X AND col_name = 'Y'
-    // Must have BOTH row_num AND col_name to identify a specific cell
-    const rowMatch = query.match(/row_num\s*=\s*(\d+)/i);
-    const colMatch = query.match(/col_name\s*=\s*'([A-Za-z])'/i);
-    
-    if (rowMatch && colMatch) {
-        cells.push({ row: parseInt(rowMatch[1]), col: colMatch[1].toUpperCase() });
+    const [touched]: any = await db.query(matchingRecordsQuery(statement, forUpdate));
+    const moves = statement.type === 'update' && (sets(statement, 'row_num') || (cellTable && sets(statement, 'col_name')));
+    const row = assignedLiteral(statement, 'row_num');
+    const col = assignedLiteral(statement, 'col_name');
+    if (moves && ((sets(statement, 'row_num') && typeof row !== 'number') || (cellTable && sets(statement, 'col_name') && typeof col !== 'string'))) {
+        return { error: 'row_num and col_name can only be set to literals, so where records move to can be locked' };
     }
-    // If only row_num is specified (no col_name), we can't lock a specific cell
-    // This means the query affects multiple cells - let it run without cell-level locking
-    // The DB will handle row-level consistency
 
-    return cells;
+    if (!cellTable) {
+        const rows = new Set<number>();
+        for (const record of touched) {
+            if (record.row_num !== null) rows.add(Number(record.row_num));
+        }
+        if (moves && touched.length > 0) rows.add(row as number);
+        return { touched, locks: [...rows].map(r => ({ kind: 'row', row: r })) };
+    }
+
+    const cells: CellAddress[] = touched.map((r: any) => ({ row: Number(r.row_num), col: String(r.col_name).toUpperCase() }));
+    if (moves) {
+        for (const record of touched) {
+            cells.push({
+                row: typeof row === 'number' ? row : Number(record.row_num),
+                col: String(typeof col === 'string' ? col : record.col_name).toUpperCase(),
+            });
+        }
+    }
+    return { touched, locks: cellLocks(cells) };
 }
 
-export async function executeSQL(req: Request, res: Response) {
-    const owner = req.body.owner || `user_${Date.now()}`;
+/**
+ * Whether every lock of `needed` is among the held ones
+ */
+function covers(held: LockTarget[], needed: LockTarget[]): boolean {
+    const labels = new Set(held.map(lockLabel));
+    return needed.every(t => labels.has(lockLabel(t)));
+}
 
-    try {
-        let { query } = req.body;
+/**
+ * Stamp the caller on written records whose last_modified_by the statement
+ * couldn't set (INSERTs, which fall back to the column default)
+ */
+async function stampWriter(store: TableStore, table: string, written: any[], writer: string): Promise<void> {
+    const unstamped = written.filter(r => r.last_modified_by !== writer);
+    if (unstamped.length === 0) return;
+    await pool.query('UPDATE ?? SET last_modified_by = ?, updated_at = updated_at WHERE ?? IN (?)', [
+        table, writer, store.keyColumn, unstamped.map(r => r[store.keyColumn]),
+    ]);
+    for (const record of unstamped) record.last_modified_by = writer;
+}
 
-        if (!query || typeof query !== 'string') {
-            res.status(400).json({ success: false, error: 'Query is required' });
-            return;
-        }
+/**
+ * The touched records as they are after a terminal write. Cell-table INSERTs
+ * are found by the cells they name; rows-mode INSERTs enter the history
+ * when they are placed in the sheet.
+ */
+async function readWrittenRecords(store: TableStore, table: string, statement: InspectedStatement, before: any[]): Promise<any[]> {
+    const key = store.keyColumn;
+    const cells = statement.type === 'insert' && store instanceof CellTableStore ? insertedCells(statement) ?? [] : [];
+    let after: any[] = [];
+    if (cells.length > 0) {
+        [after] = await pool.query('SELECT * FROM ?? WHERE (row_num, col_name) IN (?)', [
+            table, cells.map(c => [c.row, c.col]),
+        ]) as any;
+    } else if (before.length > 0) {
+        [after] = await pool.query('SELECT * FROM ?? WHERE ?? IN (?)', [table, key, before.map(r => r[key])]) as any;
+    }
+    return after;
+}
+
+/**
+ * Diff the touched records before and after a terminal write into cell history.
+ * Returns the history write id.
+ */
+async function recordSqlHistory(store: TableStore, table: string, before: any[], after: any[], writer: string): Promise<string | null> {
+    const key = store.keyColumn;
+    const afterByKey = new Map(after.map(r => [String(r[key]), r]));
+    const changes: CellChange[] = [];
+    for (const record of before) {
+        changes.push(...store.diffRecords(record, afterByKey.get(String(record[key])) ?? null, writer));
+        afterByKey.delete(String(record[key]));
+    }
+    for (const record of afterByKey.values()) {
+        changes.push(...store.diffRecords(null, record, writer));
+    }
+    return historyService.record(table, changes);
+}
 
-        // NOTE: Comprehensive SQL injection protection is handled by sqlGuard middleware
-        // (keyword blocklist, dangerous-function detection, table restriction, length limit).
-        // This controller trusts that the middleware has already filtered malicious input.
+/**
+ * Run a write on a mapped table. The cells (or rows) it changes are resolved
+ * from its tree and locked through LockService in one atomic step before it
+ * runs; inside its transaction the matching records are read again FOR UPDATE,
+ * and the write is planned again if they're no longer covered by the locks.
+ */
+async function executeWrite(res: Response, statement: InspectedStatement, target: SqlTarget, writer: string, owner: string, expectedVersion: number | undefined) {
+    const { monitor } = target.spreadsheet;
+    const store = monitor.getStore(target.mapping.id);
+    const { table } = target.mapping;
+    const isUpdate = statement.type === 'update';
 
-        const isWrite = /^\s*(INSERT|UPDATE|DELETE)/i.test(query);
+    // Run from the tree the locks are planned from, not the raw text. Every
+    // write moves the version on, so writes based on the old one are caught.
+    const query = writeQuery(statement, isUpdate ? [
+        ...(sets(statement, 'version') ? [] : ['version = version + 1']),
+        `last_modified_by = ${pool.escape(writer)}`,
+    ].join(', ') : undefined);
 
-        const affectedCells = isWrite ? parseAffectedCells(query) : [];
-        const acquiredLocks: { row: number; col: string }[] = [];
+    const value = writtenValue(statement);
+    let plan = await planWrite(pool, statement, target, false);
 
-        if (isWrite && affectedCells.length > 0) {
-            for (const cell of affectedCells) {
-                // Validate cell coordinates before attempting lock
-                if (!cell.row || !cell.col) {
-                    console.warn('⚠️ Skipping lock for invalid cell:', cell);
-                    continue;
+    for (let attempt = 1; ; attempt++) {
+        if ('error' in plan) {
+            res.status(400).json({ success: false, error: plan.error });
+            return;
+        }
+        const lockedCells = plan.locks.length * store.cellsPerRecord();
+        if (lockedCells > MAX_LOCKED_CELLS) {
+            res.status(400).json({
+                success: false,
+                error: `The statement locks ${lockedCells} cells; split it into writes of at most ${MAX_LOCKED_CELLS}`,
+            });
+            return;
+        }
+        const [only] = plan.locks;
+        if (expectedVersion !== undefined && (plan.locks.length !== 1 || only.kind !== 'cell' || value === null)) {
+            res.status(400).json({
+                success: false,
+                error: 'expectedVersion needs a single-cell INSERT, UPDATE or DELETE that sets cell_value to a literal',
+            });
+            return;
+        }
+
+        // An UPDATE pinned to one cell that isn't stored yet matches nothing
+        const pinned = isUpdate && plan.touched.length === 0 && target.mapping.mode !== 'rows' ? pinnedCell(statement) : undefined;
+        if (pinned) {
+            const cellName = `${pinned.col}${pinned.row}`;
+            res.status(400).json({
+                success: false,
+                error: `Cannot update an empty cell. Cell ${cellName} does not exist. Use INSERT to create it first.`,
+            });
+            return;
+        }
+
+        const held = plan.locks;
+        if (!await lockService.acquire(target.scope, held, owner)) {
+            let blocked = held[0];
+            for (const lock of held) {
+                if ((await lockService.inspect(target.scope, lock)).locked) {
+                    blocked = lock;
+                    break;
                 }
+            }
+            const cellName = lockLabel(blocked);
+            res.status(409).json({
+                success: false,
+                error: `${blocked.kind === 'row' ? `Row ${blocked.row}` : `Cell ${cellName}`} is locked by another user. Try again.`,
+                lockConflict: true,
+                cell: cellName,
+                owner,
+            });
+            return;
+        }
 
-                const locked = await lockService.acquireLock(cell.row, cell.col, owner);
-                if (!locked) {
-                    for (const acquired of acquiredLocks) {
-                        await lockService.releaseLock(acquired.row, acquired.col, owner);
-                    }
+        try {
+            if (expectedVersion !== undefined && only.kind === 'cell') {
+                const cell = only;
+                const current = await store.readCell(cell.row, cell.col);
+                if (current.version !== expectedVersion) {
+                    const conflictId = await monitor.recordConflict(target.mapping.id, {
+                        row: cell.row,
+                        col: cell.col,
+                        side: 'db',
+                        value: value!,
+                        source: writer,
+                        baseVersion: expectedVersion,
+                        current,
+                    });
                     const cellName = `${cell.col}${cell.row}`;
                     res.status(409).json({
                         success: false,
-                        error: `Cell ${cellName} is locked by another user. Try again.`,
-                        lockConflict: true,
+                        error: `Cell ${cellName} is at version ${current.version}, not ${expectedVersion}. Recorded as conflict #${conflictId}.`,
+                        versionConflict: true,
+                        conflictId,
                         cell: cellName,
-                        owner,
+                        currentVersion: current.version,
+                        currentValue: current.value,
                     });
                     return;
                 }
-                acquiredLocks.push(cell);
             }
-        }
 
-        try {
-            // Check if UPDATE targets an empty cell (cell that doesn't exist)
-            const isUpdate = /^\s*UPDATE\s+users/i.test(query);
-            if (isUpdate && affectedCells.length > 0) {
-                for (const cell of affectedCells) {
-                    const [rows]: any = await pool.query(
-                        'SELECT id FROM users WHERE row_num = ? AND col_name = ?',
-                        [cell.row, cell.col]
-                    );
-                    if (!rows || rows.length === 0) {
-                        // Release any acquired locks before returning error
-                        for (const acquired of acquiredLocks) {
-                            await lockService.releaseLock(acquired.row, acquired.col, owner);
-                        }
-                        const cellName = `${cell.col}${cell.row}`;
-                        res.status(400).json({
-                            success: false,
-                            error: `Cannot update an empty cell. Cell ${cellName} does not exist. Use INSERT to create it first.`,
-                        });
-                        return;
-                    }
+            // A formula cell only changes through its formula; its value is the sheet's to compute
+            if (!sets(statement, store.formulaColumn)) {
+                const formulaCells = store.formulaCells(plan.touched, isUpdate ? statement.writeColumns : undefined);
+                if (formulaCells.length > 0) {
+                    const one = formulaCells.length === 1;
+                    res.status(409).json({
+                        success: false,
+                        error: `${one ? 'Cell' : 'Cells'} ${formulaCells.join(', ')} ${one ? 'holds a formula' : 'hold formulas'}. `
+                            + `Set ${store.formulaColumn} in the same statement to change ${one ? 'it' : 'them'}.`,
+                        formulaConflict: true,
+                        cells: formulaCells,
+                    });
+                    return;
                 }
             }
 
-            if (isUpdate && !/last_modified_by/i.test(query)) {
-                query = query.replace(
-                    /(\s+WHERE)/i,
-                    ", last_modified_by = 'sql_terminal'$1"
-                );
-            }
-
-            const [result]: any = await pool.query(query);
+            const outcome = await withTransaction<{ replanned: PlannedWrite } | { result: any; touched: any[] }>(async (conn) => {
+                const locked = await planWrite(conn, statement, target, true);
+                if ('error' in locked || !covers(held, locked.locks)) {
+                    return { replanned: locked };
+                }
+                const [result]: any = await conn.query(query);
+                return { result, touched: locked.touched };
+            });
 
-            if (isWrite) {
-                cdcMonitor.debouncedSyncFromDatabase();
+            if ('replanned' in outcome) {
+                if (attempt >= MAX_PLAN_ATTEMPTS) {
+                    res.status(409).json({
+                        success: false,
+                        error: 'The records this statement matches kept changing while it waited for locks. Try again.',
+                        lockConflict: true,
+                    });
+                    return;
+                }
+                plan = outcome.replanned;
+                continue;
             }
 
-            if (Array.isArray(result)) {
-                res.json({
-                    success: true,
-                    data: result,
-                    rowsAffected: result.length,
-                    fromCache: false,
+            const { result, touched } = outcome;
+            const written = await readWrittenRecords(store, table, statement, touched).catch((err) => {
+                logger.warn({ err: err.message, query }, 'Could not read back SQL write');
+                return null;
+            });
+            // Pass to POST /api/history/writes/:writeId/undo to revert the statement
+            let writeId: string | null = null;
+            if (written) {
+                await stampWriter(store, table, written, writer).catch((err) => {
+                    logger.warn({ err: err.message, query }, 'Could not stamp writer on SQL write');
                 });
-            } else {
-                res.json({
-                    success: true,
-                    data: [],
-                    rowsAffected: result.affectedRows || 0,
-                    fromCache: false,
+                // A query that only sets cell_value leaves the old value_type behind
+                if (store instanceof CellTableStore && !['value_type', 'num_value', 'date_value'].some(c => sets(statement, c))) {
+                    await store.typeFromText(written).catch((err) => {
+                        logger.warn({ err: err.message, query }, 'Could not type SQL-written cells');
+                    });
+                }
+                writeId = await recordSqlHistory(store, table, touched, written, writer).catch((err) => {
+                    logger.warn({ err: err.message, query }, 'Could not record SQL write in cell history');
+                    return null;
                 });
             }
+            monitor.debouncedSyncFromDatabase(target.mapping.id);
 
-            if (isWrite) {
-                logger.info({ query, owner }, 'SQL write executed');
-            }
+            res.json({
+                success: true,
+                data: [],
+                rowsAffected: result.affectedRows || 0,
+                fromCache: false,
+                writeId,
+            });
+            logger.info({ query, owner, scope: target.scope, locks: held.length }, 'SQL write executed');
+            return;
         } finally {
-            for (const cell of acquiredLocks) {
-                await lockService.releaseLock(cell.row, cell.col, owner);
-            }
+            await lockService.release(target.scope, held, owner);
+        }
+    }
+}
+
+export async function executeSQL(req: Request, res: Response) {
+    const identity = currentIdentity(res);
+    const writer = identity.name;
+    // Unique per request, so two statements from one person don't share locks
+    const owner = `${writer}:${randomUUID().slice(0, 8)}`;
+
+    try {
+        const { query } = req.body;
+        // Optional: the cell version the write is based on (from an earlier SELECT)
+        const { expectedVersion } = req.body;
+
+        if (!query || typeof query !== 'string') {
+            res.status(400).json({ success: false, error: 'Query is required' });
+            return;
+        }
+        if (expectedVersion !== undefined && (!Number.isInteger(expectedVersion) || expectedVersion < 0)) {
+            res.status(400).json({ success: false, error: 'expectedVersion must be a non-negative integer' });
+            return;
+        }
+
+        // sqlGuard has parsed the statement and checked its type, tables, columns
+        // and functions (last_modified_by comes from the caller's identity, so it's
+        // not a writable column)
+        const statement = guardedStatement(res);
+        const isWrite = statement.writeTable !== undefined;
+        const target = resolveTarget(statement);
+
+        if (isWrite && !hasRole(identity, 'editor')) {
+            res.status(403).json({ success: false, error: `Writes require the editor role (you are ${identity.role})` });
+            return;
+        }
+
+        if (isWrite && !target) {
+            res.status(403).json({ success: false, error: 'Writes are only allowed on tables mapped to a registered spreadsheet' });
+            return;
         }
+
+        if (isWrite) {
+            await executeWrite(res, statement, target!, writer, owner, expectedVersion);
+            return;
+        }
+
+        if (expectedVersion !== undefined) {
+            res.status(400).json({
+                success: false,
+                error: 'expectedVersion needs a single-cell INSERT, UPDATE or DELETE that sets cell_value to a literal',
+            });
+            return;
+        }
+
+        const [result]: any = await pool.query(statement.query);
+        res.json({
+            success: true,
+            data: Array.isArray(result) ? result : [],
+            rowsAffected: Array.isArray(result) ? result.length : result.affectedRows || 0,
+            fromCache: false,
+        });
     } catch (error: any) {
         // Check if DB is offline - try to serve from cache for SELECT queries
         const isDbOffline = isDbOfflineError(error);
-        const isSelect = /^\s*SELECT/i.test(req.body.query);
+        const statement = guardedStatement(res);
+        const isSelect = statement?.type === 'select';
         
         if (isDbOffline && isSelect) {
             // Return cached data for SELECT queries
-            const cachedSnapshot = cdcMonitor.getCachedSnapshot();
+            const target = resolveTarget(statement);
+            const cachedSnapshot = target
+                ? target.spreadsheet.monitor.getCachedSnapshot(target.mapping.id)
+                : new Map<string, string>();
             if (cachedSnapshot.size > 0) {
                 // Convert snapshot to rows format
                 const rows: any[] = [];
@@ -199,4 +484,4 @@ function isDbOfflineError(error: any): boolean {
         error.message?.includes(e) ||
         error.errno === e
     );
-}
\ No newline at end of file
+}
@@ -1,20 +1,94 @@
 import { Request, Response } from 'express';
-import sheetUpdateQueue from '../queues/sheetUpdateQueue';
+import { getSheetUpdateQueue, SHEET_UPDATE_BATCH_JOB, SHEET_UPDATE_JOB } from '../queues/sheetUpdateQueue';
 import redisClient from '../config/redis';
-import { WebhookPayload } from '../types/types';
+import spreadsheetRegistry, { SpreadsheetEntry } from '../services/spreadsheetRegistry';
+import { ignoreKey, mappingScope } from '../utils/redisKeys';
+import { COLUMN_PATTERN, columnToIndex, indexToColumn, parseCellRange } from '../utils/a1';
+import { CellEdit, SyncMapping, WebhookBatchPayload, WebhookPayload } from '../types/types';
 import pino from 'pino';
 
 const logger = pino();
 
 // ── Input validation constants ──
-const VALID_COL = /^[A-Z]$/;
+const VALID_COL = COLUMN_PATTERN;
 const MAX_VALUE_LENGTH = 5000;
+const MAX_FORMAT_LENGTH = 200;
+const MAX_FORMULA_LENGTH = 50000;   // Google Sheets' own formula limit
 const SHEET_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
 const MAX_ROW = 10000;
+const MAX_SHEET_NAME_LENGTH = 100;
+const MAX_BATCH_CELLS = 1000;       // The generated script splits larger edits into blocks of this size
+
+/**
+ * The per-cell fields shared by v1 and v2 payloads; returns the error to report, or null
+ */
+function validateCellFields(value: unknown, rawValue: unknown, numberFormat: unknown, formula: unknown): string | null {
+    if (typeof value !== 'string' || value.length > MAX_VALUE_LENGTH) {
+        return `value must be a string (max ${MAX_VALUE_LENGTH} chars)`;
+    }
+    // Sent by current scripts only; without them the value's type is inferred from its text
+    if (rawValue !== undefined && !['string', 'number', 'boolean'].includes(typeof rawValue)) {
+        return 'rawValue must be a string, number or boolean';
+    }
+    if (typeof rawValue === 'string' && rawValue.length > MAX_VALUE_LENGTH) {
+        return `rawValue must be at most ${MAX_VALUE_LENGTH} chars`;
+    }
+    if (numberFormat !== undefined && (typeof numberFormat !== 'string' || numberFormat.length > MAX_FORMAT_LENGTH)) {
+        return `numberFormat must be a string (max ${MAX_FORMAT_LENGTH} chars)`;
+    }
+    if (formula !== undefined && (typeof formula !== 'string' || formula.length > MAX_FORMULA_LENGTH)) {
+        return `formula must be a string (max ${MAX_FORMULA_LENGTH} chars)`;
+    }
+    return null;
+}
+
+function validateSheetFields(sheetId: unknown, sheetName: unknown): string | null {
+    if (typeof sheetId !== 'string' || !SHEET_ID_PATTERN.test(sheetId)) {
+        return 'Invalid sheetId format';
+    }
+    if (sheetName !== undefined && (typeof sheetName !== 'string' || sheetName.length === 0 || sheetName.length > MAX_SHEET_NAME_LENGTH)) {
+        return `sheetName must be a non-empty string (max ${MAX_SHEET_NAME_LENGTH} chars)`;
+    }
+    return null;
+}
+
+/**
+ * Find the spreadsheet and mapping an edit belongs to. Responds and returns
+ * null when the spreadsheet isn't registered; the mapping is null for unmapped tabs.
+ */
+function resolveTarget(res: Response, sheetId: string, sheetName?: string): { spreadsheet: SpreadsheetEntry; mapping: SyncMapping | null } | null {
+    const spreadsheet = spreadsheetRegistry.findBySheetId(sheetId);
+    if (!spreadsheet) {
+        res.status(404).json({ success: false, error: 'Spreadsheet is not registered' });
+        return null;
+    }
+    spreadsheet.monitor.noteWebhook();
+    const mappings = spreadsheet.monitor.getMappingRegistry();
+
+    // Older scripts don't send the tab name — treat those edits as the default mapping
+    const mapping = sheetName === undefined
+        ? mappings.getDefault()
+        : mappings.findBySheetName(sheetName);
+
+    return { spreadsheet, mapping: mapping ?? null };
+}
+
+/**
+ * A grid sent alongside `values` must have the same shape
+ */
+function isGrid(grid: unknown, rows: number, cols: number): grid is unknown[][] {
+    return Array.isArray(grid)
+        && grid.length === rows
+        && grid.every((line) => Array.isArray(line) && line.length === cols);
+}
 
 export async function handleWebhook(req: Request, res: Response) {
+    if (req.body?.version === 2) {
+        return handleBatchWebhook(req, res);
+    }
+
     try {
-        const { row, col, value, sheetId } = req.body as WebhookPayload;
+        const { row, col, value, rawValue, numberFormat, formula, sheetId, sheetName } = req.body as WebhookPayload;
 
         // ── Presence check ──
         if (!row || !col || value === undefined || !sheetId) {
@@ -32,25 +106,34 @@ export async function handleWebhook(req: Request, res: Response) {
         }
 
         if (typeof col !== 'string' || !VALID_COL.test(col)) {
-            res.status(400).json({ success: false, error: 'col must be a single uppercase letter A-Z' });
+            res.status(400).json({ success: false, error: 'col must be 1-3 uppercase letters (A-ZZZ)' });
             return;
         }
 
-        if (typeof value !== 'string' || value.length > MAX_VALUE_LENGTH) {
-            res.status(400).json({ success: false, error: `value must be a string (max ${MAX_VALUE_LENGTH} chars)` });
+        const invalid = validateCellFields(value, rawValue, numberFormat, formula) ?? validateSheetFields(sheetId, sheetName);
+        if (invalid) {
+            res.status(400).json({ success: false, error: invalid });
             return;
         }
 
-        if (typeof sheetId !== 'string' || !SHEET_ID_PATTERN.test(sheetId)) {
-            res.status(400).json({ success: false, error: 'Invalid sheetId format' });
+        const target = resolveTarget(res, sheetId, sheetName);
+        if (!target) return;
+        const { spreadsheet, mapping } = target;
+
+        if (!mapping) {
+            logger.info({ sheetName, row, col }, 'Ignoring webhook - tab has no sync mapping');
+            res.status(200).json({
+                success: true,
+                message: `Change ignored (tab "${sheetName}" is not mapped)`,
+            });
             return;
         }
 
-        const ignoreKey = `ignore:${row}:${col}`;
-        const shouldIgnore = await redisClient.get(ignoreKey);
+        const scope = mappingScope(spreadsheet.config.key, mapping.id);
+        const shouldIgnore = await redisClient.get(ignoreKey(scope, row, col));
 
         if (shouldIgnore) {
-            logger.info({ row, col }, 'Ignoring webhook - CDC recently synced this cell');
+            logger.info({ scope, row, col }, 'Ignoring webhook - CDC recently synced this cell');
             res.status(200).json({
                 success: true,
                 message: 'Change ignored (CDC sync)',
@@ -58,13 +141,18 @@ export async function handleWebhook(req: Request, res: Response) {
             return;
         }
 
-        await sheetUpdateQueue.add(
-            'sheet_update',
+        await getSheetUpdateQueue(spreadsheet.config.key).add(
+            SHEET_UPDATE_JOB,
             {
                 row,
                 col,
                 value,
+                rawValue,
+                numberFormat,
+                formula,
                 sheetId,
+                spreadsheetKey: spreadsheet.config.key,
+                mappingId: mapping.id,
                 timestamp: Date.now(),
             },
             {
@@ -73,7 +161,7 @@ export async function handleWebhook(req: Request, res: Response) {
             }
         );
 
-        logger.info({ row, col, value }, 'Webhook job queued');
+        logger.info({ scope, row, col, value }, 'Webhook job queued');
 
         res.status(202).json({
             success: true,
@@ -86,4 +174,130 @@ export async function handleWebhook(req: Request, res: Response) {
             error: 'Failed to queue update',
         });
     }
-}
\ No newline at end of file
+}
+
+/**
+ * v2 payload: a pasted, filled or cleared block, queued as a single job
+ */
+async function handleBatchWebhook(req: Request, res: Response) {
+    try {
+        const { range, values, rawValues, numberFormats, formulas, sheetId, sheetName } = req.body as WebhookBatchPayload;
+
+        // ── Presence check ──
+        if (!range || !values || !sheetId) {
+            res.status(400).json({
+                success: false,
+                error: 'Missing required fields: range, values, sheetId',
+            });
+            return;
+        }
+
+        // ── Shape validation ──
+        const bounds = typeof range === 'string' ? parseCellRange(range) : null;
+        if (!bounds || bounds.toRow > MAX_ROW) {
+            res.status(400).json({ success: false, error: `range must be an A1 range (e.g. "B2:D10") within rows 1-${MAX_ROW}` });
+            return;
+        }
+
+        const fromColIndex = columnToIndex(bounds.fromCol);
+        const rows = bounds.toRow - bounds.fromRow + 1;
+        const cols = columnToIndex(bounds.toCol) - fromColIndex + 1;
+        if (rows * cols > MAX_BATCH_CELLS) {
+            res.status(400).json({ success: false, error: `range may cover at most ${MAX_BATCH_CELLS} cells` });
+            return;
+        }
+
+        if (!isGrid(values, rows, cols)) {
+            res.status(400).json({ success: false, error: `values must be a ${rows}x${cols} grid matching range ${range}` });
+            return;
+        }
+        for (const [name, grid] of Object.entries({ rawValues, numberFormats, formulas })) {
+            if (grid !== undefined && !isGrid(grid, rows, cols)) {
+                res.status(400).json({ success: false, error: `${name} must be a ${rows}x${cols} grid matching range ${range}` });
+                return;
+            }
+        }
+
+        const sheetInvalid = validateSheetFields(sheetId, sheetName);
+        if (sheetInvalid) {
+            res.status(400).json({ success: false, error: sheetInvalid });
+            return;
+        }
+
+        const cells: CellEdit[] = [];
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) {
+                const cell: CellEdit = {
+                    row: bounds.fromRow + r,
+                    col: indexToColumn(fromColIndex + c),
+                    value: values[r][c],
+                    rawValue: rawValues?.[r][c],
+                    numberFormat: numberFormats?.[r][c],
+                    formula: formulas?.[r][c],
+                };
+                const invalid = validateCellFields(cell.value, cell.rawValue, cell.numberFormat, cell.formula);
+                if (invalid) {
+                    res.status(400).json({ success: false, error: `${cell.col}${cell.row}: ${invalid}` });
+                    return;
+                }
+                cells.push(cell);
+            }
+        }
+
+        const target = resolveTarget(res, sheetId, sheetName);
+        if (!target) return;
+        const { spreadsheet, mapping } = target;
+
+        if (!mapping) {
+            logger.info({ sheetName, range }, 'Ignoring webhook - tab has no sync mapping');
+            res.status(200).json({
+                success: true,
+                message: `Change ignored (tab "${sheetName}" is not mapped)`,
+            });
+            return;
+        }
+
+        // Cells the CDC wrote moments ago echo back here; only the rest are user edits
+        const scope = mappingScope(spreadsheet.config.key, mapping.id);
+        const ignored = await redisClient.mget(cells.map(({ row, col }) => ignoreKey(scope, row, col)));
+        const edits = cells.filter((_, i) => !ignored[i]);
+
+        if (edits.length === 0) {
+            logger.info({ scope, range }, 'Ignoring webhook - CDC recently synced this range');
+            res.status(200).json({
+                success: true,
+                message: 'Change ignored (CDC sync)',
+            });
+            return;
+        }
+
+        await getSheetUpdateQueue(spreadsheet.config.key).add(
+            SHEET_UPDATE_BATCH_JOB,
+            {
+                range,
+                cells: edits,
+                sheetId,
+                spreadsheetKey: spreadsheet.config.key,
+                mappingId: mapping.id,
+                timestamp: Date.now(),
+            },
+            {
+                attempts: 3,
+                backoff: { type: 'exponential', delay: 1000 },
+            }
+        );
+
+        logger.info({ scope, range, cells: edits.length, skipped: cells.length - edits.length }, 'Webhook batch job queued');
+
+        res.status(202).json({
+            success: true,
+            message: `Update of ${edits.length} cells queued for processing`,
+        });
+    } catch (error) {
+        logger.error({ error }, 'Webhook batch processing failed');
+        res.status(500).json({
+            success: false,
+            error: 'Failed to queue update',
+        });
+    }
+}
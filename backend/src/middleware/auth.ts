@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import authService, { hasRole, Identity, Role } from '../services/authService';
+import pino from 'pino';
+
+const logger = pino();
+
+/**
+ * The identity `requireRole` attached to this request
+ */
+export function currentIdentity(res: Response): Identity {
+    return res.locals.identity;
+}
+
+/**
+ * Routes need `Authorization: Bearer <credential>`: an API key, a session
+ * token from POST /api/auth/session, or ADMIN_API_TOKEN. Roles are ordered
+ * viewer < editor < admin.
+ */
+export function requireRole(role: Role) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const header = req.headers.authorization || '';
+        const credential = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+        if (!credential) {
+            res.status(401).json({ success: false, error: 'Authentication required' });
+            return;
+        }
+
+        let identity: Identity | null;
+        try {
+            identity = await authService.authenticate(credential);
+        } catch (error: any) {
+            logger.error({ error: error.message }, 'Authentication failed');
+            res.status(503).json({ success: false, error: 'Could not check credentials, try again' });
+            return;
+        }
+        if (!identity) {
+            logger.warn({ ip: req.ip, path: req.originalUrl }, 'Rejected credential');
+            res.status(401).json({ success: false, error: 'Invalid or expired credential' });
+            return;
+        }
+        if (!hasRole(identity, role)) {
+            res.status(403).json({ success: false, error: `Requires the ${role} role (you are ${identity.role})` });
+            return;
+        }
+
+        res.locals.identity = identity;
+        next();
+    };
+}
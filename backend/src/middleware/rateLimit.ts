@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+import spreadsheetRegistry from '../services/spreadsheetRegistry';
+import {
+    RedisRateLimitStore, RateLimited, RateLimitScope, RATE_LIMIT_POLICIES, RATE_LIMIT_WINDOW_MS, recordRejection,
+} from '../services/rateLimits';
+import pino from 'pino';
+
+const logger = pino();
+
+function limiter(endpoint: RateLimited, scope: RateLimitScope, keyGenerator: (req: Request, res: Response) => string) {
+    const policy = RATE_LIMIT_POLICIES[endpoint];
+    return rateLimit({
+        windowMs: RATE_LIMIT_WINDOW_MS,
+        limit: scope === 'ip' ? policy.perIp : policy.perClient,
+        store: new RedisRateLimitStore(endpoint, scope),
+        keyGenerator,
+        standardHeaders: 'draft-7',
+        legacyHeaders: false,
+        // Like the Sheets quota budget, Redis being unreachable doesn't take the API down
+        passOnStoreError: true,
+        handler: (req, res, _next, options) => {
+            const retryAfter = res.getHeader('Retry-After');
+            logger.warn({ endpoint, scope, key: (req as any).rateLimit?.key, path: req.originalUrl }, 'Rate limited');
+            void recordRejection(endpoint, scope);
+            res.status(options.statusCode).json({
+                success: false,
+                error: `Too many requests, retry in ${retryAfter}s`,
+                retryAfter: Number(retryAfter),
+            });
+        },
+    });
+}
+
+/**
+ * Limits each address, ahead of authentication so bad credentials count too
+ */
+export function limitByIp(endpoint: RateLimited) {
+    return limiter(endpoint, 'ip', req => ipKeyGenerator(req.ip || 'unknown'));
+}
+
+/**
+ * Limits each API key (by name); mount after `requireRole`
+ */
+export function limitByIdentity(endpoint: RateLimited) {
+    return limiter(endpoint, 'client', (req, res) => res.locals.identity?.name ?? ipKeyGenerator(req.ip || 'unknown'));
+}
+
+/**
+ * Limits each registered spreadsheet; mount after the webhook signature check so
+ * unsigned requests can't spend a spreadsheet's budget
+ */
+export function limitBySpreadsheet(endpoint: RateLimited) {
+    return limiter(endpoint, 'client', req => {
+        const sheetId = req.body?.sheetId;
+        const spreadsheet = typeof sheetId === 'string' ? spreadsheetRegistry.findBySheetId(sheetId) : undefined;
+        return spreadsheet ? spreadsheet.config.key : ipKeyGenerator(req.ip || 'unknown');
+    });
+}
@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
+import spreadsheetRegistry from '../services/spreadsheetRegistry';
+import webhookSecrets from '../services/webhookSecrets';
+import pino from 'pino';
+
+const logger = pino();
+
+// Lets scripts installed before signing keep working while they are replaced
+const ALLOW_UNSIGNED = process.env.WEBHOOK_ALLOW_UNSIGNED === 'true';
+
+type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+/**
+ * `express.json` hook keeping the bytes the signature was computed over
+ */
+export function keepRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+    (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * Webhooks must carry `X-Webhook-Timestamp`, `X-Webhook-Nonce` and
+ * `X-Webhook-Signature` (hex HMAC-SHA256 over `timestamp.nonce.body` with the
+ * spreadsheet's secret). A script still signing with a rotated-out secret gets
+ * the new one back in `X-Webhook-Secret` if that rotation asked for a hand-over.
+ */
+export async function verifyWebhookSignature(req: Request, res: Response, next: NextFunction) {
+    const sheetId = req.body?.sheetId;
+    const spreadsheet = typeof sheetId === 'string' ? spreadsheetRegistry.findBySheetId(sheetId) : undefined;
+    if (!spreadsheet) {
+        // handleWebhook reports the missing or unknown sheetId
+        next();
+        return;
+    }
+
+    const signature = req.get('X-Webhook-Signature');
+    if (!signature && ALLOW_UNSIGNED) {
+        logger.warn({ key: spreadsheet.config.key }, 'Accepting unsigned webhook (WEBHOOK_ALLOW_UNSIGNED)');
+        next();
+        return;
+    }
+
+    try {
+        const verdict = await webhookSecrets.verify(spreadsheet.config.key, {
+            timestamp: req.get('X-Webhook-Timestamp'),
+            nonce: req.get('X-Webhook-Nonce'),
+            signature,
+            body: (req as RawBodyRequest).rawBody ?? Buffer.alloc(0),
+        });
+        if (!verdict.ok) {
+            logger.warn({ key: spreadsheet.config.key, ip: req.ip, reason: verdict.error }, 'Rejected webhook');
+            res.status(401).json({ success: false, error: verdict.error });
+            return;
+        }
+        if (verdict.rotatedSecret) {
+            res.set('X-Webhook-Secret', verdict.rotatedSecret);
+        }
+        next();
+    } catch (error) {
+        logger.error({ error }, 'Webhook signature check failed');
+        res.status(500).json({ success: false, error: 'Failed to verify webhook' });
+    }
+}
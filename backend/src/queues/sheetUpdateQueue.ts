@@ -4,14 +4,43 @@ import pino from 'pino';
 
 const logger = pino();
 
-const sheetUpdateQueue = new Queue('sheet_update', {
-    connection: redisClient,
-    defaultJobOptions: {
-        removeOnComplete: 100,
-        removeOnFail: 50,
-    },
-});
+export const SHEET_UPDATE_QUEUE = 'sheet_update';
 
-logger.info('Sheet update queue created');
+// Job names: one edited cell (v1 webhook) or a whole edited block (v2)
+export const SHEET_UPDATE_JOB = 'sheet_update';
+export const SHEET_UPDATE_BATCH_JOB = 'sheet_update_batch';
 
-export default sheetUpdateQueue;
\ No newline at end of file
+/**
+ * BullMQ key prefix for a spreadsheet — every registered spreadsheet gets its
+ * own set of queue keys so jobs never cross between teams' sheets.
+ */
+export function sheetUpdateQueuePrefix(spreadsheetKey: string): string {
+    return `bull:${spreadsheetKey}`;
+}
+
+const queues = new Map<string, Queue>();
+
+export function getSheetUpdateQueue(spreadsheetKey: string): Queue {
+    let queue = queues.get(spreadsheetKey);
+    if (!queue) {
+        queue = new Queue(SHEET_UPDATE_QUEUE, {
+            connection: redisClient,
+            prefix: sheetUpdateQueuePrefix(spreadsheetKey),
+            defaultJobOptions: {
+                removeOnComplete: 100,
+                removeOnFail: 50,
+            },
+        });
+        queues.set(spreadsheetKey, queue);
+        logger.info({ spreadsheetKey }, 'Sheet update queue created');
+    }
+    return queue;
+}
+
+export async function closeSheetUpdateQueue(spreadsheetKey: string): Promise<void> {
+    const queue = queues.get(spreadsheetKey);
+    if (queue) {
+        queues.delete(spreadsheetKey);
+        await queue.close();
+    }
+}
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { requireRole } from '../middleware/auth';
+import {
+    getBacklog, listJobs, getJob, retryJob, retryFailedJobs, removeJob, purgeJobs,
+    listPending, replayPending, requeueDeadLetters, purgePending, purgeDeadLetters,
+    getWebhookSecret, rotateWebhookSecret, getAppsScript,
+} from '../controllers/adminController';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+router.get('/backlog', getBacklog);
+
+router.get('/jobs/:spreadsheet', listJobs);
+router.delete('/jobs/:spreadsheet', purgeJobs);
+router.post('/jobs/:spreadsheet/retry', retryFailedJobs);
+router.get('/jobs/:spreadsheet/:id', getJob);
+router.delete('/jobs/:spreadsheet/:id', removeJob);
+router.post('/jobs/:spreadsheet/:id/retry', retryJob);
+
+router.get('/pending/:spreadsheet/:mapping/:target', listPending);
+router.delete('/pending/:spreadsheet/:mapping/:target', purgePending);
+router.post('/pending/:spreadsheet/:mapping/:target/replay', replayPending);
+router.post('/pending/:spreadsheet/:mapping/:target/dead-letters/requeue', requeueDeadLetters);
+router.delete('/pending/:spreadsheet/:mapping/:target/dead-letters', purgeDeadLetters);
+
+router.get('/webhook-secret/:spreadsheet', getWebhookSecret);
+router.post('/webhook-secret/:spreadsheet/rotate', rotateWebhookSecret);
+router.get('/apps-script/:spreadsheet', getAppsScript);
+
+export default router;
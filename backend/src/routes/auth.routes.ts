@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { requireRole } from '../middleware/auth';
+import { openSession, whoAmI, listKeys, createKey, revokeKey } from '../controllers/authController';
+
+const router = Router();
+
+router.post('/session', openSession);
+router.get('/me', requireRole('viewer'), whoAmI);
+
+router.get('/keys', requireRole('admin'), listKeys);
+router.post('/keys', requireRole('admin'), createKey);
+router.delete('/keys/:id', requireRole('admin'), revokeKey);
+
+export default router;
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { runBotSimulation } from '../controllers/botController';
+import { requireRole } from '../middleware/auth';
+import { limitByIdentity, limitByIp } from '../middleware/rateLimit';
 
 const router = Router();
 
-router.post('/run', runBotSimulation);
+router.post('/run', limitByIp('bots'), requireRole('editor'), limitByIdentity('bots'), runBotSimulation);
 
 export default router;
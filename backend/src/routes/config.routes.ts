@@ -1,31 +1,74 @@
 import { Router, Request, Response } from 'express';
-import cdcMonitor from '../services/cdcMonitor';
+import spreadsheetRegistry from '../services/spreadsheetRegistry';
+import binlogListener from '../services/binlogListener';
+import leaderElection from '../services/leaderElection';
+import { requireRole } from '../middleware/auth';
+import { rateLimitStatus } from '../services/rateLimits';
 
 const router = Router();
 
+router.use(requireRole('viewer'));
+
+/**
+ * Sheet ID of the default spreadsheet (used by the frontend embed)
+ */
 router.get('/sheet-id', (req: Request, res: Response) => {
     res.json({
-        sheetId: process.env.GOOGLE_SHEET_ID || null,
+        sheetId: spreadsheetRegistry.getDefault()?.config.sheetId || null,
     });
 });
 
 /**
- * Get system status including connectivity and cache info
+ * Get the configured tab → table sync mappings of every spreadsheet
  */
-router.get('/status', (req: Request, res: Response) => {
-    const status = cdcMonitor.getStatus();
+router.get('/mappings', (req: Request, res: Response) => {
     res.json({
-        ...status,
+        spreadsheets: spreadsheetRegistry.list().map(entry => ({
+            key: entry.config.key,
+            mappings: entry.config.mappings,
+        })),
+    });
+});
+
+/**
+ * Get system status including connectivity, cache info and per-mapping sync state,
+ * for every registered spreadsheet
+ */
+router.get('/status', async (req: Request, res: Response) => {
+    const spreadsheets = await Promise.all(
+        spreadsheetRegistry.list().map(entry => entry.monitor.getStatus())
+    );
+    res.json({
+        spreadsheets,
+        binlog: binlogListener.getStatus(),
+        leader: await leaderElection.getStatus(),
+        rateLimits: await rateLimitStatus(),
         timestamp: new Date().toISOString(),
-        pollInterval: parseInt(process.env.POLL_INTERVAL || '3000'),
+        pollInterval: parseInt(process.env.POLL_INTERVAL || '2000'),
     });
 });
 
 /**
- * Get cached snapshot data (for offline reads)
+ * Get cached snapshot data (for offline reads).
+ * ?spreadsheet=<key>&mapping=<id> select the tab; both default to the first one.
  */
 router.get('/cached-data', (req: Request, res: Response) => {
-    const snapshot = cdcMonitor.getCachedSnapshot();
+    const spreadsheetKey = typeof req.query.spreadsheet === 'string' ? req.query.spreadsheet : undefined;
+    const mappingId = typeof req.query.mapping === 'string' ? req.query.mapping : undefined;
+
+    const spreadsheet = spreadsheetKey ? spreadsheetRegistry.get(spreadsheetKey) : spreadsheetRegistry.getDefault();
+    if (!spreadsheet) {
+        res.status(404).json({ error: 'Spreadsheet not found' });
+        return;
+    }
+
+    let snapshot: Map<string, string>;
+    try {
+        snapshot = spreadsheet.monitor.getCachedSnapshot(mappingId);
+    } catch (error: any) {
+        res.status(404).json({ error: error.message });
+        return;
+    }
     const data: Record<string, string> = {};
     
     for (const [key, value] of snapshot.entries()) {
@@ -34,10 +77,12 @@ router.get('/cached-data', (req: Request, res: Response) => {
     
     res.json({
         fromCache: true,
+        spreadsheet: spreadsheet.config.key,
+        mappingId: mappingId || spreadsheet.monitor.getMappings()[0].id,
         cellCount: snapshot.size,
         data,
         timestamp: new Date().toISOString(),
     });
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { listConflicts, getConflict, resolveConflict, resolveOpenConflicts } from '../controllers/conflictController';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', requireRole('viewer'), listConflicts);
+router.post('/resolve', requireRole('editor'), resolveOpenConflicts);
+router.get('/:id', requireRole('viewer'), getConflict);
+router.post('/:id/resolve', requireRole('editor'), resolveConflict);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { listHistory, restoreToTimestamp, undoWrite } from '../controllers/historyController';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/', requireRole('viewer'), listHistory);
+router.post('/restore', requireRole('editor'), restoreToTimestamp);
+router.post('/writes/:writeId/undo', requireRole('editor'), undoWrite);
+
+export default router;
@@ -1,15 +1,19 @@
 import { Router, Request, Response } from 'express';
 import { initializeDatabase } from '../utils/dbInit';
-import cdcMonitor from '../services/cdcMonitor';
+import spreadsheetRegistry from '../services/spreadsheetRegistry';
+import { requireRole } from '../middleware/auth';
 import pino from 'pino';
 
 const router = Router();
 const logger = pino();
 
+router.use(requireRole('admin'));
+
 router.post('/init', async (req: Request, res: Response) => {
     try {
         logger.info('Initializing database');
         await initializeDatabase();
+        await spreadsheetRegistry.ensureAllTables();
         res.json({ success: true, message: 'Database initialized successfully' });
     } catch (error: any) {
         logger.error({ error }, 'Database initialization failed');
@@ -19,8 +23,18 @@ router.post('/init', async (req: Request, res: Response) => {
 
 router.post('/force-sync-to-sheet', async (req: Request, res: Response) => {
     try {
-        logger.info('Forcing DB → Sheet sync');
-        await cdcMonitor.syncFromDatabase();
+        const key = typeof req.query.spreadsheet === 'string' ? req.query.spreadsheet : undefined;
+        const entries = key ? [spreadsheetRegistry.get(key)].filter(Boolean) : spreadsheetRegistry.list();
+        if (entries.length === 0) {
+            res.status(404).json({ success: false, error: 'Spreadsheet not found' });
+            return;
+        }
+
+        logger.info({ spreadsheets: entries.map(e => e!.config.key) }, 'Forcing DB → Sheet sync');
+        for (const entry of entries) {
+            entry!.monitor.markDirty();
+            await entry!.monitor.syncFromDatabase();
+        }
         res.json({ success: true, message: 'Synced database to Google Sheet' });
     } catch (error: any) {
         logger.error({ error }, 'Force sync failed');
@@ -31,6 +45,7 @@ router.post('/force-sync-to-sheet', async (req: Request, res: Response) => {
 router.post('/init-db', async (req: Request, res: Response) => {
     try {
         await initializeDatabase();
+        await spreadsheetRegistry.ensureAllTables();
         logger.info('Database manually re-initialized');
         res.json({ success: true, message: 'Database re-initialized' });
     } catch (error: any) {
@@ -0,0 +1,82 @@
+import { Router, Request, Response } from 'express';
+import spreadsheetRegistry, { SpreadsheetEntry } from '../services/spreadsheetRegistry';
+import { requireRole } from '../middleware/auth';
+import pino from 'pino';
+
+const router = Router();
+const logger = pino();
+
+function describe(entry: SpreadsheetEntry) {
+    return {
+        key: entry.config.key,
+        sheetId: entry.config.sheetId,
+        name: entry.config.name,
+        source: entry.source,
+        mappings: entry.config.mappings,
+        running: entry.worker !== null,
+        startError: entry.startError || null,
+    };
+}
+
+/**
+ * List registered spreadsheets
+ */
+router.get('/', requireRole('viewer'), (req: Request, res: Response) => {
+    res.json({ spreadsheets: spreadsheetRegistry.list().map(describe) });
+});
+
+/**
+ * Get one spreadsheet with its live sync status
+ */
+router.get('/:key', requireRole('viewer'), async (req: Request, res: Response) => {
+    const entry = spreadsheetRegistry.get(String(req.params.key));
+    if (!entry) {
+        res.status(404).json({ success: false, error: 'Spreadsheet not found' });
+        return;
+    }
+    res.json({ ...describe(entry), status: await entry.monitor.getStatus() });
+});
+
+/**
+ * Register a spreadsheet: { key, sheetId, name?, mappings: [{ id, sheetName, range, table }] }
+ */
+router.post('/', requireRole('admin'), async (req: Request, res: Response) => {
+    const { key, sheetId, name, mappings } = req.body || {};
+
+    if (!key || !sheetId || !mappings) {
+        res.status(400).json({ success: false, error: 'Missing required fields: key, sheetId, mappings' });
+        return;
+    }
+
+    if (spreadsheetRegistry.get(key) || spreadsheetRegistry.findBySheetId(sheetId)) {
+        res.status(409).json({ success: false, error: 'Spreadsheet is already registered' });
+        return;
+    }
+
+    try {
+        const entry = await spreadsheetRegistry.register({ key, sheetId, name, mappings });
+        res.status(201).json({ success: true, spreadsheet: describe(entry) });
+    } catch (error: any) {
+        logger.error({ error: error.message, key }, 'Spreadsheet registration failed');
+        res.status(400).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Stop syncing a spreadsheet. Its tables and data are kept.
+ */
+router.delete('/:key', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+        const removed = await spreadsheetRegistry.remove(String(req.params.key));
+        if (!removed) {
+            res.status(404).json({ success: false, error: 'Spreadsheet not found' });
+            return;
+        }
+        res.json({ success: true, message: `Spreadsheet ${req.params.key} removed` });
+    } catch (error: any) {
+        logger.error({ error: error.message, key: req.params.key }, 'Spreadsheet removal failed');
+        res.status(400).json({ success: false, error: error.message });
+    }
+});
+
+export default router;
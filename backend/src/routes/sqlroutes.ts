@@ -1,6 +1,9 @@
 import {Router} from 'express';
 import { executeSQL } from '../controllers/sqlController';
 import { sqlGuard } from '../middleware/sqlGuardMiddleware';
+import { requireRole } from '../middleware/auth';
+import { limitByIdentity, limitByIp } from '../middleware/rateLimit';
 const router = Router();
-router.post('/execute', sqlGuard, executeSQL);
+// Reads need viewer; executeSQL requires editor for writes
+router.post('/execute', limitByIp('sql'), requireRole('viewer'), limitByIdentity('sql'), sqlGuard, executeSQL);
 export default router;
\ No newline at end of file
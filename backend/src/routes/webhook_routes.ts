@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { handleWebhook } from '../controllers/webhookControllers';
+import { verifyWebhookSignature } from '../middleware/webhookSignature';
+import { limitByIp, limitBySpreadsheet } from '../middleware/rateLimit';
 
 const router = Router();
 
-router.post('/', handleWebhook);
+router.post('/', limitByIp('webhook'), verifyWebhookSignature, limitBySpreadsheet('webhook'), handleWebhook);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -1,49 +1,106 @@
 import { google } from 'googleapis';
-import { JWT } from 'google-auth-library';
+import { createJwtClient, SCRIPT_PROJECTS_SCOPE, SHEETS_SCOPE } from '../config/google';
+import { spreadsheetProvider } from './spreadsheetProvider';
+import spreadsheetRegistry, { SpreadsheetEntry } from './spreadsheetRegistry';
+import webhookSecrets from './webhookSecrets';
 import dotenv from 'dotenv';
 import pino from 'pino';
 
 dotenv.config();
 const logger = pino();
 
-const jwtClient = new JWT({
-    email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
-    key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-    scopes: [
-        'https://www.googleapis.com/auth/spreadsheets',
-        'https://www.googleapis.com/auth/script.projects',
-    ],
-});
-
-function generateAppsScript(backendUrl: string, sheetId: string): string {
+/**
+ * The trigger script for one spreadsheet. `secret` is only its first signing
+ * secret: rotated ones handed over in webhook responses are kept in the
+ * script's properties.
+ */
+function generateAppsScript(backendUrl: string, sheetId: string, secret: string): string {
     return `
 var BACKEND_URL = '${backendUrl}/api/webhook';
 var SHEET_ID = '${sheetId}';
+var INITIAL_SECRET = '${secret}';
+
+// Larger edits go out in blocks of at most this many cells (the backend's limit)
+var MAX_BATCH_CELLS = 1000;
 
+// One v2 webhook per block, so a paste, fill or range clear arrives as a whole
 function onEdit(e) {
     var range = e.range;
-    var row = range.getRow();
-    var col = String.fromCharCode(64 + range.getColumn());
-    var value = range.getValue().toString();
+    var timeZone = e.source.getSpreadsheetTimeZone();
+    var rowsPerBlock = Math.max(1, Math.floor(MAX_BATCH_CELLS / range.getNumColumns()));
+    var colsPerBlock = Math.min(range.getNumColumns(), MAX_BATCH_CELLS);
+
+    for (var c = 0; c < range.getNumColumns(); c += colsPerBlock) {
+        for (var r = 0; r < range.getNumRows(); r += rowsPerBlock) {
+            var block = range.offset(
+                r, c,
+                Math.min(rowsPerBlock, range.getNumRows() - r),
+                Math.min(colsPerBlock, range.getNumColumns() - c)
+            );
+            sendBlock(block, timeZone);
+        }
+    }
+}
+
+function sendBlock(block, timeZone) {
+    var rawValues = block.getValues().map(function(line) {
+        return line.map(function(rawValue) {
+            // Wall clock in the spreadsheet's time zone, so the backend doesn't shift it
+            return rawValue instanceof Date
+                ? Utilities.formatDate(rawValue, timeZone, 'yyyy-MM-dd HH:mm:ss')
+                : rawValue;
+        });
+    });
 
     var payload = {
-        row: row,
-        col: col,
-        value: value,
-        sheetId: SHEET_ID
+        version: 2,
+        range: block.getA1Notation(),
+        values: block.getDisplayValues(),
+        rawValues: rawValues,
+        numberFormats: block.getNumberFormats(),
+        formulas: block.getFormulas(),
+        sheetId: SHEET_ID,
+        sheetName: block.getSheet().getName()
     };
 
-    var options = {
+    try {
+        sendSigned(JSON.stringify(payload));
+    } catch (error) {
+        Logger.log('Webhook failed: ' + error);
+    }
+}
+
+// HMAC-SHA256 over timestamp.nonce.body; the nonce stops the request being replayed
+function sendSigned(body) {
+    var properties = PropertiesService.getScriptProperties();
+    var secret = properties.getProperty('WEBHOOK_SECRET') || INITIAL_SECRET;
+    var timestamp = String(Date.now());
+    var nonce = Utilities.getUuid();
+    var signature = Utilities.computeHmacSha256Signature(timestamp + '.' + nonce + '.' + body, secret, Utilities.Charset.UTF_8)
+        .map(function(b) { return ('0' + (b & 0xff).toString(16)).slice(-2); })
+        .join('');
+
+    var response = UrlFetchApp.fetch(BACKEND_URL, {
         method: 'post',
         contentType: 'application/json',
-        payload: JSON.stringify(payload),
+        payload: body,
+        headers: {
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Nonce': nonce,
+            'X-Webhook-Signature': signature
+        },
         muteHttpExceptions: true
-    };
+    });
 
-    try {
-        UrlFetchApp.fetch(BACKEND_URL, options);
-    } catch (error) {
-        Logger.log('Webhook failed: ' + error);
+    // The secret was rotated with a hand-over: the backend sends the new one to holders of the old one
+    var headers = response.getAllHeaders();
+    for (var name in headers) {
+        if (name.toLowerCase() === 'x-webhook-secret') {
+            properties.setProperty('WEBHOOK_SECRET', String(headers[name]));
+        }
+    }
+    if (response.getResponseCode() === 401) {
+        Logger.log('Webhook rejected: ' + response.getContentText());
     }
 }
 
@@ -63,11 +120,29 @@ function installTrigger() {
 `;
 }
 
+/**
+ * The script to install in a registered spreadsheet, issuing its webhook secret if it has none yet
+ */
+export async function appsScriptFor(spreadsheet: SpreadsheetEntry): Promise<string> {
+    const backendUrl = process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 3000}`;
+    const secret = await webhookSecrets.ensure(spreadsheet.config.key);
+    return generateAppsScript(backendUrl, spreadsheet.config.sheetId, secret);
+}
+
 export async function installAppsScript(sheetId: string): Promise<boolean> {
+    if (spreadsheetProvider().kind !== 'google') {
+        logger.info({ sheetId, provider: spreadsheetProvider().kind }, 'Apps Script only applies to Google Sheets; skipped');
+        return false;
+    }
+
     try {
-        const backendUrl = process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 3000}`;
-        const scriptCode = generateAppsScript(backendUrl, sheetId);
+        const spreadsheet = spreadsheetRegistry.findBySheetId(sheetId);
+        if (!spreadsheet) {
+            throw new Error('Spreadsheet is not registered');
+        }
+        const scriptCode = await appsScriptFor(spreadsheet);
 
+        const jwtClient = createJwtClient([SHEETS_SCOPE, SCRIPT_PROJECTS_SCOPE]);
         const script = google.script({ version: 'v1', auth: jwtClient });
 
         const createRes = await script.projects.create({
@@ -0,0 +1,225 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import bcrypt from 'bcrypt';
+import pool from '../config/database';
+import redisClient from '../config/redis';
+import { STRUCTURE_WRITER } from './tableStore';
+import { AUTH_JWT_SECRET_KEY, revokedKeyKey } from '../utils/redisKeys';
+import pino from 'pino';
+
+const logger = pino();
+
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+const BCRYPT_ROUNDS = 10;
+const SESSION_TTL_MS = Math.max(60000, parseInt(process.env.AUTH_SESSION_TTL_MS || String(12 * 60 * 60 * 1000)));
+// A verified key is trusted this long without another bcrypt compare (and while MySQL is down);
+// a revocation recorded in Redis ends that early, on every instance
+const KEY_CACHE_MS = 60000;
+const NAME_PATTERN = /^[a-zA-Z0-9_.-]{1,40}$/;
+// Writer names the sync engine gives meaning to, and the bootstrap admin's; a person can't take them
+const RESERVED_NAMES = ['sheet', 'user', 'system', 'cached', 'sql_terminal', 'conflict_resolution', 'undo', 'restore', 'admin', STRUCTURE_WRITER];
+
+/**
+ * Who made a request. `name` becomes lock owner and `last_modified_by` of their writes.
+ */
+export interface Identity {
+    name: string;
+    role: Role;
+    keyId: number | null;   // null for the ADMIN_API_TOKEN bootstrap key
+}
+
+export interface ApiKeyInfo {
+    id: number;
+    name: string;
+    role: Role;
+    prefix: string;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+    revokedAt: Date | null;
+}
+
+export function hasRole(identity: Identity, role: Role): boolean {
+    return ROLES.indexOf(identity.role) >= ROLES.indexOf(role);
+}
+
+function base64url(value: Buffer | string): string {
+    return Buffer.from(value).toString('base64url');
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * API keys (`sj_<prefix>_<secret>`, stored as bcrypt hashes) and the session
+ * tokens they can be exchanged for. Sessions are HS256 JWTs, so checking one
+ * needs no database round trip.
+ */
+export class AuthService {
+    private keyCache = new Map<string, { identity: Identity; until: number }>();
+    private jwtSecret: string | null = process.env.AUTH_JWT_SECRET || null;
+
+    validateName(name: unknown): string | null {
+        if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+            return 'name must be 1-40 letters, digits, _ . or -';
+        }
+        if (RESERVED_NAMES.includes(name.toLowerCase()) || /^bot-/i.test(name)) {
+            return `"${name}" is a reserved name`;
+        }
+        return null;
+    }
+
+    /**
+     * Issue a key. The plain key is returned once and never stored.
+     */
+    async createKey(name: string, role: Role): Promise<{ info: ApiKeyInfo; key: string }> {
+        const prefix = randomBytes(6).toString('hex');
+        const key = `sj_${prefix}_${randomBytes(24).toString('base64url')}`;
+        const hash = await bcrypt.hash(key, BCRYPT_ROUNDS);
+        const [result]: any = await pool.query(
+            'INSERT INTO api_keys (name, role, key_prefix, key_hash) VALUES (?, ?, ?, ?)',
+            [name, role, prefix, hash]
+        );
+        logger.info({ id: result.insertId, name, role }, 'API key created');
+        return {
+            key,
+            info: { id: result.insertId, name, role, prefix, createdAt: new Date(), lastUsedAt: null, revokedAt: null },
+        };
+    }
+
+    async listKeys(): Promise<ApiKeyInfo[]> {
+        const [rows]: any = await pool.query(
+            'SELECT id, name, role, key_prefix, created_at, last_used_at, revoked_at FROM api_keys ORDER BY id'
+        );
+        return rows.map((r: any) => ({
+            id: r.id,
+            name: r.name,
+            role: r.role,
+            prefix: r.key_prefix,
+            createdAt: r.created_at,
+            lastUsedAt: r.last_used_at,
+            revokedAt: r.revoked_at,
+        }));
+    }
+
+    /**
+     * Revoke a key and every session opened with it. Returns false if there was no live key.
+     */
+    async revokeKey(id: number): Promise<boolean> {
+        const [result]: any = await pool.query(
+            'UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL',
+            [id]
+        );
+        if (result.affectedRows === 0) return false;
+        // Sessions carry the key id, and other instances may still have the key cached;
+        // both are checked against this until the last session expires
+        await redisClient.set(revokedKeyKey(id), 1, 'PX', SESSION_TTL_MS);
+        for (const [hash, cached] of this.keyCache) {
+            if (cached.identity.keyId === id) this.keyCache.delete(hash);
+        }
+        logger.info({ id }, 'API key revoked');
+        return true;
+    }
+
+    /**
+     * The identity behind a bearer credential: the bootstrap admin token, an API key or a session token
+     */
+    async authenticate(credential: string): Promise<Identity | null> {
+        if (this.isAdminToken(credential) || credential.startsWith('sj_')) {
+            return this.authenticateApiKey(credential);
+        }
+        return this.verifySession(credential);
+    }
+
+    /**
+     * The identity behind an API key or the bootstrap admin token. Session tokens
+     * aren't keys, so a session can't be renewed without the key it came from.
+     */
+    async authenticateApiKey(credential: string): Promise<Identity | null> {
+        if (this.isAdminToken(credential)) {
+            return { name: 'admin', role: 'admin', keyId: null };
+        }
+        return credential.startsWith('sj_') ? this.authenticateKey(credential) : null;
+    }
+
+    /**
+     * Exchange a verified identity for a session token
+     */
+    async openSession(identity: Identity): Promise<{ token: string; expiresAt: number }> {
+        const expiresAt = Date.now() + SESSION_TTL_MS;
+        const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+        const payload = base64url(JSON.stringify({
+            sub: identity.name,
+            role: identity.role,
+            kid: identity.keyId,
+            exp: Math.floor(expiresAt / 1000),
+        }));
+        const signature = createHmac('sha256', await this.sessionSecret()).update(`${header}.${payload}`).digest();
+        return { token: `${header}.${payload}.${base64url(signature)}`, expiresAt };
+    }
+
+    private async authenticateKey(key: string): Promise<Identity | null> {
+        const hash = digest(key).toString('hex');
+        const cached = this.keyCache.get(hash);
+        if (cached && cached.until > Date.now()) {
+            // Revoked on another instance: this one's cache doesn't know yet
+            if (!await redisClient.exists(revokedKeyKey(cached.identity.keyId!))) return cached.identity;
+            this.keyCache.delete(hash);
+            return null;
+        }
+
+        const prefix = key.split('_')[1] ?? '';
+        // MySQL down: only keys checked within KEY_CACHE_MS (above) keep working; the rest fail closed
+        const [rows]: any = await pool.query(
+            'SELECT id, name, role, key_hash FROM api_keys WHERE key_prefix = ? AND revoked_at IS NULL',
+            [prefix]
+        );
+        const row = rows[0];
+        if (!row || !await bcrypt.compare(key, row.key_hash)) return null;
+
+        const identity: Identity = { name: row.name, role: row.role, keyId: row.id };
+        this.keyCache.set(hash, { identity, until: Date.now() + KEY_CACHE_MS });
+        pool.query('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?', [row.id]).catch(() => {});
+        return identity;
+    }
+
+    private isAdminToken(credential: string): boolean {
+        const adminToken = process.env.ADMIN_API_TOKEN;
+        // Hashed first so the comparison takes the same time whatever the length
+        return !!adminToken && timingSafeEqual(digest(credential), digest(adminToken));
+    }
+
+    private async verifySession(token: string): Promise<Identity | null> {
+        const [header, payload, signature] = token.split('.');
+        if (!header || !payload || !signature) return null;
+
+        const expected = createHmac('sha256', await this.sessionSecret()).update(`${header}.${payload}`).digest();
+        const presented = Buffer.from(signature, 'base64url');
+        if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) return null;
+
+        let claims: { sub?: string; role?: Role; kid?: number | null; exp?: number };
+        try {
+            claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        } catch {
+            return null;
+        }
+        if (!claims.sub || !claims.role || !ROLES.includes(claims.role) || !claims.exp || claims.exp * 1000 < Date.now()) {
+            return null;
+        }
+        if (claims.kid && await redisClient.exists(revokedKeyKey(claims.kid))) return null;
+        return { name: claims.sub, role: claims.role, keyId: claims.kid ?? null };
+    }
+
+    /**
+     * AUTH_JWT_SECRET, or one generated once and shared through Redis
+     */
+    private async sessionSecret(): Promise<string> {
+        if (this.jwtSecret) return this.jwtSecret;
+        await redisClient.set(AUTH_JWT_SECRET_KEY, randomBytes(32).toString('hex'), 'NX');
+        this.jwtSecret = await redisClient.get(AUTH_JWT_SECRET_KEY);
+        return this.jwtSecret!;
+    }
+}
+
+export default new AuthService();
@@ -0,0 +1,194 @@
+import MySQLEvents from 'mysql-events';
+import pool from '../config/database';
+import redisClient from '../config/redis';
+import spreadsheetRegistry, { SpreadsheetRegistry } from './spreadsheetRegistry';
+import pino from 'pino';
+import dotenv from 'dotenv';
+
+dotenv.config();
+const logger = pino();
+
+// Must be unique among everything replicating from this MySQL server
+const SERVER_ID = parseInt(process.env.BINLOG_SERVER_ID || '1001');
+const POSITION_KEY = `binlog:position:${SERVER_ID}`;
+const POSITION_SAVE_DELAY = 1000;
+
+// 'rotate' keeps the binlog file name current; the rest carry row changes
+const BINLOG_EVENTS = ['rotate', 'tablemap', 'writerows', 'updaterows', 'deleterows'];
+
+interface BinlogPosition {
+    binlogName: string;
+    binlogNextPos: number;
+}
+
+/**
+ * Streams the MySQL binlog and turns row events on mapped tables into per-cell
+ * DB → Sheet updates, so writes from any client (not just our controllers)
+ * reach the sheet without full-table rescans.
+ *
+ * The last applied position is kept in Redis and used to resume after a restart.
+ * While the stream is down, monitors fall back to debounced rescans.
+ */
+export class BinlogListener {
+    private events: any = null;
+    private capturing = false;
+    private position: BinlogPosition | null = null;
+    private saveTimer: NodeJS.Timeout | null = null;
+    private watchedInstances = new WeakSet<object>();
+    private eventsApplied = 0;
+    private lastError = '';
+
+    constructor(private registry: SpreadsheetRegistry) {}
+
+    isEnabled(): boolean {
+        return process.env.BINLOG_ENABLED === 'true';
+    }
+
+    async start(): Promise<void> {
+        if (!this.isEnabled() || this.events) return;
+
+        const saved = await this.loadPosition();
+        const resumable = saved !== null && await this.binlogExists(saved);
+        if (saved && !resumable) {
+            // Changes since the saved position can't be replayed; reconcile in full instead
+            console.warn(`⚠️ Binlog ${saved.binlogName} is gone, starting from the current end`);
+            for (const entry of this.registry.list()) {
+                entry.monitor.markDirty();
+                await entry.monitor.syncFromDatabase().catch(() => {});
+            }
+        }
+
+        const dsn = {
+            host: process.env.MYSQL_HOST,
+            port: parseInt(process.env.MYSQL_PORT || '3306'),
+            user: process.env.BINLOG_MYSQL_USER || process.env.MYSQL_USER,
+            password: process.env.BINLOG_MYSQL_PASSWORD || process.env.MYSQL_PASSWORD,
+        };
+        const settings: Record<string, any> = {
+            serverId: SERVER_ID,
+            includeEvents: BINLOG_EVENTS,
+            ...(resumable ? saved : { startAtEnd: true }),
+        };
+
+        this.events = MySQLEvents(dsn, settings);
+        // Watch the whole schema: spreadsheets registered later are picked up without a restart
+        this.events.add(process.env.MYSQL_DATABASE, (before: any, after: any, evt: any) => {
+            this.handleRowEvent(before, after, evt);
+        });
+        this.watchInstance(this.events.zongji);
+        this.setCapture(true);
+
+        this.position = resumable ? saved : null;
+        logger.info({ serverId: SERVER_ID, resumeFrom: resumable ? saved : 'end' }, 'Binlog listener started');
+    }
+
+    async stop(): Promise<void> {
+        if (!this.events) return;
+        this.events.stop();
+        this.events = null;
+        this.setCapture(false);
+
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        await this.savePosition();
+        logger.info('Binlog listener stopped');
+    }
+
+    getStatus() {
+        return {
+            enabled: this.isEnabled(),
+            capturing: this.capturing,
+            position: this.position,
+            eventsApplied: this.eventsApplied,
+            lastError: this.lastError,
+        };
+    }
+
+    private handleRowEvent(before: any, after: any, evt: any) {
+        // mysql-events reconnects on its own; each row event tells us which connection it came from
+        const zongji = evt._zongji;
+        this.watchInstance(zongji);
+        if (!this.capturing) {
+            console.log('✅ Binlog stream restored');
+            this.lastError = '';
+        }
+        this.setCapture(true);
+
+        const table = (after || before).table;
+        const found = this.registry.findByTable(table);
+        if (found) {
+            found.spreadsheet.monitor.applyBinlogChange(
+                found.mapping.id,
+                before ? before.fields : null,
+                after ? after.fields : null
+            );
+            this.eventsApplied++;
+        }
+
+        if (zongji.binlogName) {
+            this.position = { binlogName: zongji.binlogName, binlogNextPos: evt.nextPosition };
+            this.schedulePositionSave();
+        }
+    }
+
+    private watchInstance(zongji: any) {
+        if (!zongji || this.watchedInstances.has(zongji)) return;
+        this.watchedInstances.add(zongji);
+        zongji.on('error', (err: any) => {
+            if (this.capturing) {
+                console.warn('⚠️ Binlog stream lost, falling back to table rescans:', err.message || err);
+            }
+            this.lastError = err.message || String(err);
+            this.setCapture(false);
+        });
+    }
+
+    private setCapture(active: boolean) {
+        this.capturing = active;
+        for (const entry of this.registry.list()) {
+            entry.monitor.binlogCapture = active;
+        }
+    }
+
+    private schedulePositionSave() {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.savePosition();
+        }, POSITION_SAVE_DELAY);
+    }
+
+    private async savePosition(): Promise<void> {
+        if (!this.position) return;
+        await redisClient.set(POSITION_KEY, JSON.stringify(this.position)).catch((err) => {
+            logger.error({ err }, 'Failed to save binlog position');
+        });
+    }
+
+    private async loadPosition(): Promise<BinlogPosition | null> {
+        try {
+            const raw = await redisClient.get(POSITION_KEY);
+            return raw ? JSON.parse(raw) : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * A saved position is only usable while its file is still on the server
+     */
+    private async binlogExists(position: BinlogPosition): Promise<boolean> {
+        try {
+            const [rows]: any = await pool.query('SHOW BINARY LOGS');
+            const file = rows.find((r: any) => r.Log_name === position.binlogName);
+            return !!file && position.binlogNextPos <= Number(file.File_size);
+        } catch (error: any) {
+            this.lastError = error.message;
+            return false;
+        }
+    }
+}
+
+export default new BinlogListener(spreadsheetRegistry);
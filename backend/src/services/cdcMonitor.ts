@@ -1,35 +1,283 @@
-import { google } from 'googleapis';
-import { JWT } from 'google-auth-library';
 import pool from '../config/database';
 import redisClient from '../config/redis';
+import { SyncMappingRegistry } from './syncMappingRegistry';
+import { TableStore, RowTableStore, CellRow, STRUCTURE_WRITER, createTableStore } from './tableStore';
+import conflictService, { NewConflict } from './conflictService';
+import quotaBudget, { QuotaUse } from './quotaBudget';
+import leaderElection from './leaderElection';
+import clusterBus from './clusterBus';
+import lockService, { LockTarget, lockLabel } from './lockService';
+import { PendingChange, PendingItem, PendingQueue, PendingTarget } from './pendingQueue';
+import { CellWrite, DimensionMetadata, SpreadsheetProvider, spreadsheetProvider } from './spreadsheetProvider';
+import { mappingScope, mappingRedisKeys, ignoreKey, LEADER_KEY } from '../utils/redisKeys';
+import { columnToIndex, indexToColumn, rangeOrigin } from '../utils/a1';
+import { Axis, PositionChange, lowestPosition, planMoves, positionLabel, structureEvents } from '../utils/structure';
+import { CellInput, TypedValue, displayOf, inferValue, toSheetInput } from '../utils/cellValues';
+import { SpreadsheetConfig, SyncMapping } from '../types/types';
+import { randomUUID } from 'crypto';
 import pino from 'pino';
 import dotenv from 'dotenv';
 dotenv.config();    
 const logger = pino();
 
-const SHEET_ID = process.env.GOOGLE_SHEET_ID!;
-// Minimum 3 seconds to stay well under Google's 300 req/min quota
-const POLL_INTERVAL = Math.max(3000, parseInt(process.env.POLL_INTERVAL || '3000'));
-const SHEET_RANGE = process.env.SHEET_RANGE || 'Sheet1!A1:H20';
-
-// Redis keys for offline resilience
-const REDIS_KEYS = {
-    SHEET_SNAPSHOT: 'snapshot:sheet',           // Last known sheet state
-    DB_SNAPSHOT: 'snapshot:db',                 // Last known DB state
-    PENDING_TO_SHEET: 'pending:to_sheet',       // Changes waiting to go to Sheet
-    PENDING_TO_DB: 'pending:to_db',             // Changes waiting to go to DB
-    SHEET_ONLINE: 'status:sheet_online',        // Sheet connectivity status
-    DB_ONLINE: 'status:db_online',              // DB connectivity status
-};
+// Polls run every POLL_INTERVAL while the sheet is being edited and back off
+// to POLL_IDLE_INTERVAL when it is quiet. The shared quota budget, not the
+// interval, keeps them under Google's limits.
+const POLL_INTERVAL = Math.max(1000, parseInt(process.env.POLL_INTERVAL || '2000'));
+const POLL_IDLE_INTERVAL = Math.max(POLL_INTERVAL, parseInt(process.env.POLL_IDLE_INTERVAL || '30000'));
+const POLL_BACKOFF = 1.5;
+// While the Apps Script webhook is delivering edits, polls wait until it has been quiet this long
+const WEBHOOK_QUIET_PERIOD = Math.max(0, parseInt(process.env.WEBHOOK_QUIET_PERIOD || '15000'));
 
 const SNAPSHOT_TTL = 86400; // 24 hours
 
+// Seconds a structural edit may hold the rows or columns it shifts
+const STRUCTURE_LOCK_TTL = 30;
+
+// Write a mapping's shared snapshot if it is still at the version this instance
+// last saw and, when elections run, this instance still holds the leader lease.
+// Returns the new version, -1 for a version mismatch, -2 for a lost lease.
+const SAVE_SNAPSHOT_SCRIPT = `
+    if ARGV[2] ~= '' and redis.call('GET', KEYS[2]) ~= ARGV[2] then
+        return -2
+    end
+    if redis.call('TYPE', KEYS[1]).ok ~= 'hash' then
+        redis.call('DEL', KEYS[1])
+    end
+    local version = tonumber(redis.call('HGET', KEYS[1], 'version') or '0')
+    if version ~= tonumber(ARGV[1]) then
+        return -1
+    end
+    redis.call('HSET', KEYS[1], 'version', version + 1, 'cells', ARGV[3], 'formulas', ARGV[4], 'ids', ARGV[5])
+    redis.call('EXPIRE', KEYS[1], ARGV[6])
+    return version + 1
+`;
+
+// Incremental DB → Sheet passes fall back to a full reconciliation this often
+const FULL_SYNC_INTERVAL = Math.max(60000, parseInt(process.env.FULL_SYNC_INTERVAL || '300000'));
+const WATERMARK_OVERLAP_MS = 2000;
+
+// Developer metadata keys that give rows and columns an id. Kept short: a
+// sheet's metadata is capped at 30,000 characters.
+const ROW_ID_KEY = 'sr';
+const COL_ID_KEY = 'sc';
+const STAMP_BATCH_SIZE = 500;
+
+// A cell headed for the sheet, with the stored version it came from
+type SheetPush = { row: number; col: string; value: string; source: string; version?: number; typed?: TypedValue };
+
+/**
+ * Metadata ids of a tab's rows (by row number) and columns (by column index)
+ */
+interface DimensionIds {
+    rows: Map<number, number>;
+    cols: Map<number, number>;
+}
+
+/**
+ * Per-mapping sync state. Each tab ↔ table pair keeps its own snapshot,
+ * dirty flag and Redis keys so one tab's traffic never leaks into another's.
+ */
+interface MappingState {
+    mapping: SyncMapping;
+    scope: string;
+    keys: ReturnType<typeof mappingRedisKeys>;
+    pending: Record<PendingTarget, PendingQueue>;  // Changes waiting while the sheet or DB is offline
+    store: TableStore;
+    usedRange: string;   // Range the last poll actually returned
+    binlogQueue: Map<string, SheetPush>;  // Cells waiting for the next binlog flush
+    watermark: Date | null;     // DB → Sheet pushed everything updated before this (null until the first full pass)
+    tombstoneId: number;        // Last sync_tombstones id pushed
+    lastFullSyncAt: number;
+    lastSnapshot: Map<string, string>;
+    snapshotVersion: number;    // Version of the shared snapshot in Redis that lastSnapshot matches (0: none)
+    sheetValues: Map<string, TypedValue>;   // Typed values behind the last fetch, by the same keys
+    formulas: Map<string, string>;          // Formulas behind lastSnapshot, by the same keys
+    conflicts: Set<string>;     // Cells with an open conflict; DB → Sheet leaves them alone
+    sheetGid: number | null;    // The tab's sheetId, for metadata requests
+    dimensionIds: DimensionIds; // Row/column ids from the last fetch
+    snapshotIds: DimensionIds;  // Row/column ids as of lastSnapshot
+    dirty: boolean;
+    lastChangeDetectedAt: number;
+    lastSyncToDbAt: number;
+    lastSyncToSheetAt: number;
+}
+
+export interface MappingStatus {
+    id: string;
+    sheetName: string;
+    range: string;       // Configured range, or 'auto' for the tab's used range
+    usedRange: string;
+    table: string;
+    snapshotSize: number;
+    pendingToSheet: number;
+    pendingToDb: number;
+    deadLettersToSheet: number;
+    deadLettersToDb: number;
+    lastChangeDetectedAt: number;
+    lastSyncToDbAt: number;
+    lastSyncToSheetAt: number;
+    watermark: string | null;
+    lastFullSyncAt: number;
+    openConflicts: number;
+}
+
+/**
+ * Whether the sheet already shows a DB cell. A formula cell is compared by its
+ * formula: what it computes follows the cells it reads, and pushing that value
+ * back would replace the formula.
+ */
+function sheetShows(shownValue: string, shownFormula: string | undefined, value: string, typed?: TypedValue): boolean {
+    if (typed?.formula) return typed.formula === shownFormula;
+    return shownValue === value;
+}
+
+function emptyIds(): DimensionIds {
+    return { rows: new Map(), cols: new Map() };
+}
+
+function copyIds(ids: DimensionIds): DimensionIds {
+    return { rows: new Map(ids.rows), cols: new Map(ids.cols) };
+}
+
+/**
+ * Ids the rows or columns carry under `key`; the lowest one where two mappings
+ * on a tab stamped the same row at once
+ */
+function dimensionIds(metadata: Map<number, DimensionMetadata[]>, key: string): Map<number, number> {
+    const ids = new Map<number, number>();
+    for (const [position, entries] of metadata.entries()) {
+        const found = entries.filter(m => m.key === key).map(m => m.id);
+        if (found.length > 0) ids.set(position, Math.min(...found));
+    }
+    return ids;
+}
+
+/**
+ * Structural change seen through the ids: where each tracked row or column
+ * went. Null if nothing moved, or if every id vanished at once (metadata that
+ * was cleared rather than rows that were deleted).
+ */
+function idChange(before: Map<number, number>, after: Map<number, number>): PositionChange | null {
+    const positions = new Map<number, number>();
+    for (const [position, id] of after.entries()) positions.set(id, position);
+
+    const change: PositionChange = { moves: new Map(), deleted: [] };
+    for (const [position, id] of before.entries()) {
+        const now = positions.get(id);
+        if (now === undefined) change.deleted.push(position);
+        else change.moves.set(position, now);
+    }
+    const shifted = change.deleted.length > 0 || Array.from(change.moves).some(([from, to]) => from !== to);
+    return shifted && change.moves.size > 0 ? change : null;
+}
+
+/**
+ * Rows or columns a planned structural edit moves or deletes, from the first
+ * to the last position it touches. Null if nothing moves.
+ */
+function structureLock(axis: Axis, plan: Map<number, number | null>): LockTarget | null {
+    const touched = Array.from(plan)
+        .filter(([from, to]) => to !== from)
+        .flatMap(([from, to]) => (to === null ? [from] : [from, to]));
+    if (touched.length === 0) return null;
+    const [first, last] = [Math.min(...touched), Math.max(...touched)];
+    return axis === 'row'
+        ? { kind: 'row', row: first, toRow: last }
+        : { kind: 'column', col: positionLabel('col', first), toCol: positionLabel('col', last) };
+}
+
+/**
+ * Each row's cells as one string, to recognise a row by its content
+ */
+function rowFingerprints(data: Map<string, string>, skip: (row: number) => boolean): Map<number, string> {
+    const cells = new Map<number, string[]>();
+    for (const [key, value] of data.entries()) {
+        const [rowStr, col] = key.split(':');
+        const row = parseInt(rowStr);
+        if (skip(row)) continue;
+        if (!cells.has(row)) cells.set(row, []);
+        cells.get(row)!.push(`${col}=${value}`);
+    }
+    return new Map(Array.from(cells, ([row, parts]) => [row, parts.sort().join('\u0000')]));
+}
+
+/**
+ * A sort moves values, not the rows' metadata, so it is recognised by content:
+ * the changed rows hold exactly the rows that were there before, reordered.
+ * Every other row is pinned in place.
+ */
+function sortChange(before: Map<number, string>, after: Map<number, string>): PositionChange | null {
+    const all = Array.from(new Set([...before.keys(), ...after.keys()])).sort((a, b) => a - b);
+    const changed = all.filter(row => before.get(row) !== after.get(row));
+    if (changed.length < 2) return null;
+
+    const waiting = new Map<string, number[]>();
+    for (const row of changed) {
+        const fingerprint = before.get(row) ?? '';
+        if (!waiting.has(fingerprint)) waiting.set(fingerprint, []);
+        waiting.get(fingerprint)!.push(row);
+    }
+    const moves = new Map<number, number>();
+    for (const row of changed) {
+        const from = waiting.get(after.get(row) ?? '')?.shift();
+        if (from === undefined) return null;
+        moves.set(from, row);
+    }
+    if (!Array.from(moves).some(([from, to]) => from !== to && before.has(from))) return null;
+
+    for (const row of all) {
+        if (!moves.has(row)) moves.set(row, row);
+    }
+    return { moves, deleted: [] };
+}
+
+/**
+ * Binlog events a structural edit from the sheet causes: the tag put on rows it
+ * deletes, the deletes themselves, and moves (a new position, same version)
+ */
+function isStructuralEvent(before: Record<string, any> | null, after: Record<string, any> | null): boolean {
+    if (String((after ?? before)?.last_modified_by) === STRUCTURE_WRITER) return true;
+    return !!before && !!after
+        && Number(before.version) === Number(after.version)
+        && (before.row_num !== after.row_num || String(before.col_name) !== String(after.col_name));
+}
+
+function formulasOf(values: Map<string, TypedValue>): Map<string, string> {
+    const formulas = new Map<string, string>();
+    for (const [key, typed] of values.entries()) {
+        if (typed.formula) formulas.set(key, typed.formula);
+    }
+    return formulas;
+}
+
+/**
+ * What to write for a cell with valueInputOption USER_ENTERED. Values without
+ * a type (or whose type is for another value) are typed from their text.
+ */
+function sheetInput(value: string, typed?: TypedValue): string | number | boolean {
+    return toSheetInput(typed && typed.display === value ? typed : inferValue(value));
+}
+
+/**
+ * Change-data-capture loop for one registered spreadsheet. The spreadsheet
+ * registry runs one instance per spreadsheet.
+ */
 export class CDCMonitor {
-    private lastSnapshot: Map<string, string> = new Map();
-    private sheets: any;
+    readonly key: string;
+    readonly sheetId: string;
+    private registry: SyncMappingRegistry;
+    private states: Map<string, MappingState> = new Map();
+    private provider: SpreadsheetProvider;
     private isRunning = false;
-    private intervalId: NodeJS.Timeout | null = null;
+    // Only the elected leader polls and pushes; other replicas forward DB → Sheet syncs to it
+    private leading = false;
+    private pollTimer: NodeJS.Timeout | null = null;
     private isPollInProgress = false;
+    private pollInterval = POLL_INTERVAL;
+    private lastPollAt = 0;
+    private lastWebhookAt = 0;
+    private quotaStarved = false;
 
     // Rate limit backoff
     private rateLimitedUntil: number = 0;
@@ -41,31 +289,202 @@ export class CDCMonitor {
     private dbOnline: boolean = true;
     private lastSheetError: string = '';
     private lastDbError: string = '';
-    private lastChangeDetectedAt: number = 0;
-    private lastSyncToDbAt: number = 0;
-    private lastSyncToSheetAt: number = 0;
 
     private syncDebounceTimer: NodeJS.Timeout | null = null;
     private readonly SYNC_DEBOUNCE = 500;
-    private dbDirtySinceLastSync = false;
 
-    markDirty() {
-        this.dbDirtySinceLastSync = true;
+    // Set by the binlog listener while it is streaming; DB writes then reach the
+    // sheet as per-cell binlog events instead of debounced full-table rescans
+    binlogCapture = false;
+    private binlogFlushTimer: NodeJS.Timeout | null = null;
+    private readonly BINLOG_FLUSH_DELAY = 100;
+
+    constructor(spreadsheet: SpreadsheetConfig, provider: SpreadsheetProvider = spreadsheetProvider()) {
+        this.key = spreadsheet.key;
+        this.sheetId = spreadsheet.sheetId;
+        this.provider = provider;
+        this.registry = new SyncMappingRegistry(spreadsheet.mappings);
+
+        for (const mapping of this.registry.list()) {
+            const scope = mappingScope(this.key, mapping.id);
+            const keys = mappingRedisKeys(scope);
+            this.states.set(mapping.id, {
+                mapping,
+                scope,
+                keys,
+                pending: {
+                    sheet: new PendingQueue(keys.PENDING_TO_SHEET, keys.DEAD_LETTER_TO_SHEET),
+                    db: new PendingQueue(keys.PENDING_TO_DB, keys.DEAD_LETTER_TO_DB),
+                },
+                store: createTableStore(mapping, mapping.range ? rangeOrigin(mapping.range).row : 1),
+                usedRange: '',
+                binlogQueue: new Map(),
+                watermark: null,
+                tombstoneId: 0,
+                lastFullSyncAt: 0,
+                lastSnapshot: new Map(),
+                snapshotVersion: 0,
+                sheetValues: new Map(),
+                formulas: new Map(),
+                conflicts: new Set(),
+                sheetGid: null,
+                dimensionIds: emptyIds(),
+                snapshotIds: emptyIds(),
+                dirty: false,
+                lastChangeDetectedAt: 0,
+                lastSyncToDbAt: 0,
+                lastSyncToSheetAt: 0,
+            });
+        }
+    }
+
+    getMappings(): SyncMapping[] {
+        return this.registry.list();
+    }
+
+    getMappingRegistry(): SyncMappingRegistry {
+        return this.registry;
+    }
+
+    /**
+     * Table access for a mapping — writers outside the monitor go through this
+     */
+    getStore(mappingId: string): TableStore {
+        return this.selectStates(mappingId)[0].store;
+    }
+
+    /**
+     * Create (or load the column layout of) every mapping's table
+     */
+    async ensureTables(): Promise<void> {
+        for (const state of this.states.values()) {
+            await state.store.ensureTable();
+        }
+    }
+
+    /**
+     * Resolve a mapping id to its state; no id means every mapping
+     */
+    private selectStates(mappingId?: string): MappingState[] {
+        if (!mappingId) return Array.from(this.states.values());
+        const state = this.states.get(mappingId);
+        if (!state) {
+            throw new Error(`Unknown sync mapping "${mappingId}"`);
+        }
+        return [state];
+    }
+
+    /**
+     * Record a write that was rejected as stale. The cell is held back from
+     * DB → Sheet passes until the conflict is resolved.
+     */
+    async recordConflict(mappingId: string, conflict: NewConflict): Promise<number> {
+        const state = this.selectStates(mappingId)[0];
+        const id = await conflictService.record(this.key, mappingId, state.mapping.table, conflict);
+        state.conflicts.add(`${conflict.row}:${conflict.col}`);
+        console.log(`   ⚔️  [${state.scope}] Conflict #${id} on ${conflict.col}${conflict.row}: ${conflict.side} wrote "${conflict.value}" over version ${conflict.baseVersion ?? '?'}, stored is "${conflict.current.value}" (v${conflict.current.version})`);
+        return id;
+    }
+
+    clearConflict(mappingId: string, row: number, col: string) {
+        this.selectStates(mappingId)[0].conflicts.delete(`${row}:${col}`);
+    }
+
+    hasConflict(mappingId: string, row: number, col: string): boolean {
+        return this.selectStates(mappingId)[0].conflicts.has(`${row}:${col}`);
+    }
+
+    /**
+     * Rebuild the held-back cells from the open conflicts in the DB, which any replica may have changed
+     */
+    async loadOpenConflicts(): Promise<void> {
+        const cells = await conflictService.openCells(this.key);
+        for (const state of this.states.values()) {
+            state.conflicts.clear();
+        }
+        for (const cell of cells) {
+            this.states.get(cell.mappingId)?.conflicts.add(`${cell.row}:${cell.col}`);
+        }
+    }
+
+    /**
+     * Flag a mapping (or all mappings) as having DB writes not yet pushed to the sheet
+     */
+    markDirty(mappingId?: string) {
+        for (const state of this.selectStates(mappingId)) {
+            state.dirty = true;
+        }
+    }
+
+    /**
+     * Take over polling and pushing for this spreadsheet: this instance was elected leader
+     */
+    async lead() {
+        this.leading = true;
+        await this.initialize();
+        this.start();
+    }
+
+    /**
+     * Leave polling and pushing to the leader. The snapshot is dropped: the next
+     * time this instance leads it starts from the shared one in Redis.
+     */
+    follow() {
+        this.stop();
+        this.leading = false;
+        for (const state of this.states.values()) {
+            state.lastSnapshot = new Map();
+            state.snapshotVersion = 0;
+            state.formulas = new Map();
+            state.snapshotIds = emptyIds();
+            state.watermark = null;
+            state.binlogQueue.clear();
+        }
+    }
+
+    isLeading(): boolean {
+        return this.leading;
+    }
+
+    /**
+     * A follower wrote to a mapping's table and handed the push to the leader
+     */
+    async requestSync(mappingId?: string) {
+        if (!this.leading) return;
+        await this.loadOpenConflicts().catch(() => {});
+        this.debouncedSyncFromDatabase(mappingId);
+    }
+
+    /**
+     * A mapping's offline backlog toward the sheet or the DB
+     */
+    getPendingQueue(mappingId: string, target: PendingTarget): PendingQueue {
+        return this.selectStates(mappingId)[0].pending[target];
+    }
+
+    /**
+     * Replay a mapping's backlog now instead of waiting for the target to come
+     * back. Replays belong to the leader; a follower hands them over.
+     * Returns how many changes were applied here.
+     */
+    async replayPending(mappingId: string, target: PendingTarget): Promise<number> {
+        if (!this.leading) {
+            await clusterBus.publish({ type: 'replay_pending', spreadsheetKey: this.key, mappingId, target });
+            return 0;
+        }
+        return this.processPendingChanges(this.selectStates(mappingId)[0], target);
     }
 
     async initialize() {
+        await this.loadOpenConflicts().catch((error) => {
+            console.warn(`⚠️ [${this.key}] Could not load open conflicts:`, error.message || error);
+        });
+
         try {
-            const jwtClient = new JWT({
-                email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
-                key: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-                scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-            });
+            await this.provider.connect();
 
-            await jwtClient.authorize();
-            this.sheets = google.sheets({ version: 'v4', auth: jwtClient });
-            
             // Try to load from Redis cache first (for fast startup)
-            await this.loadSnapshotFromRedis();
+            await this.loadSnapshotsFromRedis();
             
             // Then try to fetch fresh data
             await this.loadInitialSnapshot();
@@ -73,15 +492,15 @@ export class CDCMonitor {
             // Process any pending changes that were queued while offline
             await this.processPendingChangesOnStartup();
 
-            console.log('✅ CDC Monitor initialized');
+            console.log(`✅ CDC Monitor [${this.key}] initialized`);
         } catch (error: any) {
             const errorMsg = error.code === 'ECONNRESET' 
-                ? 'Google API connection reset during initialization'
+                ? 'Spreadsheet connection reset during initialization'
                 : `CDC Monitor initialization failed: ${error.message || error}`;
             console.error(`❌ ${errorMsg}`);
             
             // Try to recover from Redis cache
-            const recovered = await this.loadSnapshotFromRedis();
+            const recovered = await this.loadSnapshotsFromRedis();
             if (recovered) {
                 console.log('⚠️ Running in offline mode with cached data');
                 this.sheetOnline = false;
@@ -100,119 +519,146 @@ export class CDCMonitor {
      */
     private async processPendingChangesOnStartup(): Promise<void> {
         console.log('🔍 Checking for pending offline changes...');
-        
-        // Check pending changes to DB (from sheet edits while DB was down)
-        const pendingToDbCount = await redisClient.llen(REDIS_KEYS.PENDING_TO_DB).catch(() => 0);
-        if (pendingToDbCount > 0) {
-            console.log(`📥 Found ${pendingToDbCount} pending changes to sync to DB`);
-            await this.processPendingChanges('db');
-        }
-        
-        // Check pending changes to Sheet (from SQL queries while Sheet was down)
-        const pendingToSheetCount = await redisClient.llen(REDIS_KEYS.PENDING_TO_SHEET).catch(() => 0);
-        if (pendingToSheetCount > 0) {
-            console.log(`📥 Found ${pendingToSheetCount} pending changes to sync to Sheet`);
-            await this.processPendingChanges('sheet');
-        }
-        
-        if (pendingToDbCount === 0 && pendingToSheetCount === 0) {
+        let found = false;
+
+        for (const state of this.states.values()) {
+            const tag = `[${state.scope}]`;
+
+            for (const target of ['db', 'sheet'] as const) {
+                const migrated = await state.pending[target].migrateLegacyList().catch(() => 0);
+                if (migrated > 0) {
+                    console.log(`📦 ${tag} Folded ${migrated} queued changes to ${target} into the per-cell backlog`);
+                }
+            }
+
+            // Check pending changes to DB (from sheet edits while DB was down)
+            const pendingToDbCount = await state.pending.db.size().catch(() => 0);
+            if (pendingToDbCount > 0) {
+                found = true;
+                console.log(`📥 ${tag} Found ${pendingToDbCount} pending changes to sync to DB`);
+                await this.processPendingChanges(state, 'db');
+            }
+
+            // Check pending changes to Sheet (from SQL queries while Sheet was down)
+            const pendingToSheetCount = await state.pending.sheet.size().catch(() => 0);
+            if (pendingToSheetCount > 0) {
+                found = true;
+                console.log(`📥 ${tag} Found ${pendingToSheetCount} pending changes to sync to Sheet`);
+                await this.processPendingChanges(state, 'sheet');
+            }
+        }
+
+        if (!found) {
             console.log('✅ No pending offline changes');
         }
     }
 
     /**
-     * Load snapshot from Redis cache (for offline resilience)
+     * Replay pending changes for every mapping (after connectivity is restored)
      */
-    private async loadSnapshotFromRedis(): Promise<boolean> {
+    private async processAllPendingChanges(target: 'sheet' | 'db'): Promise<void> {
+        for (const state of this.states.values()) {
+            await this.processPendingChanges(state, target);
+        }
+    }
+
+    /**
+     * Load every mapping's shared snapshot from Redis: what the leader (this
+     * instance or a previous one) last applied. Also the offline fallback.
+     */
+    private async loadSnapshotsFromRedis(): Promise<boolean> {
+        let recovered = false;
+        for (const state of this.states.values()) {
+            if (await this.loadSnapshotFromRedis(state)) recovered = true;
+        }
+        return recovered;
+    }
+
+    private async loadSnapshotFromRedis(state: MappingState): Promise<boolean> {
         try {
-            const cached = await redisClient.get(REDIS_KEYS.SHEET_SNAPSHOT);
-            if (cached) {
-                const data = JSON.parse(cached);
-                this.lastSnapshot = new Map(Object.entries(data));
-                console.log(`📦 Loaded ${this.lastSnapshot.size} cells from Redis cache`);
-                return true;
-            }
+            const cached = await redisClient.hgetall(state.keys.SHEET_SNAPSHOT);
+            if (!cached.cells) return false;
+            const ids = JSON.parse(cached.ids || '{"rows":[],"cols":[]}');
+            state.lastSnapshot = new Map(Object.entries(JSON.parse(cached.cells)));
+            state.formulas = new Map(Object.entries(JSON.parse(cached.formulas || '{}')));
+            state.snapshotIds = { rows: new Map(ids.rows), cols: new Map(ids.cols) };
+            state.snapshotVersion = parseInt(cached.version);
+            console.log(`📦 [${state.scope}] Loaded ${state.lastSnapshot.size} cells from Redis (snapshot v${state.snapshotVersion})`);
+            return true;
         } catch (error) {
-            console.warn('⚠️ Could not load snapshot from Redis:', error);
+            console.warn(`⚠️ [${state.scope}] Could not load snapshot from Redis:`, error);
+            return false;
         }
-        return false;
     }
 
     /**
-     * Save current snapshot to Redis (for offline resilience)
+     * Share the applied snapshot through Redis, for the next leader and for
+     * offline reads. A snapshot that moved on elsewhere is reloaded instead of
+     * overwritten; the next poll diffs against it.
      */
-    private async saveSnapshotToRedis(data: Map<string, string>): Promise<void> {
+    private async saveSnapshotToRedis(state: MappingState): Promise<void> {
         try {
-            const obj: Record<string, string> = {};
-            for (const [key, value] of data.entries()) {
-                obj[key] = value;
-            }
-            await redisClient.set(
-                REDIS_KEYS.SHEET_SNAPSHOT, 
-                JSON.stringify(obj), 
-                'EX', 
+            const version = await redisClient.eval(
+                SAVE_SNAPSHOT_SCRIPT, 2, state.keys.SHEET_SNAPSHOT, LEADER_KEY,
+                state.snapshotVersion,
+                leaderElection.fencingToken(),
+                JSON.stringify(Object.fromEntries(state.lastSnapshot)),
+                JSON.stringify(Object.fromEntries(state.formulas)),
+                JSON.stringify({ rows: Array.from(state.snapshotIds.rows), cols: Array.from(state.snapshotIds.cols) }),
                 SNAPSHOT_TTL
-            );
+            ) as number;
+
+            if (version === -2) {
+                console.warn(`⚠️ [${state.scope}] Not saving snapshot: this instance no longer holds the leader lease`);
+            } else if (version === -1) {
+                console.warn(`⚠️ [${state.scope}] Shared snapshot changed since v${state.snapshotVersion}, reloading it`);
+                await this.loadSnapshotFromRedis(state);
+            } else {
+                state.snapshotVersion = version;
+            }
         } catch (error) {
-            console.warn('⚠️ Could not save snapshot to Redis:', error);
+            console.warn(`⚠️ [${state.scope}] Could not save snapshot to Redis:`, error);
         }
     }
 
     /**
-     * Queue a change for later sync when target is offline
+     * Queue a change for later sync when target is offline. A cell already
+     * waiting keeps its place and takes the newer value.
      */
-    private async queuePendingChange(
-        target: 'sheet' | 'db',
-        change: { row: number; col: string; value: string; source: string }
-    ): Promise<void> {
-        const key = target === 'sheet' ? REDIS_KEYS.PENDING_TO_SHEET : REDIS_KEYS.PENDING_TO_DB;
+    private async queuePendingChange(state: MappingState, target: PendingTarget, change: PendingChange): Promise<void> {
         try {
-            await redisClient.rpush(key, JSON.stringify({
-                ...change,
-                timestamp: Date.now()
-            }));
-            console.log(`📥 Queued change to ${target}: ${change.col}${change.row} = "${change.value}"`);
+            const replaced = await state.pending[target].add(change);
+            if (!replaced) {
+                console.log(`📥 [${state.scope}] Queued change to ${target}: ${change.col}${change.row} = "${change.value}"`);
+            }
         } catch (error) {
-            console.error(`❌ Failed to queue change to ${target}:`, error);
+            console.error(`❌ [${state.scope}] Failed to queue change to ${target}:`, error);
         }
     }
 
     /**
      * Process pending changes when connectivity is restored
      */
-    private async processPendingChanges(target: 'sheet' | 'db'): Promise<number> {
-        const key = target === 'sheet' ? REDIS_KEYS.PENDING_TO_SHEET : REDIS_KEYS.PENDING_TO_DB;
+    private async processPendingChanges(state: MappingState, target: PendingTarget): Promise<number> {
         let processed = 0;
 
         try {
-            const length = await redisClient.llen(key);
-            if (length === 0) return 0;
+            const items = await state.pending[target].entries();
+            if (items.length === 0) return 0;
 
-            console.log(`\n🔄 Processing ${length} pending changes to ${target}...`);
+            console.log(`\n🔄 [${state.scope}] Processing ${items.length} pending changes to ${target}...`);
 
-            while (true) {
-                const item = await redisClient.lpop(key);
-                if (!item) break;
-
-                const change = JSON.parse(item);
-                console.log(`   📤 Replaying: ${change.col}${change.row} = "${change.value}" (queued at ${new Date(change.timestamp).toLocaleTimeString()})`);
-                
-                try {
-                    if (target === 'sheet') {
-                        await this.pushSingleCellToSheet(change.row, change.col, change.value);
-                    } else {
-                        await this.pushSingleCellToDb(change.row, change.col, change.value, change.source);
-                    }
-                    processed++;
-                    console.log(`   ✅ Replayed ${change.col}${change.row} to ${target}`);
-                } catch (error) {
-                    // Re-queue failed changes
-                    await redisClient.rpush(key, item);
-                    console.error(`❌ Failed to process pending change, re-queued:`, error);
-                    break; // Stop processing if we hit an error
-                }
+            // Entries that can't even be read go straight to the dead-letter list
+            const readable = items.filter(item => item.entry);
+            for (const item of items.filter(item => !item.entry)) {
+                await state.pending[target].fail(item, new Error('Unreadable entry'));
+                console.error(`   ☠️ [${state.scope}] Unreadable pending change for ${item.field} moved to the dead-letter list`);
             }
 
+            processed = target === 'sheet'
+                ? await this.replayToSheet(state, readable)
+                : await this.replayToDb(state, readable);
+
             if (processed > 0) {
                 console.log(`✅ Processed ${processed} pending changes to ${target}`);
             }
@@ -224,34 +670,140 @@ export class CDCMonitor {
     }
 
     /**
-     * Push a single cell to Google Sheet
+     * Replay queued sheet changes in one batchUpdate. If the batch is refused for
+     * anything but connectivity, the cells are retried one by one so a single bad
+     * one can't hold back the rest.
      */
-    private async pushSingleCellToSheet(row: number, col: string, value: string): Promise<void> {
-        const range = `Sheet1!${col}${row}`;
-        await this.sheets.spreadsheets.values.update({
-            spreadsheetId: SHEET_ID,
-            range,
-            valueInputOption: 'RAW',
-            requestBody: { values: [[value]] }
-        });
+    private async replayToSheet(state: MappingState, queued: PendingItem[]): Promise<number> {
+        // The sheet may have moved on while the change waited: a cell held by a
+        // conflict, already showing the value, or now holding a formula the value
+        // would replace is settled without writing it
+        const items: PendingItem[] = [];
+        for (const item of queued) {
+            const { change } = item.entry!;
+            const held = state.conflicts.has(item.field)
+                || sheetShows(state.lastSnapshot.get(item.field) ?? '', state.formulas.get(item.field), change.value, change.typed)
+                || (state.formulas.has(item.field) && !change.typed?.formula);
+            if (!held) {
+                items.push(item);
+                continue;
+            }
+            await state.pending.sheet.settle(item);
+            console.log(`   ⏭️ Dropped queued ${change.col}${change.row} = "${change.value}": the sheet cell has a conflict, a formula or the value already`);
+        }
+        if (items.length === 0) return 0;
+        const changes = items.map(item => item.entry!.change);
+
+        // Out of quota: the changes stay queued for the next replay
+        if (!(await this.spendQuota('push'))) return 0;
+
+        try {
+            await this.provider.writeCells(this.sheetId, changes.map(change => ({
+                sheetName: state.mapping.sheetName,
+                cell: `${change.col}${change.row}`,
+                value: sheetInput(change.value, change.typed),
+            })));
+        } catch (error: any) {
+            if (this.isSheetOfflineError(error)) {
+                if (this.sheetOnline) {
+                    console.warn(`⚠️ Google Sheets went offline while replaying pending changes: ${error.message || error}`);
+                    this.sheetOnline = false;
+                    this.lastSheetError = error.message || 'Unknown error';
+                }
+                return 0;
+            }
+            if (items.length > 1) {
+                let processed = 0;
+                for (const item of items) {
+                    if (!this.sheetOnline) break;
+                    processed += await this.replayToSheet(state, [item]);
+                }
+                return processed;
+            }
+            await this.failPendingChange(state, 'sheet', items[0], error);
+            return 0;
+        }
+
+        for (const item of items) {
+            const change = item.entry!.change;
+            this.notePushed(state, change);
+            await state.pending.sheet.settle(item);
+            console.log(`   📤 Replayed ${change.col}${change.row} = "${change.value}" to sheet (queued at ${new Date(item.entry!.queuedAt).toLocaleTimeString()})`);
+        }
+        await state.store.markSynced(changes.filter(c => c.value !== '')).catch(() => {});
+        state.lastSyncToSheetAt = Date.now();
+        return items.length;
     }
 
     /**
-     * Push a single cell to DB
+     * Replay queued DB writes cell by cell, stopping if the DB goes away again
      */
-    private async pushSingleCellToDb(row: number, col: string, value: string, source: string): Promise<void> {
-        if (value === '') {
-            await pool.query('DELETE FROM users WHERE row_num = ? AND col_name = ?', [row, col]);
+    private async replayToDb(state: MappingState, items: PendingItem[]): Promise<number> {
+        let processed = 0;
+        for (const item of items) {
+            const { change, queuedAt } = item.entry!;
+            try {
+                await this.pushSingleCellToDb(state, change.row, change.col, change.value, change.source);
+            } catch (error: any) {
+                if (this.isDbOfflineError(error)) {
+                    this.markDbOffline(error);
+                    break;
+                }
+                await this.failPendingChange(state, 'db', item, error);
+                continue;
+            }
+            await state.pending.db.settle(item);
+            processed++;
+            console.log(`   📤 Replayed ${change.col}${change.row} = "${change.value}" to DB (queued at ${new Date(queuedAt).toLocaleTimeString()})`);
+        }
+        return processed;
+    }
+
+    private async failPendingChange(state: MappingState, target: PendingTarget, item: PendingItem, error: any) {
+        const { change, attempts } = item.entry!;
+        const dead = await state.pending[target].fail(item, error).catch(() => false);
+        if (dead) {
+            console.error(`   ☠️ [${state.scope}] ${change.col}${change.row} failed ${attempts + 1} times, moved to the ${target} dead-letter list:`, error.message || error);
         } else {
-            await pool.query(
-                `INSERT INTO users (row_num, col_name, cell_value, last_modified_by)
-                 VALUES (?, ?, ?, ?)
-                 ON DUPLICATE KEY UPDATE cell_value = VALUES(cell_value), last_modified_by = VALUES(last_modified_by)`,
-                [row, col, value, source]
-            );
+            console.error(`   ❌ [${state.scope}] Failed to replay ${change.col}${change.row} to ${target}, will retry:`, error.message || error);
         }
     }
 
+    /**
+     * Push a single cell to DB. Queued DB changes all come from the sheet.
+     */
+    private async pushSingleCellToDb(state: MappingState, row: number, col: string, value: string, source: string): Promise<void> {
+        await this.writeFromSheet(state, row, col, value, source);
+    }
+
+    /**
+     * A sheet value with the type the last fetch saw behind it, if it still matches
+     */
+    private sheetCellInput(state: MappingState, row: number, col: string, value: string): CellInput {
+        const typed = state.sheetValues.get(`${row}:${col}`);
+        return typed && typed.display === value ? typed : value;
+    }
+
+    /**
+     * Write a sheet edit unless the stored cell changed since the sheet last saw
+     * it, in which case it is recorded as a conflict. Returns whether it was written.
+     */
+    private async writeFromSheet(state: MappingState, row: number, col: string, value: string, source: string): Promise<boolean> {
+        const outcome = await state.store.writeCell(row, col, this.sheetCellInput(state, row, col, value), source, 'sheet');
+        if (outcome.applied) return true;
+
+        await this.recordConflict(state.mapping.id, {
+            row,
+            col,
+            side: 'sheet',
+            value,
+            source,
+            baseVersion: outcome.current.syncedVersion,
+            current: outcome.current,
+        });
+        return false;
+    }
+
     /**
      * Check and update connectivity status
      */
@@ -264,7 +816,7 @@ export class CDCMonitor {
                 this.dbOnline = true;
                 this.lastDbError = '';
                 // Process pending DB changes
-                await this.processPendingChanges('db');
+                await this.processAllPendingChanges('db');
             }
         } catch (error: any) {
             if (this.dbOnline) {
@@ -281,7 +833,10 @@ export class CDCMonitor {
     /**
      * Get current connectivity and cache status (for API endpoint)
      */
-    getStatus(): {
+    async getStatus(): Promise<{
+        spreadsheetKey: string;
+        sheetId: string;
+        provider: SpreadsheetProvider['kind'];
         sheetOnline: boolean;
         dbOnline: boolean;
         lastSheetError: string;
@@ -289,61 +844,127 @@ export class CDCMonitor {
         snapshotSize: number;
         rateLimited: boolean;
         rateLimitBackoffMs: number;
-    } {
+        leading: boolean;
+        pollIntervalMs: number;
+        webhookActive: boolean;
+        quota: { used: number; limit: number; resetsInMs: number };
+        mappings: MappingStatus[];
+    }> {
+        const mappings: MappingStatus[] = [];
+        for (const state of this.states.values()) {
+            const [pendingToSheet, pendingToDb, deadLettersToSheet, deadLettersToDb] = await Promise.all([
+                state.pending.sheet.size().catch(() => 0),
+                state.pending.db.size().catch(() => 0),
+                state.pending.sheet.deadLetterCount().catch(() => 0),
+                state.pending.db.deadLetterCount().catch(() => 0),
+            ]);
+            mappings.push({
+                id: state.mapping.id,
+                sheetName: state.mapping.sheetName,
+                range: state.mapping.range ?? 'auto',
+                usedRange: state.usedRange,
+                table: state.mapping.table,
+                snapshotSize: state.lastSnapshot.size,
+                pendingToSheet,
+                pendingToDb,
+                deadLettersToSheet,
+                deadLettersToDb,
+                lastChangeDetectedAt: state.lastChangeDetectedAt,
+                lastSyncToDbAt: state.lastSyncToDbAt,
+                lastSyncToSheetAt: state.lastSyncToSheetAt,
+                watermark: state.watermark ? state.watermark.toISOString() : null,
+                lastFullSyncAt: state.lastFullSyncAt,
+                openConflicts: state.conflicts.size,
+            });
+        }
+
         return {
+            spreadsheetKey: this.key,
+            sheetId: this.sheetId,
+            provider: this.provider.kind,
             sheetOnline: this.sheetOnline,
             dbOnline: this.dbOnline,
             lastSheetError: this.lastSheetError,
             lastDbError: this.lastDbError,
-            snapshotSize: this.lastSnapshot.size,
+            snapshotSize: mappings.reduce((sum, m) => sum + m.snapshotSize, 0),
             rateLimited: Date.now() < this.rateLimitedUntil,
-            rateLimitBackoffMs: this.rateLimitBackoffMs
+            rateLimitBackoffMs: this.rateLimitBackoffMs,
+            leading: this.leading,
+            pollIntervalMs: this.pollInterval,
+            webhookActive: this.webhookActive(),
+            quota: await quotaBudget.usage(),
+            mappings,
         };
     }
 
     /**
-     * Get cached data (for offline reads)
+     * Get cached data (for offline reads). Defaults to the first mapping.
      */
-    getCachedSnapshot(): Map<string, string> {
-        return new Map(this.lastSnapshot);
+    getCachedSnapshot(mappingId?: string): Map<string, string> {
+        const state = this.selectStates(mappingId ?? this.registry.getDefault().id)[0];
+        return new Map(state.lastSnapshot);
     }
 
     private async loadInitialSnapshot() {
-        const data = await this.fetchSheetData();
-        if (!data) {
+        const states = Array.from(this.states.values());
+        const fetched = await this.fetchSheetData(states, 'push');
+        if (!fetched) {
             console.warn('⚠️ Could not fetch initial sheet data, using cached snapshot');
             return;
         }
 
-        for (const [key, value] of data.entries()) {
-            this.lastSnapshot.set(key, value);
-        }
-
-        // Save to Redis for offline resilience
-        await this.saveSnapshotToRedis(data);
+        for (const state of states) {
+            const data = fetched.get(state.mapping.id)!;
+            if (state.snapshotVersion > 0) {
+                // A previous leader's snapshot: only what changed since it was taken is new
+                await this.applySheetChanges(state, data);
+                console.log(`📊 [${state.scope}] Resumed from shared snapshot v${state.snapshotVersion}: ${data.size} cells`);
+            } else {
+                for (const [key, value] of data.entries()) {
+                    state.lastSnapshot.set(key, value);
+                }
+                state.formulas = formulasOf(state.sheetValues);
+                state.snapshotIds = copyIds(state.dimensionIds);
 
-        await this.syncToDatabase(data);
-        console.log(`📊 Initial snapshot loaded: ${data.size} cells`);
+                await this.syncToDatabase(state, data);
+                console.log(`📊 [${state.scope}] Initial snapshot loaded: ${data.size} cells`);
+            }
+            await this.saveSnapshotToRedis(state);
+        }
+        await this.stampDimensionIds(states);
     }
 
     /**
-     * Fetches data from the Google Sheets API with rate-limit protection.
+     * Fetches data for the given mappings from the spreadsheet provider with rate-limit protection.
+     * All ranges are read in one call so adding tabs doesn't multiply quota usage.
+     * The displayed strings are returned; the typed values (with formulas) are kept in
+     * `sheetValues` and the row/column ids in `dimensionIds`.
+     * Mappings without a range ask for the bare tab.
      * Uses exponential backoff when rate-limited to avoid flooding the API.
      * Falls back to cached data when offline.
+     * Polls are skipped once their share of the quota budget is spent.
      */
-    private async fetchSheetData(): Promise<Map<string, string> | null> {
+    private async fetchSheetData(states: MappingState[], use: QuotaUse = 'poll'): Promise<Map<string, Map<string, string>> | null> {
         // If we're in a rate-limit backoff window, skip this fetch
         const now = Date.now();
         if (now < this.rateLimitedUntil) {
             // Silently skip - don't log every time
             return null;
         }
+        if (!(await this.spendQuota(use))) {
+            if (use === 'poll' && !this.quotaStarved) {
+                console.log(`⏳ [${this.key}] Sheets quota budget for polls is spent, skipping polls until the next minute`);
+                this.quotaStarved = true;
+            }
+            return null;
+        }
+        this.quotaStarved = false;
 
         try {
-            const response = await this.sheets.spreadsheets.values.get({
-                spreadsheetId: SHEET_ID,
-                range: SHEET_RANGE,
-            });
+            const grids = await this.provider.readGrids(
+                this.sheetId,
+                states.map(s => ({ sheetName: s.mapping.sheetName, range: s.mapping.range }))
+            );
 
             // Success - reset backoff and mark online
             if (this.consecutiveRateLimits > 0) {
@@ -358,25 +979,35 @@ export class CDCMonitor {
                 this.sheetOnline = true;
                 this.lastSheetError = '';
                 // Process any pending changes that were queued while offline
-                await this.processPendingChanges('sheet');
+                await this.processAllPendingChanges('sheet');
             }
 
-            const rows = response.data.values || [];
-            const cellMap = new Map<string, string>();
+            const result = new Map<string, Map<string, string>>();
 
-            rows.forEach((row: string[], rowIndex: number) => {
-                row.forEach((value: string, colIndex: number) => {
-                    const colName = String.fromCharCode(65 + colIndex);
-                    const rowNum = rowIndex + 1;
-                    const key = `${rowNum}:${colName}`;
-                    cellMap.set(key, value || '');
-                });
-            });
+            states.forEach((state, i) => {
+                const grid = grids[i];
+                const cellMap = new Map<string, string>();
+                let lastRow = grid.startRow;
+                let lastCol = grid.startCol;
+                for (const [key, typed] of grid.cells.entries()) {
+                    const [rowStr, col] = key.split(':');
+                    cellMap.set(key, typed.display);
+                    lastRow = Math.max(lastRow, parseInt(rowStr));
+                    lastCol = Math.max(lastCol, columnToIndex(col));
+                }
 
-            // Save to Redis for offline resilience
-            await this.saveSnapshotToRedis(cellMap);
+                state.usedRange = state.mapping.range
+                    ?? `${indexToColumn(grid.startCol)}${grid.startRow}:${indexToColumn(lastCol)}${lastRow}`;
+                state.sheetValues = grid.cells;
+                state.dimensionIds = {
+                    rows: dimensionIds(grid.rowMetadata, ROW_ID_KEY),
+                    cols: dimensionIds(grid.colMetadata, COL_ID_KEY),
+                };
+                state.sheetGid = grid.sheetGid;
+                result.set(state.mapping.id, cellMap);
+            });
 
-            return cellMap;
+            return result;
         } catch (error: any) {
             if (error.code === 429 || error.status === 429) {
                 this.consecutiveRateLimits++;
@@ -402,7 +1033,34 @@ export class CDCMonitor {
         }
     }
 
-    private async syncToDatabase(data: Map<string, string>) {
+    /**
+     * Take spreadsheet API requests from the per-minute budget shared with every
+     * monitor and instance. Polls get false when their share is spent; pushes
+     * wait for budget, and get false if it doesn't free up in time; the caller
+     * then holds the push back. Only the Google provider has a quota.
+     */
+    private async spendQuota(use: QuotaUse, requests = 1): Promise<boolean> {
+        if (this.provider.kind !== 'google') return true;
+        if (use === 'poll') return quotaBudget.take('poll', requests);
+        if (!(await quotaBudget.waitFor(requests))) {
+            console.warn(`⚠️ [${this.key}] Waited too long for Sheets quota budget, deferring the push`);
+            return false;
+        }
+        return true;
+    }
+
+    private async syncToDatabase(state: MappingState, data: Map<string, string>) {
+        if (state.store instanceof RowTableStore) {
+            const changes = Array.from(data.entries())
+                .filter(([, value]) => value.trim() !== '')
+                .map(([key, value]) => {
+                    const [rowStr, col] = key.split(':');
+                    return { row: parseInt(rowStr), col, oldValue: '', newValue: value };
+                });
+            await this.applyRowChanges(state, state.store, changes, data);
+            return;
+        }
+
         for (const [key, value] of data.entries()) {
             const [rowStr, col] = key.split(':');
             const row = parseInt(rowStr);
@@ -410,21 +1068,14 @@ export class CDCMonitor {
             if (!value || value.trim() === '') continue;
 
             try {
-                await pool.query(
-                    `INSERT INTO users (row_num, col_name, cell_value, last_modified_by)
-                     VALUES (?, ?, ?, 'sheet')
-                     ON DUPLICATE KEY UPDATE 
-                        cell_value = VALUES(cell_value),
-                        last_modified_by = 'sheet'`,
-                    [row, col, value]
-                );
+                await this.writeFromSheet(state, row, col, value, 'sheet');
                 
                 // Mark DB as online if it was offline
                 if (!this.dbOnline) {
                     console.log('✅ Database connectivity restored');
                     this.dbOnline = true;
                     this.lastDbError = '';
-                    await this.processPendingChanges('db');
+                    await this.processAllPendingChanges('db');
                 }
             } catch (error: any) {
                 // If DB is offline, queue the change
@@ -434,7 +1085,7 @@ export class CDCMonitor {
                         this.dbOnline = false;
                         this.lastDbError = error.message;
                     }
-                    await this.queuePendingChange('db', { row, col, value, source: 'sheet' });
+                    await this.queuePendingChange(state, 'db', { row, col, value, source: 'sheet' });
                 } else {
                     console.error(`❌ Failed to sync cell ${col}${row}:`, error);
                 }
@@ -442,6 +1093,17 @@ export class CDCMonitor {
         }
     }
 
+    /**
+     * Check if a spreadsheet API error means it can't be reached right now
+     * (network, rate limit or server side) rather than that the request is bad
+     */
+    private isSheetOfflineError(error: any): boolean {
+        const status = error.status ?? error.code;
+        if (status === 429 || (typeof status === 'number' && status >= 500)) return true;
+        return ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN'].includes(error.code)
+            || error.syscall !== undefined;
+    }
+
     /**
      * Check if an error indicates DB is offline
      */
@@ -465,127 +1127,95 @@ export class CDCMonitor {
         if (this.isRunning) return;
         this.isRunning = true;
 
-        console.log(`🔄 CDC Monitor started (polling every ${POLL_INTERVAL}ms)`);
-
-        this.intervalId = setInterval(async () => {
-            await this.pollForChanges();
-        }, POLL_INTERVAL);
+        console.log(`🔄 CDC Monitor [${this.key}] started (polling every ${POLL_INTERVAL}-${POLL_IDLE_INTERVAL}ms, faster while the sheet is edited)`);
+        this.scheduleNextPoll();
     }
 
     stop() {
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
         }
         this.isRunning = false;
-        console.log('⏹️ CDC Monitor stopped');
+        console.log(`⏹️ CDC Monitor [${this.key}] stopped`);
+    }
+
+    /**
+     * Called for every webhook from this spreadsheet's Apps Script trigger.
+     * Polls pause while it is delivering edits and resume quickly once it stops.
+     */
+    noteWebhook() {
+        this.lastWebhookAt = Date.now();
+        this.pollInterval = POLL_INTERVAL;
+    }
+
+    private webhookActive(): boolean {
+        return Date.now() - this.lastWebhookAt < WEBHOOK_QUIET_PERIOD;
+    }
+
+    /**
+     * Queue the next poll after the current interval. While the webhook is
+     * active the poll waits for it to go quiet, but never longer than the idle
+     * interval, so edits it misses are still picked up.
+     */
+    private scheduleNextPoll() {
+        if (!this.isRunning || this.pollTimer) return;
+
+        let wait = this.pollInterval;
+        if (this.webhookActive()) {
+            const untilQuiet = this.lastWebhookAt + WEBHOOK_QUIET_PERIOD - Date.now();
+            wait = Math.min(Math.max(wait, untilQuiet), this.lastPollAt + POLL_IDLE_INTERVAL - Date.now());
+        }
+
+        this.pollTimer = setTimeout(async () => {
+            this.pollTimer = null;
+            // Webhooks that arrived while waiting push the poll back again
+            if (!this.webhookActive() || Date.now() - this.lastPollAt >= POLL_IDLE_INTERVAL) {
+                await this.pollForChanges();
+            }
+            this.scheduleNextPoll();
+        }, Math.max(0, wait));
     }
 
-    private async pollForChanges() {
-        // Prevent overlapping polls (if a fetch is slow and the next interval fires)
+    /**
+     * One poll cycle. Runs on its own timer; the e2e harness drives it directly.
+     * A poll that finds changes brings the interval back to POLL_INTERVAL, a
+     * quiet one stretches it towards POLL_IDLE_INTERVAL.
+     */
+    async pollForChanges() {
+        // Prevent overlapping polls (if a fetch is slow and the next timer fires)
         if (this.isPollInProgress) return;
         this.isPollInProgress = true;
+        this.lastPollAt = Date.now();
 
         try {
             // Check DB connectivity periodically
             await this.checkConnectivity();
 
-            const currentData = await this.fetchSheetData();
-            if (!currentData) return;
+            const states = Array.from(this.states.values());
+            const fetched = await this.fetchSheetData(states);
+            if (!fetched) return;
 
-            const changes: { row: number; col: string; oldValue: string; newValue: string }[] = [];
-
-            for (const [key, newValue] of currentData.entries()) {
-                const oldValue = this.lastSnapshot.get(key) || '';
-                if (oldValue !== newValue) {
-                    const [rowStr, col] = key.split(':');
-                    changes.push({
-                        row: parseInt(rowStr),
-                        col,
-                        oldValue,
-                        newValue,
-                    });
-                }
+            const changed: MappingState[] = [];
+            for (const state of states) {
+                if (await this.applySheetChanges(state, fetched.get(state.mapping.id)!)) changed.push(state);
             }
-
-            for (const [key, oldValue] of this.lastSnapshot.entries()) {
-                if (!currentData.has(key) && oldValue !== '') {
-                    const [rowStr, col] = key.split(':');
-                    changes.push({
-                        row: parseInt(rowStr),
-                        col,
-                        oldValue,
-                        newValue: '',
-                    });
-                }
+            this.pollInterval = changed.length > 0
+                ? POLL_INTERVAL
+                : Math.min(POLL_IDLE_INTERVAL, Math.round(this.pollInterval * POLL_BACKOFF));
+            await this.stampDimensionIds(states);
+            for (const state of changed) {
+                await this.saveSnapshotToRedis(state);
             }
 
-            if (changes.length > 0) {
-                const now = Date.now();
-                const timeSinceLastChange = this.lastChangeDetectedAt > 0 
-                    ? ` (Δ${now - this.lastChangeDetectedAt}ms since last detection)` 
-                    : ' (first detection)';
-                
-                console.log(`\n📝 Detected ${changes.length} change(s) from Google Sheet${timeSinceLastChange}:`);
-
-                for (const change of changes) {
-                    console.log(`   ${change.col}${change.row}: "${change.oldValue}" → "${change.newValue}"`);
-
-                    const ignoreKey = `ignore:${change.row}:${change.col}`;
-                    await redisClient.set(ignoreKey, '1', 'EX', 10).catch(() => {});
-
-                    try {
-                        if (change.newValue === '') {
-                            await pool.query(
-                                'DELETE FROM users WHERE row_num = ? AND col_name = ?',
-                                [change.row, change.col]
-                            );
-                        } else {
-                            await pool.query(
-                                `INSERT INTO users (row_num, col_name, cell_value, last_modified_by)
-                                 VALUES (?, ?, ?, 'sheet')
-                                 ON DUPLICATE KEY UPDATE cell_value = VALUES(cell_value), last_modified_by = 'sheet'`,
-                                [change.row, change.col, change.newValue]
-                            );
-                        }
-                        
-                        const now = Date.now();
-                        const timeSinceLastSync = this.lastSyncToDbAt > 0 
-                            ? ` (Δ${now - this.lastSyncToDbAt}ms since last sync to DB)` 
-                            : '';
-                        console.log(`   ✅ Synced ${change.col}${change.row} to database${timeSinceLastSync}`);
-                        this.lastSyncToDbAt = now;
-                        
-                        // Mark DB as online
-                        if (!this.dbOnline) {
-                            this.dbOnline = true;
-                            this.lastDbError = '';
-                            console.log('✅ Database connectivity restored');
-                        }
-                    } catch (error: any) {
-                        // If DB is offline, queue the change
-                        if (this.isDbOfflineError(error)) {
-                            if (this.dbOnline) {
-                                console.warn('⚠️ Database is offline:', error.message);
-                                this.dbOnline = false;
-                                this.lastDbError = error.message;
-                            }
-                            await this.queuePendingChange('db', {
-                                row: change.row,
-                                col: change.col,
-                                value: change.newValue,
-                                source: 'sheet'
-                            });
-                        } else {
-                            console.error(`   ❌ Failed to sync ${change.col}${change.row}:`, error);
-                        }
-                    }
-                }
-                
-                this.lastChangeDetectedAt = now;
+            // Periodic full reconciliation catches whatever the incremental passes missed
+            const due = this.dbOnline && this.sheetOnline
+                ? states.filter(s => Date.now() - s.lastFullSyncAt >= FULL_SYNC_INTERVAL)
+                : [];
+            for (const state of due) {
+                state.dirty = true;
+                await this.syncFromDatabase(state.mapping.id);
             }
-
-            this.lastSnapshot = currentData;
         } catch (error: any) {
             if (error.code === 'ECONNRESET' || error.syscall === 'read') {
                 if (this.sheetOnline) {
@@ -601,8 +1231,357 @@ export class CDCMonitor {
         }
     }
 
-    debouncedSyncFromDatabase() {
-        this.dbDirtySinceLastSync = true;
+    /**
+     * Diff a freshly fetched tab against its snapshot and write the changes to its table.
+     * Returns whether anything changed.
+     */
+    private async applySheetChanges(state: MappingState, currentData: Map<string, string>): Promise<boolean> {
+        const { table } = state.mapping;
+        await this.applyStructureChanges(state, currentData);
+        const changes: { row: number; col: string; oldValue: string; newValue: string }[] = [];
+
+        for (const [key, newValue] of currentData.entries()) {
+            const oldValue = state.lastSnapshot.get(key) || '';
+            // An edited formula may still compute the same value
+            const formulaEdited = (state.formulas.get(key) ?? '') !== (state.sheetValues.get(key)?.formula ?? '');
+            if (oldValue !== newValue || formulaEdited) {
+                const [rowStr, col] = key.split(':');
+                changes.push({
+                    row: parseInt(rowStr),
+                    col,
+                    oldValue,
+                    newValue,
+                });
+            }
+        }
+
+        for (const [key, oldValue] of state.lastSnapshot.entries()) {
+            if (!currentData.has(key) && oldValue !== '') {
+                const [rowStr, col] = key.split(':');
+                changes.push({
+                    row: parseInt(rowStr),
+                    col,
+                    oldValue,
+                    newValue: '',
+                });
+            }
+        }
+
+        if (changes.length > 0) {
+            const now = Date.now();
+            const timeSinceLastChange = state.lastChangeDetectedAt > 0 
+                ? ` (Δ${now - state.lastChangeDetectedAt}ms since last detection)` 
+                : ' (first detection)';
+            
+            console.log(`\n📝 [${state.scope}] Detected ${changes.length} change(s) from Google Sheet${timeSinceLastChange}:`);
+
+            const rowStore = state.store instanceof RowTableStore ? state.store : null;
+
+            for (const change of changes) {
+                console.log(`   ${change.col}${change.row}: "${change.oldValue}" → "${change.newValue}"`);
+
+                await redisClient.set(ignoreKey(state.scope, change.row, change.col), '1', 'EX', 10).catch(() => {});
+
+                // Rows mode writes whole rows, after every cell has its ignore key
+                if (rowStore) continue;
+
+                try {
+                    const written = await this.writeFromSheet(state, change.row, change.col, change.newValue, 'sheet');
+                    if (!written) continue;
+
+                    const now = Date.now();
+                    const timeSinceLastSync = state.lastSyncToDbAt > 0 
+                        ? ` (Δ${now - state.lastSyncToDbAt}ms since last sync to DB)` 
+                        : '';
+                    console.log(`   ✅ Synced ${change.col}${change.row} to ${table}${timeSinceLastSync}`);
+                    state.lastSyncToDbAt = now;
+                    
+                    // Mark DB as online
+                    if (!this.dbOnline) {
+                        this.dbOnline = true;
+                        this.lastDbError = '';
+                        console.log('✅ Database connectivity restored');
+                    }
+                } catch (error: any) {
+                    // If DB is offline, queue the change
+                    if (this.isDbOfflineError(error)) {
+                        if (this.dbOnline) {
+                            console.warn('⚠️ Database is offline:', error.message);
+                            this.dbOnline = false;
+                            this.lastDbError = error.message;
+                        }
+                        await this.queuePendingChange(state, 'db', {
+                            row: change.row,
+                            col: change.col,
+                            value: change.newValue,
+                            source: 'sheet'
+                        });
+                    } else {
+                        console.error(`   ❌ Failed to sync ${change.col}${change.row}:`, error);
+                    }
+                }
+            }
+            
+            if (rowStore) {
+                await this.applyRowChanges(state, rowStore, changes, currentData);
+            }
+
+            state.lastChangeDetectedAt = now;
+        }
+
+        state.lastSnapshot = currentData;
+        state.formulas = formulasOf(state.sheetValues);
+        state.snapshotIds = copyIds(state.dimensionIds);
+        return changes.length > 0;
+    }
+
+    /**
+     * Rows or columns inserted, deleted or moved since the snapshot are applied
+     * to the table as one structural operation each, and the snapshot is moved
+     * to match, so the cell diff that follows only sees real edits. Columns go
+     * first so row fingerprints compare like with like.
+     */
+    private async applyStructureChanges(state: MappingState, currentData: Map<string, string>) {
+        if (state.lastSnapshot.size === 0) return;
+
+        const cols = idChange(state.snapshotIds.cols, state.dimensionIds.cols);
+        if (cols) await this.applyStructure(state, 'col', cols);
+
+        let rows = idChange(state.snapshotIds.rows, state.dimensionIds.rows);
+        if (!rows) {
+            const store = state.store;
+            const skip = (row: number) => store instanceof RowTableStore && store.isHeaderRow(row);
+            rows = sortChange(rowFingerprints(state.lastSnapshot, skip), rowFingerprints(currentData, skip));
+        }
+        if (rows) await this.applyStructure(state, 'row', rows);
+    }
+
+    private async applyStructure(state: MappingState, axis: Axis, change: PositionChange) {
+        const positionOf = (key: string) => {
+            const [rowStr, col] = key.split(':');
+            return axis === 'row' ? parseInt(rowStr) : columnToIndex(col);
+        };
+        const highest = [...state.lastSnapshot.keys()].reduce(
+            (max, key) => Math.max(max, positionOf(key)),
+            Math.max(lowestPosition(axis), ...change.moves.keys(), ...change.deleted)
+        );
+
+        let plan: Map<number, number | null>;
+        try {
+            const positions = Array.from({ length: highest - lowestPosition(axis) + 1 }, (_, i) => lowestPosition(axis) + i);
+            plan = planMoves(positions, change, axis);
+            const events = structureEvents(axis, change, plan);
+            // Cell writes in the shifted rows or columns wait until they've moved
+            const lock = structureLock(axis, plan);
+            const owner = `structure:${randomUUID().slice(0, 8)}`;
+            if (lock && !await lockService.acquire(state.scope, lock, owner, STRUCTURE_LOCK_TTL)) {
+                throw new Error(`${lockLabel(lock)} is locked by another writer`);
+            }
+            try {
+                await state.store.applyStructure({ ...change, axis, events });
+            } finally {
+                if (lock) await lockService.release(state.scope, lock, owner);
+            }
+            for (const event of events) {
+                console.log(`🧱 [${state.scope}] ${event.metadata!.action} ${event.metadata!.affectedRange}`);
+            }
+        } catch (error: any) {
+            if (this.isDbOfflineError(error)) this.markDbOffline(error);
+            console.warn(`⚠️ [${state.scope}] Could not apply ${axis} structure change, syncing it cell by cell:`, error.message || error);
+            return;
+        }
+
+        const moveKey = (key: string): string | null => {
+            const [rowStr, col] = key.split(':');
+            const target = plan.get(positionOf(key));
+            if (target === null || target === undefined) return null;
+            return axis === 'row' ? `${target}:${col}` : `${rowStr}:${positionLabel('col', target)}`;
+        };
+        const remap = (values: Map<string, string>) => {
+            const moved = new Map<string, string>();
+            for (const [key, value] of values.entries()) {
+                const target = moveKey(key);
+                if (target !== null) moved.set(target, value);
+            }
+            return moved;
+        };
+        state.lastSnapshot = remap(state.lastSnapshot);
+        state.formulas = remap(state.formulas);
+        state.snapshotIds[axis === 'row' ? 'rows' : 'cols'] = new Map(state.dimensionIds[axis === 'row' ? 'rows' : 'cols']);
+
+        // Deletes the operation made aren't for the sheet, and cells it moved are
+        // reconciled by a full pass rather than pushed one by one
+        const marker = await state.store.changeMarker().catch(() => null);
+        if (marker) state.tombstoneId = Math.max(state.tombstoneId, marker.tombstoneId);
+        state.lastFullSyncAt = 0;
+        state.dirty = true;
+
+        state.conflicts.clear();
+        await this.loadOpenConflicts().catch(() => {});
+    }
+
+    /**
+     * Give rows and columns that hold data an id, so a later insert, delete or
+     * move can be told apart from edits. Done once per tab for all its mappings.
+     */
+    private async stampDimensionIds(states: MappingState[]) {
+        const tabs = new Map<string, MappingState[]>();
+        for (const state of states) {
+            if (state.sheetGid === null) continue;
+            const tab = tabs.get(state.mapping.sheetName) ?? [];
+            tabs.set(state.mapping.sheetName, [...tab, state]);
+        }
+
+        for (const tabStates of tabs.values()) {
+            // Positions each mapping holds data at; only those would see an id in their range
+            const occupied = new Map<MappingState, { rows: Set<number>; cols: Set<number> }>();
+            const rows = new Set<number>();
+            const cols = new Set<number>();
+            for (const state of tabStates) {
+                const held = { rows: new Set<number>(), cols: new Set<number>() };
+                for (const key of state.lastSnapshot.keys()) {
+                    const [rowStr, col] = key.split(':');
+                    held.rows.add(parseInt(rowStr));
+                    held.cols.add(columnToIndex(col));
+                }
+                occupied.set(state, held);
+                for (const row of held.rows) if (!state.dimensionIds.rows.has(row)) rows.add(row);
+                for (const col of held.cols) if (!state.dimensionIds.cols.has(col)) cols.add(col);
+            }
+            const targets = [
+                ...Array.from(rows, position => ({ axis: 'row' as Axis, position })),
+                ...Array.from(cols, position => ({ axis: 'col' as Axis, position })),
+            ];
+            const sheetGid = tabStates[0].sheetGid;
+
+            for (let i = 0; i < targets.length; i += STAMP_BATCH_SIZE) {
+                const batch = targets.slice(i, i + STAMP_BATCH_SIZE);
+                // Ids can wait for a later poll when the budget is tight
+                if (!(await this.spendQuota('poll'))) break;
+                try {
+                    const ids = await this.provider.createDimensionMetadata(this.sheetId, batch.map(({ axis, position }) => ({
+                        sheetGid: sheetGid!,
+                        axis,
+                        position,
+                        key: axis === 'row' ? ROW_ID_KEY : COL_ID_KEY,
+                    })));
+
+                    ids.forEach((id, j) => {
+                        if (id === null) return;
+                        const { axis, position } = batch[j];
+                        const dimension = axis === 'row' ? 'rows' : 'cols';
+                        for (const state of tabStates) {
+                            if (!occupied.get(state)![dimension].has(position)) continue;
+                            state.dimensionIds[dimension].set(position, id);
+                            state.snapshotIds[dimension].set(position, id);
+                        }
+                    });
+                } catch (error: any) {
+                    console.warn(`⚠️ [${this.key}] Could not stamp row/column ids:`, error.message || error);
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * Rows mode: apply header edits as column adds/renames, then upsert every
+     * touched sheet row as one table row. A header edit rewrites all rows, since
+     * a newly mapped column may already hold data.
+     */
+    private async applyRowChanges(
+        state: MappingState,
+        store: RowTableStore,
+        changes: { row: number; col: string; newValue: string }[],
+        currentData: Map<string, string>
+    ) {
+        const headerChanges = changes.filter(c => store.isHeaderRow(c.row));
+        const rows = new Set(changes.filter(c => !store.isHeaderRow(c.row)).map(c => c.row));
+
+        try {
+            for (const change of headerChanges) {
+                await store.syncHeader(change.col, change.newValue);
+            }
+        } catch (error: any) {
+            if (!this.isDbOfflineError(error)) {
+                console.error(`   ❌ [${state.scope}] Failed to apply header change:`, error.message || error);
+            } else {
+                this.markDbOffline(error);
+                for (const change of changes) {
+                    await this.queuePendingChange(state, 'db', { row: change.row, col: change.col, value: change.newValue, source: 'sheet' });
+                }
+                return;
+            }
+        }
+
+        if (headerChanges.length > 0) {
+            for (const key of currentData.keys()) {
+                const row = parseInt(key.split(':')[0]);
+                if (!store.isHeaderRow(row)) rows.add(row);
+            }
+        }
+
+        for (const row of Array.from(rows).sort((a, b) => a - b)) {
+            const cells = new Map<string, CellInput>();
+            for (const [key, value] of currentData.entries()) {
+                const [rowStr, col] = key.split(':');
+                if (parseInt(rowStr) === row) cells.set(col, this.sheetCellInput(state, row, col, value));
+            }
+
+            try {
+                const outcome = await store.writeRow(row, cells, 'sheet', 'sheet');
+                if (!outcome.applied) {
+                    // One conflict per cell the sheet and the stored row disagree on
+                    const { values, ...current } = outcome.current;
+                    for (const [col, stored] of values.entries()) {
+                        const value = displayOf(cells.get(col));
+                        if (value === stored) continue;
+                        await this.recordConflict(state.mapping.id, {
+                            row,
+                            col,
+                            side: 'sheet',
+                            value,
+                            source: 'sheet',
+                            baseVersion: current.syncedVersion,
+                            current: { ...current, value: stored },
+                        });
+                    }
+                    continue;
+                }
+                console.log(`   ✅ Synced row ${row} to ${state.mapping.table}`);
+                state.lastSyncToDbAt = Date.now();
+            } catch (error: any) {
+                if (this.isDbOfflineError(error)) {
+                    this.markDbOffline(error);
+                    for (const change of changes.filter(c => c.row === row)) {
+                        await this.queuePendingChange(state, 'db', { row, col: change.col, value: change.newValue, source: 'sheet' });
+                    }
+                } else {
+                    console.error(`   ❌ Failed to sync row ${row}:`, error.message || error);
+                }
+            }
+        }
+    }
+
+    private markDbOffline(error: any) {
+        if (this.dbOnline) {
+            console.warn('⚠️ Database is offline:', error.message);
+            this.dbOnline = false;
+            this.lastDbError = error.message;
+        }
+    }
+
+    /**
+     * Mark a mapping (or all mappings) dirty and push DB → Sheet after the debounce window.
+     * A no-op while binlog capture is streaming: the write arrives as a row event instead.
+     */
+    debouncedSyncFromDatabase(mappingId?: string) {
+        if (this.binlogCapture) return;
+        this.scheduleSyncFromDatabase(mappingId);
+    }
+
+    private scheduleSyncFromDatabase(mappingId?: string) {
+        this.markDirty(mappingId);
         if (this.syncDebounceTimer) {
             clearTimeout(this.syncDebounceTimer);
         }
@@ -615,32 +1594,253 @@ export class CDCMonitor {
         }, this.SYNC_DEBOUNCE);
     }
 
-    async syncFromDatabase() {
-        if (!this.dbDirtySinceLastSync) {
+    /**
+     * Binlog path: queue the sheet cells one row event changed and push them in a
+     * short batch. Cells the sheet already shows, or that came from the sheet, are skipped.
+     */
+    applyBinlogChange(mappingId: string, before: Record<string, any> | null, after: Record<string, any> | null) {
+        const state = this.selectStates(mappingId)[0];
+        // The sheet already shows its own structural edits
+        if (isStructuralEvent(before, after)) return;
+        const cells = state.store.cellsFromRowEvent(before, after);
+        if (cells === null) {
+            // e.g. a rows-mode INSERT without row_num: let the full pass place it
+            this.scheduleSyncFromDatabase(mappingId);
+            return;
+        }
+
+        const alreadyShown: { row: number; col: string; version?: number }[] = [];
+        for (const cell of cells) {
+            const key = `${cell.row_num}:${cell.col_name}`;
+            if (cell.last_modified_by === 'sheet' || state.conflicts.has(key)) {
+                state.binlogQueue.delete(key);
+                continue;
+            }
+            if (sheetShows(state.lastSnapshot.get(key) ?? '', state.formulas.get(key), cell.cell_value, cell.typed)) {
+                state.binlogQueue.delete(key);
+                if (cell.cell_value !== '') alreadyShown.push({ row: cell.row_num, col: cell.col_name, version: cell.version });
+                continue;
+            }
+            state.binlogQueue.set(key, {
+                row: cell.row_num,
+                col: cell.col_name,
+                value: cell.cell_value,
+                source: cell.last_modified_by,
+                version: cell.version,
+                typed: cell.typed,
+            });
+        }
+        if (alreadyShown.length > 0) {
+            // The sheet already agrees, so the sheet's next edit isn't based on a stale version
+            state.store.markSynced(alreadyShown).catch(() => {});
+        }
+
+        if (state.binlogQueue.size > 0 && !this.binlogFlushTimer) {
+            this.binlogFlushTimer = setTimeout(() => {
+                this.binlogFlushTimer = null;
+                this.flushBinlogChanges().catch(err => console.error('❌ Binlog → Sheet flush failed:', err));
+            }, this.BINLOG_FLUSH_DELAY);
+        }
+    }
+
+    private async flushBinlogChanges() {
+        for (const state of this.states.values()) {
+            if (state.binlogQueue.size === 0) continue;
+            const cells = Array.from(state.binlogQueue.values());
+            state.binlogQueue.clear();
+            await this.pushCellsToSheet(state, cells, 'Binlog→Sheet');
+            await this.saveSnapshotToRedis(state);
+        }
+    }
+
+    /**
+     * Note a pushed cell in the snapshot so the next poll doesn't take it for a sheet edit
+     */
+    private notePushed(state: MappingState, cell: { row: number; col: string; value: string; typed?: TypedValue }) {
+        const key = `${cell.row}:${cell.col}`;
+        state.lastSnapshot.set(key, cell.value);
+        if (cell.typed?.formula) {
+            state.formulas.set(key, cell.typed.formula);
+        } else {
+            state.formulas.delete(key);
+        }
+    }
+
+    /**
+     * Push known cell changes in one batchUpdate, without re-reading the sheet.
+     * Queued as pending when the sheet is (or goes) offline. Returns false when
+     * the quota budget held the push back; a sync pass is scheduled to retry it.
+     */
+    private async pushCellsToSheet(state: MappingState, cells: SheetPush[], label: string): Promise<boolean> {
+        cells = cells.filter(c => !state.conflicts.has(`${c.row}:${c.col}`));
+        if (cells.length === 0) return true;
+
+        if (!this.sheetOnline) {
+            for (const { row, col, value, source, typed } of cells) {
+                await this.queuePendingChange(state, 'sheet', { row, col, value, source, typed });
+            }
+            return true;
+        }
+
+        if (!(await this.spendQuota('push'))) {
+            this.scheduleSyncFromDatabase(state.mapping.id);
+            return false;
+        }
+
+        try {
+            await this.provider.writeCells(this.sheetId, cells.map(cell => ({
+                sheetName: state.mapping.sheetName,
+                cell: `${cell.col}${cell.row}`,
+                value: sheetInput(cell.value, cell.typed),
+            })));
+
+            for (const cell of cells) {
+                this.notePushed(state, cell);
+                console.log(`   📤 [${state.scope}] ${label}: ${cell.col}${cell.row} = "${cell.value}"`);
+            }
+            await state.store.markSynced(cells.filter(c => c.value !== ''))
+                .catch(() => {}); // Ignore DB errors here, we already synced to sheet
+            state.lastSyncToSheetAt = Date.now();
+        } catch (error: any) {
+            if (this.sheetOnline) {
+                console.warn(`⚠️ Google Sheets went offline during ${label} sync: ${error.message || error}`);
+                this.sheetOnline = false;
+                this.lastSheetError = error.message || 'Unknown error';
+            }
+            for (const { row, col, value, source, typed } of cells) {
+                await this.queuePendingChange(state, 'sheet', { row, col, value, source, typed });
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Push DB changes to the sheet for every dirty mapping (or only `mappingId`).
+     * On a follower the push is handed to the leader over the cluster bus.
+     */
+    async syncFromDatabase(mappingId?: string) {
+        for (const state of this.selectStates(mappingId)) {
+            if (!state.dirty) continue;
+            state.dirty = false;
+            if (!this.leading) {
+                await clusterBus.publish({ type: 'sync', spreadsheetKey: this.key, mappingId: state.mapping.id });
+                continue;
+            }
+            await this.syncMappingFromDatabase(state);
+            await this.saveSnapshotToRedis(state);
+        }
+    }
+
+    /**
+     * Pick incremental or full for one mapping. A full pass runs first, every
+     * FULL_SYNC_INTERVAL, and whenever the DB is offline (it can serve from cache).
+     */
+    private async syncMappingFromDatabase(state: MappingState) {
+        const fullDue = state.watermark === null || Date.now() - state.lastFullSyncAt >= FULL_SYNC_INTERVAL;
+        if (!fullDue && this.dbOnline) {
+            await this.incrementalSyncFromDatabase(state);
+            return;
+        }
+
+        // Taken before the read so writes that land during the pass are seen next time
+        const marker = this.dbOnline ? await state.store.changeMarker().catch(() => null) : null;
+        const synced = await this.fullSyncFromDatabase(state);
+        if (synced && marker) {
+            state.watermark = marker.watermark;
+            state.tombstoneId = marker.tombstoneId;
+            state.lastFullSyncAt = Date.now();
+            await state.store.purgeDeletedCells(marker.tombstoneId).catch(() => {});
+        }
+    }
+
+    /**
+     * Only rows whose `updated_at` is at or past the watermark, plus tombstones,
+     * compared against the in-memory snapshot rather than a fresh sheet fetch
+     */
+    private async incrementalSyncFromDatabase(state: MappingState) {
+        let changed: { cells: CellRow[]; watermark: Date | null };
+        let deleted: { cells: { row: number; col: string }[]; lastId: number };
+        try {
+            // Overlap the window: updated_at only has second precision
+            const since = new Date(state.watermark!.getTime() - WATERMARK_OVERLAP_MS);
+            deleted = await state.store.readDeletedCells(state.tombstoneId);
+            changed = await state.store.readChangedCells(since);
+        } catch (error: any) {
+            if (!this.isDbOfflineError(error)) throw error;
+            this.markDbOffline(error);
+            state.dirty = true;
             return;
         }
-        this.dbDirtySinceLastSync = false;
+
+        const cells = new Map<string, SheetPush>();
+        for (const cell of deleted.cells) {
+            cells.set(`${cell.row}:${cell.col}`, { row: cell.row, col: cell.col, value: '', source: 'db_delete' });
+        }
+        for (const cell of changed.cells) {
+            const key = `${cell.row_num}:${cell.col_name}`;
+            if (cell.last_modified_by === 'sheet') {
+                cells.delete(key);
+                continue;
+            }
+            cells.set(key, {
+                row: cell.row_num,
+                col: cell.col_name,
+                value: cell.cell_value,
+                source: cell.last_modified_by,
+                version: cell.version,
+                typed: cell.typed,
+            });
+        }
+
+        const updates: SheetPush[] = [];
+        const alreadyShown: SheetPush[] = [];
+        for (const [key, cell] of cells.entries()) {
+            if (!sheetShows(state.lastSnapshot.get(key) ?? '', state.formulas.get(key), cell.value, cell.typed)) {
+                updates.push(cell);
+            } else if (cell.value !== '') {
+                alreadyShown.push(cell);
+            }
+        }
+        if (alreadyShown.length > 0) {
+            await state.store.markSynced(alreadyShown).catch(() => {});
+        }
+        if (updates.length > 0) {
+            console.log(`📡 [${state.scope}] Incremental pass: ${updates.length} cell(s) changed since ${state.watermark!.toISOString()}`);
+            // Held back for quota: the watermark stays put so the retry sees them again
+            if (!(await this.pushCellsToSheet(state, updates, 'DB→Sheet'))) return;
+        }
+
+        state.watermark = changed.watermark && changed.watermark > state.watermark! ? changed.watermark : state.watermark;
+        if (deleted.lastId > state.tombstoneId) {
+            state.tombstoneId = deleted.lastId;
+            await state.store.purgeDeletedCells(deleted.lastId).catch(() => {});
+        }
+    }
+
+    /**
+     * Compare the whole table with a fresh read of the tab. Returns false when it
+     * couldn't run against live DB data, so the watermark isn't advanced.
+     */
+    private async fullSyncFromDatabase(state: MappingState): Promise<boolean> {
+        const { table, sheetName, id } = state.mapping;
 
         try {
             // Check if DB is online
             let dbRows: any[];
+            let fromCache = false;
             try {
-                const [rows]: any = await pool.query(
-                    `SELECT row_num, col_name, cell_value, last_modified_by FROM users 
-                     ORDER BY row_num, col_name`
-                );
-                dbRows = rows;
+                dbRows = await state.store.readCells();
                 
                 // Mark DB as online
                 if (!this.dbOnline) {
                     console.log('✅ Database connectivity restored');
                     this.dbOnline = true;
                     this.lastDbError = '';
-                    await this.processPendingChanges('db');
+                    await this.processAllPendingChanges('db');
                 }
                 
                 // Save DB snapshot to Redis
-                await this.saveDbSnapshotToRedis(dbRows);
+                await this.saveDbSnapshotToRedis(state, dbRows);
             } catch (error: any) {
                 if (this.isDbOfflineError(error)) {
                     if (this.dbOnline) {
@@ -649,90 +1849,100 @@ export class CDCMonitor {
                         this.lastDbError = error.message;
                     }
                     // Try to load from Redis cache
-                    dbRows = await this.loadDbSnapshotFromRedis();
+                    dbRows = await this.loadDbSnapshotFromRedis(state);
                     if (dbRows.length === 0) {
-                        console.warn('⚠️ No cached DB data available');
-                        return;
+                        console.warn(`⚠️ [${state.scope}] No cached DB data available`);
+                        return false;
                     }
-                    console.log(`📦 Using cached DB snapshot (${dbRows.length} rows)`);
+                    console.log(`📦 [${state.scope}] Using cached DB snapshot (${dbRows.length} rows)`);
+                    fromCache = true;
                 } else {
                     throw error;
                 }
             }
 
             // Check if Sheet is online - use cached snapshot if not
-            let sheetData: Map<string, string> | null;
+            let sheetData: Map<string, string> | null = null;
             if (this.sheetOnline) {
-                sheetData = await this.fetchSheetData();
-            } else {
-                sheetData = null;
+                const fetched = await this.fetchSheetData([state], 'push');
+                if (!fetched && this.sheetOnline) {
+                    // Rate limited or out of quota, not offline: retry the pass later
+                    this.scheduleSyncFromDatabase(id);
+                    return false;
+                }
+                sheetData = fetched ? fetched.get(id)! : null;
             }
             
             if (!sheetData) {
                 // Sheet is offline - queue changes for later
-                console.log('⚠️ Google Sheets offline - queuing changes for later sync');
+                console.log(`⚠️ [${state.scope}] Google Sheets offline - queuing changes for later sync`);
                 
                 for (const row of dbRows) {
-                    if (row.last_modified_by !== 'sheet') {
-                        await this.queuePendingChange('sheet', {
+                    if (row.last_modified_by !== 'sheet' && !state.conflicts.has(`${row.row_num}:${row.col_name}`)) {
+                        await this.queuePendingChange(state, 'sheet', {
                             row: row.row_num,
                             col: row.col_name,
                             value: row.cell_value || '',
-                            source: row.last_modified_by
+                            source: row.last_modified_by,
+                            typed: row.typed,
                         });
                     }
                 }
-                return;
+                return !fromCache;
             }
 
-            const updates: { range: string; values: string[][] }[] = [];
+            const updates: CellWrite[] = [];
             const cellsToSync: Set<string> = new Set();
-            const syncedCells: { row: number; col: string; value: string }[] = [];
+            const syncedCells: { row: number; col: string; value: string; version?: number; typed?: TypedValue }[] = [];
+            const alreadyShown: { row: number; col: string; version?: number }[] = [];
 
             for (const row of dbRows) {
                 const key = `${row.row_num}:${row.col_name}`;
                 cellsToSync.add(key);
+                if (state.conflicts.has(key)) continue;
                 
                 const sheetValue = sheetData.get(key) || '';
                 const dbValue = row.cell_value || '';
+                const shown = sheetShows(sheetValue, state.sheetValues.get(key)?.formula, dbValue, row.typed);
 
-                if (dbValue !== sheetValue && row.last_modified_by !== 'sheet') {
-                    const range = `Sheet1!${row.col_name}${row.row_num}`;
+                if (shown && row.last_modified_by !== 'sheet' && !fromCache) {
+                    alreadyShown.push({ row: row.row_num, col: row.col_name, version: row.version });
+                } else if (!shown && row.last_modified_by !== 'sheet') {
                     updates.push({
-                        range,
-                        values: [[dbValue]],
+                        sheetName,
+                        cell: `${row.col_name}${row.row_num}`,
+                        value: sheetInput(dbValue, row.typed),
                     });
-                    syncedCells.push({ row: row.row_num, col: row.col_name, value: dbValue });
-                    console.log(`   📤 DB→Sheet: ${row.col_name}${row.row_num} = "${dbValue}"`);
+                    syncedCells.push({ row: row.row_num, col: row.col_name, value: dbValue, version: row.version, typed: row.typed });
+                    console.log(`   📤 [${state.scope}] DB→Sheet: ${row.col_name}${row.row_num} = "${dbValue}"`);
                 }
             }
 
+            if (alreadyShown.length > 0) {
+                await state.store.markSynced(alreadyShown).catch(() => {});
+            }
+
             for (const [key, sheetValue] of sheetData.entries()) {
-                if (!cellsToSync.has(key) && sheetValue !== '') {
+                if (!cellsToSync.has(key) && sheetValue !== '' && !state.conflicts.has(key)) {
                     const [rowStr, col] = key.split(':');
-                    const range = `Sheet1!${col}${rowStr}`;
-                    updates.push({
-                        range,
-                        values: [['']],
-                    });
-                    console.log(`   🗑️  DB→Sheet delete: ${col}${rowStr}`);
+                    updates.push({ sheetName, cell: `${col}${rowStr}`, value: '' });
+                    console.log(`   🗑️  [${state.scope}] DB→Sheet delete: ${col}${rowStr}`);
                 }
             }
 
             if (updates.length === 0) {
-                return;
+                return !fromCache;
             }
 
-            console.log(`📡 Pushing ${updates.length} update(s) to Google Sheet...`);
+            console.log(`📡 [${state.scope}] Pushing ${updates.length} update(s) to Google Sheet...`);
+
+            if (!(await this.spendQuota('push'))) {
+                this.scheduleSyncFromDatabase(id);
+                return false;
+            }
 
             try {
-                await this.sheets.spreadsheets.values.batchUpdate({
-                    spreadsheetId: SHEET_ID,
-                    requestBody: {
-                        valueInputOption: 'RAW',
-                        data: updates,
-                    },
-                });
+                await this.provider.writeCells(this.sheetId, updates);
 
                 // Mark sheet as online
                 if (!this.sheetOnline) {
@@ -742,26 +1952,21 @@ export class CDCMonitor {
                 }
 
                 // Mark only the SPECIFIC cells we just synced (not a blanket update)
-                for (const cell of syncedCells) {
-                    await pool.query(
-                        `UPDATE users SET last_modified_by = 'sheet' 
-                         WHERE row_num = ? AND col_name = ? AND last_modified_by != 'sheet'`,
-                        [cell.row, cell.col]
-                    ).catch(() => {}); // Ignore DB errors here, we already synced to sheet
-                }
+                await state.store.markSynced(syncedCells)
+                    .catch(() => {}); // Ignore DB errors here, we already synced to sheet
 
                 // Update the in-memory snapshot so the next poll doesn't
                 // re-detect the values we just pushed as "sheet changes"
                 for (const cell of syncedCells) {
-                    this.lastSnapshot.set(`${cell.row}:${cell.col}`, cell.value);
+                    this.notePushed(state, cell);
                 }
 
                 const now = Date.now();
-                const timeSinceLastSync = this.lastSyncToSheetAt > 0 
-                    ? ` (Δ${now - this.lastSyncToSheetAt}ms since last sync to Sheet)` 
+                const timeSinceLastSync = state.lastSyncToSheetAt > 0 
+                    ? ` (Δ${now - state.lastSyncToSheetAt}ms since last sync to Sheet)` 
                     : '';
-                console.log(`✅ Synced ${updates.length} cell(s) DB → Google Sheet${timeSinceLastSync}`);
-                this.lastSyncToSheetAt = now;
+                console.log(`✅ [${state.scope}] Synced ${updates.length} cell(s) ${table} → Google Sheet${timeSinceLastSync}`);
+                state.lastSyncToSheetAt = now;
             } catch (error: any) {
                 // Sheet went offline during sync - queue the changes
                 const errorMsg = error.code === 'ECONNRESET' 
@@ -776,32 +1981,35 @@ export class CDCMonitor {
                 
                 // Queue all pending changes
                 for (const cell of syncedCells) {
-                    await this.queuePendingChange('sheet', {
+                    await this.queuePendingChange(state, 'sheet', {
                         row: cell.row,
                         col: cell.col,
                         value: cell.value,
-                        source: 'db_sync'
+                        source: 'db_sync',
+                        typed: cell.typed,
                     });
                 }
             }
+            return !fromCache;
         } catch (error: any) {
             const errorMsg = error.code === 'ECONNRESET' 
                 ? 'Connection reset' 
                 : error.message || 'Unknown error';
-            console.error(`❌ DB → Sheet sync failed: ${errorMsg}`);
+            console.error(`❌ [${state.scope}] DB → Sheet sync failed: ${errorMsg}`);
             if (error.response) {
                 console.error('Google API Error:', error.response.data);
             }
+            return false;
         }
     }
 
     /**
      * Save DB snapshot to Redis
      */
-    private async saveDbSnapshotToRedis(rows: any[]): Promise<void> {
+    private async saveDbSnapshotToRedis(state: MappingState, rows: any[]): Promise<void> {
         try {
             await redisClient.set(
-                REDIS_KEYS.DB_SNAPSHOT,
+                state.keys.DB_SNAPSHOT,
                 JSON.stringify(rows),
                 'EX',
                 SNAPSHOT_TTL
@@ -814,9 +2022,9 @@ export class CDCMonitor {
     /**
      * Load DB snapshot from Redis
      */
-    private async loadDbSnapshotFromRedis(): Promise<any[]> {
+    private async loadDbSnapshotFromRedis(state: MappingState): Promise<any[]> {
         try {
-            const cached = await redisClient.get(REDIS_KEYS.DB_SNAPSHOT);
+            const cached = await redisClient.get(state.keys.DB_SNAPSHOT);
             if (cached) {
                 return JSON.parse(cached);
             }
@@ -826,5 +2034,3 @@ export class CDCMonitor {
         return [];
     }
 }
-
-export default new CDCMonitor();
\ No newline at end of file
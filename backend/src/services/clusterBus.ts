@@ -0,0 +1,52 @@
+import Redis from 'ioredis';
+import redisClient from '../config/redis';
+import { INSTANCE_ID } from '../config/instance';
+import { CLUSTER_CHANNEL } from '../utils/redisKeys';
+import { PendingTarget } from './pendingQueue';
+
+/**
+ * Messages between replicas. Followers forward DB → Sheet syncs and backlog replays to the leader;
+ * spreadsheets registered or removed on one replica are picked up by the rest.
+ */
+export type ClusterEvent =
+    | { type: 'sync'; spreadsheetKey: string; mappingId?: string }
+    | { type: 'replay_pending'; spreadsheetKey: string; mappingId: string; target: PendingTarget }
+    | { type: 'spreadsheet_added'; spreadsheetKey: string }
+    | { type: 'spreadsheet_removed'; spreadsheetKey: string };
+
+export class ClusterBus {
+    private subscriber: Redis | null = null;
+
+    async publish(event: ClusterEvent): Promise<void> {
+        await redisClient.publish(CLUSTER_CHANNEL, JSON.stringify({ ...event, from: INSTANCE_ID }));
+    }
+
+    /**
+     * Receive other replicas' events on a connection of its own (subscribed connections can't issue commands)
+     */
+    async subscribe(handler: (event: ClusterEvent) => Promise<void>): Promise<void> {
+        if (this.subscriber) return;
+        this.subscriber = redisClient.duplicate();
+        this.subscriber.on('message', (_channel: string, message: string) => {
+            let event: ClusterEvent & { from?: string };
+            try {
+                event = JSON.parse(message);
+            } catch {
+                return;
+            }
+            if (event.from === INSTANCE_ID) return;
+            handler(event).catch((error) => {
+                console.error(`❌ Failed to handle cluster event ${event.type}:`, error);
+            });
+        });
+        await this.subscriber.subscribe(CLUSTER_CHANNEL);
+    }
+
+    async close(): Promise<void> {
+        if (!this.subscriber) return;
+        await this.subscriber.quit().catch(() => {});
+        this.subscriber = null;
+    }
+}
+
+export default new ClusterBus();
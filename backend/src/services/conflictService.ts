@@ -0,0 +1,211 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import pool from '../config/database';
+import { CellState } from './tableStore';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const CONFLICT_POLICIES = ['sheet-wins', 'db-wins', 'latest-timestamp-wins'] as const;
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+
+/**
+ * A write that was rejected because the cell changed after the version it was based on
+ */
+export interface NewConflict {
+    row: number;
+    col: string;
+    side: 'sheet' | 'db';        // Where the rejected write came from
+    value: string;               // What it tried to write
+    source: string;              // Who wrote it: 'sheet', 'user' (webhook), 'sql_terminal', a bot name
+    baseVersion: number | null;  // Version the writer saw
+    at?: Date;                   // When the write was made, if known (defaults to now)
+    current: CellState;          // What is stored instead
+}
+
+export interface Conflict {
+    id: number;
+    spreadsheetKey: string;
+    mappingId: string;
+    table: string;
+    row: number;
+    col: string;
+    incoming: { side: 'sheet' | 'db'; value: string; source: string; at: Date };
+    baseVersion: number | null;
+    current: { value: string; version: number; source: string; updatedAt: Date | null };
+    status: 'open' | 'resolved';
+    resolution: string | null;
+    resolvedValue: string | null;
+    resolvedAt: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * CONFLICT_POLICY, used when a conflict is resolved without naming a policy
+ */
+export function defaultConflictPolicy(): ConflictPolicy {
+    const configured = process.env.CONFLICT_POLICY as ConflictPolicy | undefined;
+    return configured && CONFLICT_POLICIES.includes(configured) ? configured : 'latest-timestamp-wins';
+}
+
+/**
+ * Which side a policy keeps. 'sheet-wins' keeps the sheet's edit: the incoming
+ * value when the rejected write came from the sheet, else what is stored now
+ * (and vice versa for 'db-wins'). 'latest-timestamp-wins' keeps the later write.
+ */
+export function pickWinner(conflict: Conflict, policy: ConflictPolicy): 'incoming' | 'current' {
+    switch (policy) {
+        case 'sheet-wins':
+            return conflict.incoming.side === 'sheet' ? 'incoming' : 'current';
+        case 'db-wins':
+            return conflict.incoming.side === 'db' ? 'incoming' : 'current';
+        case 'latest-timestamp-wins':
+            return !conflict.current.updatedAt || conflict.incoming.at >= conflict.current.updatedAt
+                ? 'incoming'
+                : 'current';
+    }
+}
+
+function toConflict(r: any): Conflict {
+    return {
+        id: Number(r.id),
+        spreadsheetKey: r.spreadsheet_key,
+        mappingId: r.mapping_id,
+        table: r.table_name,
+        row: r.row_num,
+        col: r.col_name,
+        incoming: { side: r.incoming_side, value: r.incoming_value ?? '', source: r.incoming_source, at: r.incoming_at },
+        baseVersion: r.base_version,
+        current: { value: r.current_value ?? '', version: r.current_version, source: r.current_source, updatedAt: r.current_updated_at },
+        status: r.status,
+        resolution: r.resolution,
+        resolvedValue: r.resolved_value,
+        resolvedAt: r.resolved_at,
+        createdAt: r.created_at,
+    };
+}
+
+/**
+ * Persistence for version conflicts. Each cell has at most one open conflict;
+ * further rejected writes to it replace the incoming side.
+ */
+export class ConflictService {
+
+    async record(spreadsheetKey: string, mappingId: string, table: string, conflict: NewConflict): Promise<number> {
+        const fields = [
+            conflict.side, conflict.value, conflict.source, conflict.at ?? new Date(), conflict.baseVersion,
+            conflict.current.value, conflict.current.version, conflict.current.lastModifiedBy, conflict.current.updatedAt,
+        ];
+
+        const [open]: any = await pool.query(
+            `SELECT id FROM sync_conflicts
+             WHERE spreadsheet_key = ? AND mapping_id = ? AND row_num = ? AND col_name = ? AND status = 'open'
+             LIMIT 1`,
+            [spreadsheetKey, mappingId, conflict.row, conflict.col]
+        );
+        if (open.length > 0) {
+            await pool.query(
+                `UPDATE sync_conflicts SET
+                    incoming_side = ?, incoming_value = ?, incoming_source = ?, incoming_at = ?, base_version = ?,
+                    current_value = ?, current_version = ?, current_source = ?, current_updated_at = ?
+                 WHERE id = ?`,
+                [...fields, open[0].id]
+            );
+            return Number(open[0].id);
+        }
+
+        const [result]: any = await pool.query(
+            `INSERT INTO sync_conflicts (
+                spreadsheet_key, mapping_id, table_name, row_num, col_name,
+                incoming_side, incoming_value, incoming_source, incoming_at, base_version,
+                current_value, current_version, current_source, current_updated_at
+             ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [spreadsheetKey, mappingId, table, conflict.row, conflict.col, ...fields]
+        );
+        return Number(result.insertId);
+    }
+
+    async list(filter: {
+        status?: 'open' | 'resolved';
+        spreadsheetKey?: string;
+        mappingId?: string;
+        limit: number;
+        offset: number;
+    }): Promise<{ conflicts: Conflict[]; total: number }> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+        if (filter.status) {
+            conditions.push('status = ?');
+            params.push(filter.status);
+        }
+        if (filter.spreadsheetKey) {
+            conditions.push('spreadsheet_key = ?');
+            params.push(filter.spreadsheetKey);
+        }
+        if (filter.mappingId) {
+            conditions.push('mapping_id = ?');
+            params.push(filter.mappingId);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const [[{ total }]]: any = await pool.query(`SELECT COUNT(*) AS total FROM sync_conflicts ${where}`, params);
+        const [rows]: any = await pool.query(
+            `SELECT * FROM sync_conflicts ${where} ORDER BY id DESC LIMIT ? OFFSET ?`,
+            [...params, filter.limit, filter.offset]
+        );
+        return { conflicts: rows.map(toConflict), total: Number(total) };
+    }
+
+    async get(id: number): Promise<Conflict | null> {
+        const [rows]: any = await pool.query('SELECT * FROM sync_conflicts WHERE id = ?', [id]);
+        return rows.length > 0 ? toConflict(rows[0]) : null;
+    }
+
+    /**
+     * Cells with an open conflict, so DB → Sheet passes leave them alone until resolved
+     */
+    async openCells(spreadsheetKey: string): Promise<{ mappingId: string; row: number; col: string }[]> {
+        const [rows]: any = await pool.query(
+            `SELECT mapping_id, row_num, col_name FROM sync_conflicts WHERE spreadsheet_key = ? AND status = 'open'`,
+            [spreadsheetKey]
+        );
+        return rows.map((r: any) => ({ mappingId: r.mapping_id, row: r.row_num, col: r.col_name }));
+    }
+
+    /**
+     * Keep a table's open conflicts on their cells through a structural edit.
+     * `place` gives a cell's new position, or null if its row or column was
+     * deleted; those conflicts are closed.
+     */
+    async followStructure(
+        table: string,
+        place: (row: number, col: string) => { row: number; col: string } | null,
+        db: Pool | PoolConnection = pool
+    ): Promise<void> {
+        const [rows]: any = await db.query(
+            `SELECT id, row_num, col_name FROM sync_conflicts WHERE table_name = ? AND status = 'open'`,
+            [table]
+        );
+        for (const r of rows) {
+            const target = place(r.row_num, r.col_name);
+            if (target === null) {
+                await db.query(
+                    `UPDATE sync_conflicts SET status = 'resolved', resolution = 'deleted_in_sheet', resolved_at = CURRENT_TIMESTAMP
+                     WHERE id = ?`,
+                    [r.id]
+                );
+            } else if (target.row !== r.row_num || target.col !== r.col_name) {
+                await db.query('UPDATE sync_conflicts SET row_num = ?, col_name = ? WHERE id = ?', [target.row, target.col, r.id]);
+            }
+        }
+    }
+
+    async markResolved(id: number, resolution: string, value: string): Promise<void> {
+        await pool.query(
+            `UPDATE sync_conflicts SET status = 'resolved', resolution = ?, resolved_value = ?, resolved_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [resolution, value, id]
+        );
+    }
+}
+
+export default new ConflictService();
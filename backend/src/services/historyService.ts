@@ -0,0 +1,237 @@
+import { randomUUID } from 'crypto';
+import { Pool, PoolConnection } from 'mysql2/promise';
+import pool from '../config/database';
+import { StructureAction, SyncEvent } from '../types/types';
+import { columnToIndex } from '../utils/a1';
+
+/**
+ * One applied cell change. `source` is the side it came from ('sheet' | 'db'),
+ * `writer` who made it: 'sheet', 'user' (webhook), 'sql_terminal', a bot name...
+ */
+export interface CellChange extends SyncEvent {
+    row: number;
+    col: string;
+    oldValue: string;
+    newValue: string;
+    writer: string;
+    version: number | null;
+}
+
+// change_type of entries for single cells; the rest are structural edits
+export const CELL_CHANGE_TYPES: SyncEvent['type'][] = ['INSERT', 'UPDATE', 'DELETE'];
+
+export interface HistoryEntry {
+    id: number;
+    writeId: string;
+    table: string;
+    row: number;
+    col: string;
+    cell: string;                 // A1 ref, or the affected range ("3:4", "B:C") of a structural edit
+    type: SyncEvent['type'] | StructureAction;
+    oldValue: string | null;
+    newValue: string | null;
+    side: SyncEvent['source'];
+    source: string;
+    version: number | null;
+    changedAt: Date;
+}
+
+export interface HistoryFilter {
+    tables?: string[];
+    row?: number;
+    col?: string;
+    since?: Date;
+    until?: Date;
+    source?: string;
+    writeId?: string;
+    cursor?: number;    // Only entries older than this id
+    limit: number;
+}
+
+export interface CellRange {
+    fromRow: number;
+    toRow: number;
+    fromCol: string;
+    toCol: string;
+}
+
+export function cellChange(
+    row: number,
+    col: string,
+    oldValue: string,
+    newValue: string,
+    side: SyncEvent['source'],
+    writer: string,
+    version: number | null
+): CellChange {
+    const type = oldValue === '' ? 'INSERT' : newValue === '' ? 'DELETE' : 'UPDATE';
+    return { type, row, col, oldValue, newValue, source: side, writer, version, timestamp: Date.now() };
+}
+
+function toEntry(r: any): HistoryEntry {
+    const structural = !CELL_CHANGE_TYPES.includes(r.change_type);
+    return {
+        id: Number(r.id),
+        writeId: r.write_id,
+        table: r.table_name,
+        row: r.row_num,
+        col: r.col_name,
+        cell: structural ? r.new_value : `${r.col_name}${r.row_num}`,
+        type: r.change_type,
+        oldValue: r.old_value,
+        newValue: r.new_value,
+        side: r.side,
+        source: r.source,
+        version: r.version,
+        changedAt: r.changed_at,
+    };
+}
+
+/**
+ * Append-only cell history. Table stores write to it inside their own
+ * transaction, so a change and its history row commit together.
+ */
+export class HistoryService {
+
+    /**
+     * Append the changes of one write. Returns the write id, or null if nothing changed.
+     */
+    async record(table: string, changes: CellChange[], db: Pool | PoolConnection = pool): Promise<string | null> {
+        const applied = changes.filter(c => c.oldValue !== c.newValue);
+        if (applied.length === 0) return null;
+
+        const writeId = randomUUID();
+        await db.query(
+            `INSERT INTO cell_history
+                (write_id, table_name, row_num, col_name, change_type, old_value, new_value, side, source, version)
+             VALUES ?`,
+            [applied.map(c => [
+                writeId, table, c.row, c.col, c.type,
+                c.oldValue === '' ? null : c.oldValue,
+                c.newValue === '' ? null : c.newValue,
+                c.source, c.writer.slice(0, 50), c.version,
+            ])]
+        );
+        return writeId;
+    }
+
+    /**
+     * Append the structural edits applied in one go (see SyncEvent.metadata).
+     * Cells keep the positions they had when they changed, so these entries mark
+     * where earlier positions stop lining up with the table.
+     */
+    async recordStructure(table: string, events: SyncEvent[], db: Pool | PoolConnection = pool): Promise<string | null> {
+        const structural = events.filter(e => e.metadata?.action);
+        if (structural.length === 0) return null;
+
+        const writeId = randomUUID();
+        await db.query(
+            `INSERT INTO cell_history
+                (write_id, table_name, row_num, col_name, change_type, old_value, new_value, side, source, version)
+             VALUES ?`,
+            [structural.map(e => [
+                writeId, table, e.row ?? 0, e.col ?? '', e.metadata!.action,
+                null, e.metadata!.affectedRange ?? null, e.source, e.source, null,
+            ])]
+        );
+        return writeId;
+    }
+
+    /**
+     * The first structural edit of a table after `since`, or null
+     */
+    async structureChangeSince(table: string, since: Date): Promise<HistoryEntry | null> {
+        const [rows]: any = await pool.query(
+            `SELECT * FROM cell_history WHERE table_name = ? AND changed_at > ? AND change_type NOT IN (?)
+             ORDER BY id LIMIT 1`,
+            [table, since, CELL_CHANGE_TYPES]
+        );
+        return rows.length > 0 ? toEntry(rows[0]) : null;
+    }
+
+    /**
+     * Newest first. Pass the returned `nextCursor` back as `cursor` for the next page.
+     */
+    async list(filter: HistoryFilter): Promise<{ entries: HistoryEntry[]; nextCursor: number | null }> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+        if (filter.tables) {
+            if (filter.tables.length === 0) return { entries: [], nextCursor: null };
+            conditions.push('table_name IN (?)');
+            params.push(filter.tables);
+        }
+        if (filter.row !== undefined) {
+            conditions.push('row_num = ?');
+            params.push(filter.row);
+        }
+        if (filter.col !== undefined) {
+            conditions.push('col_name = ?');
+            params.push(filter.col);
+        }
+        if (filter.since) {
+            conditions.push('changed_at >= ?');
+            params.push(filter.since);
+        }
+        if (filter.until) {
+            conditions.push('changed_at < ?');
+            params.push(filter.until);
+        }
+        if (filter.source) {
+            conditions.push('source = ?');
+            params.push(filter.source);
+        }
+        if (filter.writeId) {
+            conditions.push('write_id = ?');
+            params.push(filter.writeId);
+        }
+        if (filter.cursor !== undefined) {
+            conditions.push('id < ?');
+            params.push(filter.cursor);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        // One extra row tells us whether there is another page
+        const [rows]: any = await pool.query(
+            `SELECT * FROM cell_history ${where} ORDER BY id DESC LIMIT ?`,
+            [...params, filter.limit + 1]
+        );
+        const entries = rows.slice(0, filter.limit).map(toEntry);
+        return {
+            entries,
+            nextCursor: rows.length > filter.limit ? entries[entries.length - 1].id : null,
+        };
+    }
+
+    /**
+     * Every cell of one write, in the order they were recorded
+     */
+    async write(writeId: string): Promise<HistoryEntry[]> {
+        const [rows]: any = await pool.query('SELECT * FROM cell_history WHERE write_id = ? ORDER BY id', [writeId]);
+        return rows.map(toEntry);
+    }
+
+    /**
+     * What the cells changed after `at` held at that moment: the before-image of
+     * each cell's first change since. Cells untouched since `at` aren't listed.
+     */
+    async valuesAt(table: string, at: Date, range?: CellRange): Promise<{ row: number; col: string; value: string }[]> {
+        const rowFilter = range ? 'AND row_num BETWEEN ? AND ?' : '';
+        const [rows]: any = await pool.query(
+            `SELECT h.row_num, h.col_name, h.old_value FROM cell_history h
+             JOIN (
+                SELECT MIN(id) AS id FROM cell_history
+                WHERE table_name = ? AND changed_at > ? AND change_type IN (?) ${rowFilter}
+                GROUP BY row_num, col_name
+             ) first_change ON first_change.id = h.id
+             ORDER BY h.row_num, h.id`,
+            range ? [table, at, CELL_CHANGE_TYPES, range.fromRow, range.toRow] : [table, at, CELL_CHANGE_TYPES]
+        );
+
+        const [from, to] = range ? [columnToIndex(range.fromCol), columnToIndex(range.toCol)] : [0, Infinity];
+        return rows
+            .filter((r: any) => columnToIndex(r.col_name) >= from && columnToIndex(r.col_name) <= to)
+            .map((r: any) => ({ row: r.row_num, col: r.col_name, value: r.old_value ?? '' }));
+    }
+}
+
+export default new HistoryService();
@@ -0,0 +1,134 @@
+import redisClient from '../config/redis';
+import { INSTANCE_ID } from '../config/instance';
+import { LEADER_KEY } from '../utils/redisKeys';
+import pino from 'pino';
+
+const logger = pino();
+
+// A leader that stops renewing is replaced after this long
+const LEASE_MS = Math.max(3000, parseInt(process.env.LEADER_LEASE_MS || '15000'));
+const RENEW_INTERVAL_MS = Math.floor(LEASE_MS / 3);
+
+export interface LeadershipHandlers {
+    elected(): Promise<void>;
+    deposed(): Promise<void>;
+}
+
+/**
+ * Redis lease deciding which replica runs the CDC monitors. The leader renews
+ * it every third of the lease; the others try to take it on the same beat, so
+ * a dead leader is replaced within one lease.
+ */
+export class LeaderElection {
+    private handlers: LeadershipHandlers | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private leader = false;
+    private lastRenewedAt = 0;
+    private ticking = false;
+    // Handlers run one after another, outside the renew loop
+    private transitions: Promise<void> = Promise.resolve();
+
+    async start(handlers: LeadershipHandlers): Promise<void> {
+        if (this.timer) return;
+        this.handlers = handlers;
+        this.timer = setInterval(() => this.tick(), RENEW_INTERVAL_MS);
+        await this.tick();
+        await this.transitions;
+    }
+
+    /**
+     * Leave the election; a leader releases its lease so another replica takes over at once
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        if (this.leader) {
+            const script = `
+                if redis.call('GET', KEYS[1]) == ARGV[1] then
+                    return redis.call('DEL', KEYS[1])
+                else
+                    return 0
+                end
+            `;
+            await redisClient.eval(script, 1, LEADER_KEY, INSTANCE_ID).catch(() => 0);
+            this.stepDown('stopping');
+        }
+        await this.transitions;
+    }
+
+    isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Passed with Redis writes only the leader may make, so a leader whose lease
+     * ran out can't overwrite its successor. Empty when no election is running.
+     */
+    fencingToken(): string {
+        return this.timer ? INSTANCE_ID : '';
+    }
+
+    async getStatus(): Promise<{ instanceId: string; isLeader: boolean; leader: string | null; leaseMs: number }> {
+        const leader = await redisClient.get(LEADER_KEY).catch(() => null);
+        return { instanceId: INSTANCE_ID, isLeader: this.leader, leader, leaseMs: LEASE_MS };
+    }
+
+    private async tick(): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+
+        try {
+            if (this.leader) {
+                const script = `
+                    if redis.call('GET', KEYS[1]) == ARGV[1] then
+                        return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+                    else
+                        return 0
+                    end
+                `;
+                const renewed = await redisClient.eval(script, 1, LEADER_KEY, INSTANCE_ID, LEASE_MS);
+                if (renewed === 1) {
+                    this.lastRenewedAt = Date.now();
+                } else {
+                    this.stepDown('lease taken over');
+                }
+            } else {
+                const acquired = await redisClient.set(LEADER_KEY, INSTANCE_ID, 'PX', LEASE_MS, 'NX');
+                if (acquired === 'OK') {
+                    this.leader = true;
+                    this.lastRenewedAt = Date.now();
+                    console.log(`👑 ${INSTANCE_ID} is now the CDC leader`);
+                    logger.info({ instanceId: INSTANCE_ID }, 'Elected CDC leader');
+                    this.transition(() => this.handlers!.elected());
+                }
+            }
+        } catch (error: any) {
+            // Without Redis the lease can't be proven; once it has run out another replica may hold it
+            if (this.leader && Date.now() - this.lastRenewedAt >= LEASE_MS) {
+                this.stepDown(`lease expired while Redis is unreachable (${error.message})`);
+            } else {
+                console.warn('⚠️ Leader election could not reach Redis:', error.message || error);
+            }
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private stepDown(reason: string) {
+        if (!this.leader) return;
+        this.leader = false;
+        console.warn(`⚠️ ${INSTANCE_ID} is no longer the CDC leader: ${reason}`);
+        logger.info({ instanceId: INSTANCE_ID, reason }, 'Stepped down as CDC leader');
+        this.transition(() => this.handlers!.deposed());
+    }
+
+    private transition(handler: () => Promise<void>) {
+        this.transitions = this.transitions.then(handler).catch((error) => {
+            console.error('❌ Leadership change failed:', error);
+        });
+    }
+}
+
+export default new LeaderElection();
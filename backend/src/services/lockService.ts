@@ -1,58 +1,302 @@
 import redisClient from '../config/redis';
+import { areaLocksKey, cellLocksKey, lockIntentsKey } from '../utils/redisKeys';
+import { columnToIndex, indexToColumn, parseCellRange } from '../utils/a1';
 
 const LOCK_TTL = 5;
 const RETRY_DELAY = 200;
 const MAX_RETRIES = 15;
+const CELLS_PER_EXTRA_SECOND = 100;
+
+// Last row / column index of open-ended locks (whole rows, columns, the sheet)
+const OPEN_END = 2147483647;
+
+/**
+ * What a lock covers. A range, row, column or sheet lock covers every cell
+ * inside it, so it conflicts with any overlapping lock held by someone else.
+ */
+export type LockTarget =
+    | { kind: 'cell'; row: number; col: string }
+    | { kind: 'range'; range: string }                      // A1 notation, e.g. "A1:C10"
+    | { kind: 'row'; row: number; toRow?: number }
+    | { kind: 'column'; col: string; toCol?: string }
+    | { kind: 'sheet' };
+
+export interface LockState {
+    locked: boolean;
+    owner?: string;
+    lock?: string;      // What the holder locked: "C3", "A1:C10", "3:3", "C:C" or "sheet"
+}
+
+// Top row, left column index, bottom row, right column index
+type Area = [number, number, number, number];
+
+function areaOf(target: LockTarget): Area {
+    switch (target.kind) {
+        case 'cell': {
+            const col = columnToIndex(target.col);
+            return [target.row, col, target.row, col];
+        }
+        case 'range': {
+            const range = parseCellRange(target.range);
+            if (!range) throw new Error(`Invalid lock range "${target.range}"`);
+            return [range.fromRow, columnToIndex(range.fromCol), range.toRow, columnToIndex(range.toCol)];
+        }
+        case 'row': {
+            const last = target.toRow ?? target.row;
+            return [Math.min(target.row, last), 0, Math.max(target.row, last), OPEN_END];
+        }
+        case 'column': {
+            const [first, last] = [columnToIndex(target.col), columnToIndex(target.toCol ?? target.col)];
+            return [1, Math.min(first, last), OPEN_END, Math.max(first, last)];
+        }
+        case 'sheet':
+            return [1, 0, OPEN_END, OPEN_END];
+    }
+}
+
+function describeArea([top, left, bottom, right]: Area): string {
+    const rows = top === 1 && bottom === OPEN_END;
+    const cols = left === 0 && right === OPEN_END;
+    if (rows && cols) return 'sheet';
+    if (cols) return `${top}:${bottom}`;
+    if (rows) return `${indexToColumn(left)}:${indexToColumn(right)}`;
+    if (top === bottom && left === right) return `${indexToColumn(left)}${top}`;
+    return `${indexToColumn(left)}${top}:${indexToColumn(right)}${bottom}`;
+}
+
+/**
+ * How a lock on `target` is shown: "C3", "A1:C10", "3:3", "C:C" or "sheet"
+ */
+export function lockLabel(target: LockTarget): string {
+    return describeArea(areaOf(target));
+}
+
+/**
+ * Shared by the lock scripts. KEYS[1] holds area locks as
+ * "top:left:bottom:right:owner", KEYS[2] the cell lock intents as "row:col";
+ * both are scored by expiry. KEYS[3] maps each locked "row:col" to its owner,
+ * live while its intent is.
+ */
+const LOCK_LUA = `
+    local time = redis.call('TIME')
+    local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+    local function parse(text)
+        local top, left, bottom, right, owner = string.match(text, '^(%d+):(%d+):(%d+):(%d+):?(.*)$')
+        return { tonumber(top), tonumber(left), tonumber(bottom), tonumber(right), owner }
+    end
+
+    local function is_cell(area)
+        return area[1] == area[3] and area[2] == area[4]
+    end
+
+    local function holder(cell)
+        local expires = redis.call('ZSCORE', KEYS[2], cell)
+        if expires and tonumber(expires) >= now then
+            return redis.call('HGET', KEYS[3], cell)
+        end
+        return false
+    end
+
+    local live_areas
+
+    -- The first live lock overlapping the area that its owner doesn't hold
+    -- (any holder of the same cell), as "top:left:bottom:right:owner"
+    local function blocker(area, owner)
+        if is_cell(area) then
+            local cell = area[1] .. ':' .. area[2]
+            local held = holder(cell)
+            if held then
+                return cell .. ':' .. cell .. ':' .. held
+            end
+        else
+            for _, intent in ipairs(redis.call('ZRANGEBYSCORE', KEYS[2], now, '+inf')) do
+                local row, col = string.match(intent, '^(%d+):(%d+)$')
+                row, col = tonumber(row), tonumber(col)
+                if row >= area[1] and row <= area[3] and col >= area[2] and col <= area[4] then
+                    local held = redis.call('HGET', KEYS[3], intent)
+                    if held and held ~= owner then
+                        return intent .. ':' .. intent .. ':' .. held
+                    end
+                end
+            end
+        end
+        live_areas = live_areas or redis.call('ZRANGEBYSCORE', KEYS[1], now, '+inf')
+        for _, member in ipairs(live_areas) do
+            local held = parse(member)
+            if held[5] ~= owner and held[1] <= area[3] and area[1] <= held[3]
+                and held[2] <= area[4] and area[2] <= held[4] then
+                return member
+            end
+        end
+        return false
+    end
+`;
+
+/**
+ * All targets or none. ARGV: owner, TTL in ms, then the areas.
+ * Returns nil once they're held, otherwise the lock in the way.
+ */
+const ACQUIRE_LUA = `${LOCK_LUA}
+    local owner, ttl = ARGV[1], tonumber(ARGV[2])
+    for i = 3, #ARGV do
+        local found = blocker(parse(ARGV[i]), owner)
+        if found then return found end
+    end
+    local expires = now + ttl
+    for i = 3, #ARGV do
+        local area = parse(ARGV[i])
+        if is_cell(area) then
+            local cell = area[1] .. ':' .. area[2]
+            redis.call('HSET', KEYS[3], cell, owner)
+            redis.call('ZADD', KEYS[2], expires, cell)
+        else
+            redis.call('ZADD', KEYS[1], expires, ARGV[i] .. ':' .. owner)
+        end
+    end
+    -- Expired entries go, and each key lives as long as its newest lock
+    for _, cell in ipairs(redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', now - 1)) do
+        redis.call('HDEL', KEYS[3], cell)
+    end
+    for _, key in ipairs(KEYS) do
+        if key ~= KEYS[3] then
+            redis.call('ZREMRANGEBYSCORE', key, '-inf', now - 1)
+        end
+        if redis.call('PTTL', key) < ttl then
+            redis.call('PEXPIRE', key, ttl)
+        end
+    end
+    return false
+`;
+
+/**
+ * ARGV: owner, then the areas. Only the owner's own locks are released.
+ */
+const RELEASE_LUA = `${LOCK_LUA}
+    local owner = ARGV[1]
+    local released = 0
+    for i = 2, #ARGV do
+        local area = parse(ARGV[i])
+        if is_cell(area) then
+            local cell = area[1] .. ':' .. area[2]
+            if holder(cell) == owner then
+                redis.call('HDEL', KEYS[3], cell)
+                redis.call('ZREM', KEYS[2], cell)
+                released = released + 1
+            end
+        else
+            released = released + redis.call('ZREM', KEYS[1], ARGV[i] .. ':' .. owner)
+        end
+    end
+    return released
+`;
+
+/**
+ * ARGV: one area. Returns the first lock overlapping it.
+ */
+const INSPECT_LUA = `${LOCK_LUA}
+    return blocker(parse(ARGV[1]), '')
+`;
 
 export class LockService {
 
-    async acquireLock(row: number, col: string, owner: string): Promise<boolean> {
-        const lockKey = `lock:${row}:${col}`;
+    /**
+     * Lock `targets` for `owner`, all or none, in one atomic step, so two
+     * writers locking overlapping groups can't each hold half. Retries while
+     * another owner holds an overlapping lock. Cell locks are exclusive even
+     * to their own owner; wider locks don't conflict with the owner's other locks.
+     *
+     * `namespace` is the sync scope (spreadsheet + mapping), so the same cell
+     * address in two tabs maps to two independent locks.
+     */
+    async acquire(namespace: string, targets: LockTarget | LockTarget[], owner: string, ttlSeconds?: number): Promise<boolean> {
+        const list = Array.isArray(targets) ? targets : [targets];
+        if (list.length === 0) return true;
+        const areas = list.map(t => areaOf(t).join(':'));
+        const ttl = (ttlSeconds ?? this.ttlFor(list.length)) * 1000;
         let retries = 0;
 
         while (retries < MAX_RETRIES) {
-            const acquired = await redisClient.set(
-                lockKey,
-                owner,
-                'EX', LOCK_TTL,
-                'NX'
-            );
-
-            if (acquired === 'OK') {
+            const blocker = await redisClient.eval(
+                ACQUIRE_LUA, 3, areaLocksKey(namespace), lockIntentsKey(namespace), cellLocksKey(namespace),
+                owner, ttl, ...areas
+            ) as string | null;
+
+            if (blocker === null) {
                 return true;
             }
 
             retries++;
-            console.log(`⏳ [${owner}] Waiting for lock on ${col}${row}... (retry ${retries}/${MAX_RETRIES})`);
+            const held = this.parseHeld(blocker);
+            console.log(`⏳ [${owner}] Waiting for lock on ${this.describe(list)}, held by ${held.owner} on ${held.lock}... (retry ${retries}/${MAX_RETRIES})`);
             await this.delay(RETRY_DELAY);
         }
 
         return false;
     }
 
-    async releaseLock(row: number, col: string, owner: string): Promise<boolean> {
-        const lockKey = `lock:${row}:${col}`;
+    /**
+     * Release the owner's locks on `targets`; returns how many were held
+     */
+    async release(namespace: string, targets: LockTarget | LockTarget[], owner: string): Promise<number> {
+        const list = Array.isArray(targets) ? targets : [targets];
+        if (list.length === 0) return 0;
+        return await redisClient.eval(
+            RELEASE_LUA, 3, areaLocksKey(namespace), lockIntentsKey(namespace), cellLocksKey(namespace),
+            owner, ...list.map(t => areaOf(t).join(':'))
+        ) as number;
+    }
 
-        const script = `
-            if redis.call('GET', KEYS[1]) == ARGV[1] then
-                return redis.call('DEL', KEYS[1])
-            else
-                return 0
-            end
-        `;
+    /**
+     * Whether anyone holds a lock overlapping `target`, and who
+     */
+    async inspect(namespace: string, target: LockTarget): Promise<LockState> {
+        const blocker = await redisClient.eval(
+            INSPECT_LUA, 3, areaLocksKey(namespace), lockIntentsKey(namespace), cellLocksKey(namespace),
+            areaOf(target).join(':')
+        ) as string | null;
+        return blocker === null ? { locked: false } : { locked: true, ...this.parseHeld(blocker) };
+    }
 
-        const result = await redisClient.eval(script, 1, lockKey, owner);
-        return result === 1;
+    /**
+     * Lock TTL for a group of cells; a bigger group takes longer to write
+     */
+    ttlFor(cells: number): number {
+        return LOCK_TTL + Math.ceil(cells / CELLS_PER_EXTRA_SECOND);
     }
 
-    async isLocked(row: number, col: string): Promise<{ locked: boolean; owner?: string }> {
-        const lockKey = `lock:${row}:${col}`;
-        const owner = await redisClient.get(lockKey);
+    async acquireLock(namespace: string, row: number, col: string, owner: string, ttlSeconds = LOCK_TTL): Promise<boolean> {
+        return this.acquire(namespace, { kind: 'cell', row, col }, owner, ttlSeconds);
+    }
+
+    async releaseLock(namespace: string, row: number, col: string, owner: string): Promise<boolean> {
+        return await this.release(namespace, { kind: 'cell', row, col }, owner) === 1;
+    }
+
+    /**
+     * Lock a group of cells, all or none
+     */
+    async acquireLocks(namespace: string, cells: { row: number; col: string }[], owner: string): Promise<boolean> {
+        return this.acquire(namespace, cells.map(c => ({ kind: 'cell' as const, ...c })), owner);
+    }
+
+    async releaseLocks(namespace: string, cells: { row: number; col: string }[], owner: string): Promise<void> {
+        await this.release(namespace, cells.map(c => ({ kind: 'cell' as const, ...c })), owner);
+    }
+
+    async isLocked(namespace: string, row: number, col: string): Promise<LockState> {
+        return this.inspect(namespace, { kind: 'cell', row, col });
+    }
+
+    private parseHeld(member: string): { owner: string; lock: string } {
+        const [top, left, bottom, right, ...owner] = member.split(':');
+        const area = [top, left, bottom, right].map(Number) as Area;
+        return { owner: owner.join(':'), lock: describeArea(area) };
+    }
 
-        return {
-            locked: owner !== null,
-            owner: owner || undefined,
-        };
+    private describe(targets: LockTarget[]): string {
+        const first = describeArea(areaOf(targets[0]));
+        return targets.length === 1 ? first : `${first} and ${targets.length - 1} more`;
     }
 
     private delay(ms: number): Promise<void> {
@@ -60,4 +304,4 @@ export class LockService {
     }
 }
 
-export default new LockService();
\ No newline at end of file
+export default new LockService();
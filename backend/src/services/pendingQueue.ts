@@ -0,0 +1,238 @@
+import redisClient from '../config/redis';
+import { TypedValue } from '../utils/cellValues';
+
+// A change that keeps failing for reasons other than the target being offline
+// is moved to the dead-letter list after this many replays
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.PENDING_MAX_ATTEMPTS || '5'));
+const DEAD_LETTER_LIMIT = 1000;
+
+// Store the latest value for a cell, keeping the time its first change was queued
+const ADD_SCRIPT = `
+    local existing = redis.call('HGET', KEYS[1], ARGV[1])
+    local queuedAt = ARGV[3]
+    if existing then
+        local ok, entry = pcall(cjson.decode, existing)
+        if ok and type(entry) == 'table' and tonumber(entry.queuedAt) then
+            queuedAt = string.format('%d', entry.queuedAt)
+        end
+    end
+    redis.call('HSET', KEYS[1], ARGV[1], '{"queuedAt":' .. queuedAt .. ',"attempts":0,"change":' .. ARGV[2] .. '}')
+    if existing then return 1 else return 0 end
+`;
+
+// Replace (or delete, or dead-letter) an entry only if nobody queued a newer value meanwhile
+const SETTLE_SCRIPT = `
+    if redis.call('HGET', KEYS[1], ARGV[1]) ~= ARGV[2] then
+        return 0
+    end
+    if ARGV[3] ~= '' then
+        redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+    else
+        redis.call('HDEL', KEYS[1], ARGV[1])
+    end
+    if ARGV[4] ~= '' then
+        redis.call('RPUSH', KEYS[2], ARGV[4])
+        redis.call('LTRIM', KEYS[2], -tonumber(ARGV[5]), -1)
+    end
+    return 1
+`;
+
+export type PendingTarget = 'sheet' | 'db';
+
+export interface PendingChange {
+    row: number;
+    col: string;
+    value: string;
+    source: string;
+    typed?: TypedValue;
+}
+
+export interface PendingEntry {
+    change: PendingChange;
+    queuedAt: number;   // When the first change still waiting for this cell was queued
+    attempts: number;   // Failed replays of the current value
+    lastError?: string;
+}
+
+export interface PendingItem {
+    field: string;      // "row:col"
+    raw: string;        // As stored, so settling can tell whether a newer value arrived
+    entry: PendingEntry | null;  // null when the stored entry can't be read
+}
+
+export interface DeadLetter extends PendingEntry {
+    failedAt: number;
+    lastError: string;
+}
+
+/**
+ * Changes waiting for one side of one mapping while it is offline, kept per
+ * cell: queueing a cell again replaces its value, so the backlog never holds
+ * more than one entry per cell. Entries that keep failing move to a dead-letter list.
+ */
+export class PendingQueue {
+    constructor(
+        private readonly key: string,
+        private readonly deadLetterKey: string
+    ) {}
+
+    /**
+     * Queue a cell's latest value. Returns whether it replaced an older one.
+     */
+    async add(change: PendingChange, queuedAt = Date.now()): Promise<boolean> {
+        const replaced = await redisClient.eval(
+            ADD_SCRIPT, 1, this.key,
+            `${change.row}:${change.col}`, JSON.stringify(change), Math.floor(queuedAt)
+        );
+        return replaced === 1;
+    }
+
+    async size(): Promise<number> {
+        return redisClient.hlen(this.key);
+    }
+
+    async deadLetterCount(): Promise<number> {
+        return redisClient.llen(this.deadLetterKey);
+    }
+
+    /**
+     * Everything waiting, oldest first
+     */
+    async entries(): Promise<PendingItem[]> {
+        const stored = await redisClient.hgetall(this.key);
+        const items = Object.entries(stored).map(([field, raw]) => {
+            let entry: PendingEntry | null = null;
+            try {
+                entry = JSON.parse(raw);
+            } catch {
+                // Dead-lettered on the next replay
+            }
+            return { field, raw, entry };
+        });
+        return items.sort((a, b) => (a.entry?.queuedAt ?? 0) - (b.entry?.queuedAt ?? 0));
+    }
+
+    /**
+     * Drop a replayed entry, unless a newer value was queued while it was replaying
+     */
+    async settle(item: PendingItem): Promise<void> {
+        await redisClient.eval(SETTLE_SCRIPT, 2, this.key, this.deadLetterKey, item.field, item.raw, '', '', DEAD_LETTER_LIMIT);
+    }
+
+    /**
+     * Count a failed replay. Returns true when the entry was moved to the dead-letter list.
+     */
+    async fail(item: PendingItem, error: any): Promise<boolean> {
+        const lastError = error?.message || String(error);
+        const attempts = (item.entry?.attempts ?? 0) + 1;
+
+        if (!item.entry || attempts >= MAX_ATTEMPTS) {
+            const deadLetter: DeadLetter | { raw: string; lastError: string; failedAt: number } = item.entry
+                ? { ...item.entry, attempts, lastError, failedAt: Date.now() }
+                : { raw: item.raw, lastError, failedAt: Date.now() };
+            await redisClient.eval(
+                SETTLE_SCRIPT, 2, this.key, this.deadLetterKey,
+                item.field, item.raw, '', JSON.stringify(deadLetter), DEAD_LETTER_LIMIT
+            );
+            return true;
+        }
+
+        const updated: PendingEntry = { ...item.entry, attempts, lastError };
+        await redisClient.eval(
+            SETTLE_SCRIPT, 2, this.key, this.deadLetterKey,
+            item.field, item.raw, JSON.stringify(updated), '', DEAD_LETTER_LIMIT
+        );
+        return false;
+    }
+
+    /**
+     * Drop one cell's queued change. Returns whether there was one.
+     */
+    async remove(field: string): Promise<boolean> {
+        return (await redisClient.hdel(this.key, field)) === 1;
+    }
+
+    /**
+     * Drop the whole backlog. Returns how many cells were waiting.
+     */
+    async clear(): Promise<number> {
+        const size = await this.size();
+        await redisClient.del(this.key);
+        return size;
+    }
+
+    /**
+     * Dead letters, newest first
+     */
+    async deadLetters(offset = 0, limit = 50): Promise<DeadLetter[]> {
+        const items = await redisClient.lrange(this.deadLetterKey, -(offset + limit), -(offset + 1));
+        return items.reverse().map((item) => {
+            try {
+                return JSON.parse(item);
+            } catch {
+                return { raw: item, lastError: 'Unreadable entry', failedAt: 0 };
+            }
+        });
+    }
+
+    /**
+     * Give every dead letter a fresh set of attempts. A cell that has a newer
+     * change waiting keeps that one. Returns how many were queued again.
+     */
+    async requeueDeadLetters(): Promise<number> {
+        let requeued = 0;
+        const unreadable: string[] = [];
+        for (;;) {
+            const item = await redisClient.lpop(this.deadLetterKey);
+            if (!item) break;
+            let deadLetter: Partial<DeadLetter> = {};
+            try {
+                deadLetter = JSON.parse(item);
+            } catch {
+                // Kept below
+            }
+            if (!deadLetter.change) {
+                unreadable.push(item);
+                continue;
+            }
+            const field = `${deadLetter.change.row}:${deadLetter.change.col}`;
+            const entry: PendingEntry = { change: deadLetter.change, queuedAt: deadLetter.queuedAt ?? Date.now(), attempts: 0 };
+            if (await redisClient.hsetnx(this.key, field, JSON.stringify(entry))) requeued++;
+        }
+        // Nothing to replay in these; they stay for inspection
+        if (unreadable.length > 0) {
+            await redisClient.rpush(this.deadLetterKey, ...unreadable);
+        }
+        return requeued;
+    }
+
+    async clearDeadLetters(): Promise<number> {
+        const count = await this.deadLetterCount();
+        await redisClient.del(this.deadLetterKey);
+        return count;
+    }
+
+    /**
+     * Fold a backlog left by an older version, which kept one list entry per
+     * change, into the per-cell form. Later changes to a cell win.
+     */
+    async migrateLegacyList(): Promise<number> {
+        if (await redisClient.type(this.key) !== 'list') return 0;
+
+        const items = await redisClient.lrange(this.key, 0, -1);
+        await redisClient.del(this.key);
+        for (const item of items) {
+            try {
+                const { timestamp, ...change } = JSON.parse(item);
+                await this.add(change, timestamp || Date.now());
+            } catch {
+                await redisClient.rpush(this.deadLetterKey, JSON.stringify({
+                    raw: item,
+                    lastError: 'Unreadable entry',
+                    failedAt: Date.now(),
+                }));
+            }
+        }
+        return items.length;
+    }
+}
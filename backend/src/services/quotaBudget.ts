@@ -0,0 +1,78 @@
+import redisClient from '../config/redis';
+import { quotaKey } from '../utils/redisKeys';
+
+// Google allows 300 requests/min per project; leave headroom for the Apps Script installer and retries
+const LIMIT = Math.max(1, parseInt(process.env.SHEETS_QUOTA_PER_MINUTE || '240'));
+const WINDOW_MS = 60000;
+// Polls may spend this share of a window; the rest is kept for DB → Sheet pushes
+const POLL_SHARE = 0.75;
+// A push waits at most this long for budget; after that it is held back and retried later
+const MAX_PUSH_WAIT_MS = 2 * WINDOW_MS;
+
+/**
+ * What a request is for. Polls are skipped when their share is spent; pushes
+ * carry DB writes and wait for the next window instead.
+ */
+export type QuotaUse = 'poll' | 'push';
+
+export class QuotaBudget {
+    readonly limit = LIMIT;
+
+    /**
+     * Spend `cost` requests from the current window if `use` still has room.
+     * Redis being unreachable doesn't block syncing: the request is allowed.
+     */
+    async take(use: QuotaUse, cost = 1): Promise<boolean> {
+        const cap = use === 'poll' ? Math.floor(LIMIT * POLL_SHARE) : LIMIT;
+        const script = `
+            local used = tonumber(redis.call('GET', KEYS[1]) or '0')
+            if used + tonumber(ARGV[1]) > tonumber(ARGV[2]) then
+                return -1
+            end
+            used = redis.call('INCRBY', KEYS[1], ARGV[1])
+            redis.call('PEXPIRE', KEYS[1], ARGV[3])
+            return used
+        `;
+
+        try {
+            const used = await redisClient.eval(script, 1, quotaKey(this.windowStart()), cost, cap, 2 * WINDOW_MS);
+            return used !== -1;
+        } catch (error: any) {
+            console.warn('⚠️ Could not check the Sheets quota budget:', error.message || error);
+            return true;
+        }
+    }
+
+    /**
+     * Take budget for a push, waiting for later windows while the current one is spent.
+     * Returns false if it gave up after MAX_PUSH_WAIT_MS.
+     */
+    async waitFor(cost = 1): Promise<boolean> {
+        const deadline = Date.now() + MAX_PUSH_WAIT_MS;
+        while (!(await this.take('push', cost))) {
+            if (Date.now() >= deadline) return false;
+            console.log(`⏳ Sheets quota budget spent, waiting ${Math.ceil(this.resetsInMs() / 1000)}s for the next window...`);
+            await this.delay(Math.min(this.resetsInMs(), deadline - Date.now()) + 50);
+        }
+        return true;
+    }
+
+    async usage(): Promise<{ used: number; limit: number; resetsInMs: number }> {
+        const used = await redisClient.get(quotaKey(this.windowStart())).catch(() => null);
+        return { used: parseInt(used || '0'), limit: LIMIT, resetsInMs: this.resetsInMs() };
+    }
+
+    private windowStart(): number {
+        return Math.floor(Date.now() / WINDOW_MS) * WINDOW_MS;
+    }
+
+    private resetsInMs(): number {
+        return this.windowStart() + WINDOW_MS - Date.now();
+    }
+
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
+
+export default new QuotaBudget();
@@ -0,0 +1,122 @@
+import type { Store, Options, IncrementResponse } from 'express-rate-limit';
+import redisClient from '../config/redis';
+import { rateLimitKey, rateLimitStatsKey } from '../utils/redisKeys';
+
+export const RATE_LIMIT_WINDOW_MS = Math.max(1000, parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000'));
+
+/**
+ * Endpoints with a limit of their own
+ */
+export const RATE_LIMITED = ['webhook', 'sql', 'bots'] as const;
+export type RateLimited = typeof RATE_LIMITED[number];
+
+/**
+ * Who a counter belongs to: the caller (an API key's name, or the spreadsheet
+ * for webhooks) or the address the request came from
+ */
+export type RateLimitScope = 'client' | 'ip';
+
+export interface RateLimitPolicy {
+    perClient: number;
+    perIp: number;
+}
+
+// Requests per window. Apps Script sends one webhook per edit (or per paste), bots are expensive
+const DEFAULTS: Record<RateLimited, RateLimitPolicy> = {
+    webhook: { perClient: 600, perIp: 1200 },
+    sql: { perClient: 60, perIp: 120 },
+    bots: { perClient: 5, perIp: 10 },
+};
+
+function readLimit(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '');
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * RATE_LIMIT_<ENDPOINT> limits each client, RATE_LIMIT_<ENDPOINT>_IP each address
+ */
+export const RATE_LIMIT_POLICIES: Record<RateLimited, RateLimitPolicy> = Object.fromEntries(
+    RATE_LIMITED.map(endpoint => {
+        const name = `RATE_LIMIT_${endpoint.toUpperCase()}`;
+        return [endpoint, {
+            perClient: readLimit(name, DEFAULTS[endpoint].perClient),
+            perIp: readLimit(`${name}_IP`, DEFAULTS[endpoint].perIp),
+        }];
+    })
+) as Record<RateLimited, RateLimitPolicy>;
+
+/**
+ * express-rate-limit store counting fixed windows in Redis, so every replica
+ * enforces the same budget
+ */
+export class RedisRateLimitStore implements Store {
+    readonly localKeys = false;
+    readonly prefix: string;
+    private windowMs = RATE_LIMIT_WINDOW_MS;
+
+    constructor(readonly endpoint: RateLimited, readonly scope: RateLimitScope) {
+        this.prefix = `${endpoint}:${scope}`;
+    }
+
+    init(options: Options): void {
+        this.windowMs = options.windowMs;
+    }
+
+    async increment(key: string): Promise<IncrementResponse> {
+        const script = `
+            local hits = redis.call('INCR', KEYS[1])
+            if hits == 1 then
+                redis.call('PEXPIRE', KEYS[1], ARGV[1])
+            end
+            local ttl = redis.call('PTTL', KEYS[1])
+            if ttl < 0 then
+                redis.call('PEXPIRE', KEYS[1], ARGV[1])
+                ttl = tonumber(ARGV[1])
+            end
+            if ARGV[2] == '1' then
+                redis.call('HINCRBY', KEYS[2], 'requests', 1)
+            end
+            return { hits, ttl }
+        `;
+        // Every request passes the per-IP limiter first, so that one counts them
+        const [totalHits, ttl] = await redisClient.eval(
+            script, 2, rateLimitKey(this.prefix, key), rateLimitStatsKey(this.endpoint),
+            this.windowMs, this.scope === 'ip' ? '1' : '0'
+        ) as [number, number];
+        return { totalHits, resetTime: new Date(Date.now() + ttl) };
+    }
+
+    async decrement(key: string): Promise<void> {
+        await redisClient.decr(rateLimitKey(this.prefix, key));
+    }
+
+    async resetKey(key: string): Promise<void> {
+        await redisClient.del(rateLimitKey(this.prefix, key));
+    }
+}
+
+/**
+ * Count a request turned away with 429, for the status endpoint
+ */
+export async function recordRejection(endpoint: RateLimited, scope: RateLimitScope): Promise<void> {
+    await redisClient.hincrby(rateLimitStatsKey(endpoint), `limited:${scope}`, 1).catch(() => undefined);
+}
+
+/**
+ * Configured limits and the requests seen and rejected by every instance
+ * since Redis was last flushed
+ */
+export async function rateLimitStatus() {
+    return Promise.all(RATE_LIMITED.map(async endpoint => {
+        const counters = await redisClient.hgetall(rateLimitStatsKey(endpoint)).catch(() => ({} as Record<string, string>));
+        return {
+            endpoint,
+            windowMs: RATE_LIMIT_WINDOW_MS,
+            ...RATE_LIMIT_POLICIES[endpoint],
+            requests: parseInt(counters.requests || '0'),
+            limitedByClient: parseInt(counters['limited:client'] || '0'),
+            limitedByIp: parseInt(counters['limited:ip'] || '0'),
+        };
+    }));
+}
@@ -0,0 +1,561 @@
+import { google } from 'googleapis';
+import fs from 'fs/promises';
+import path from 'path';
+import { createJwtClient, SHEETS_SCOPE } from '../config/google';
+import { columnToIndex, indexToColumn, parseCellRef } from '../utils/a1';
+import { TypedValue, enteredValue, fromSheet, inferValue } from '../utils/cellValues';
+import { Axis } from '../utils/structure';
+import { formatCsv, parseCsv } from '../utils/csv';
+import { readWorkbook, writeWorkbook } from '../utils/xlsx';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/** A value written as if typed into the sheet (USER_ENTERED) */
+export type SheetInputValue = string | number | boolean;
+
+/** Developer metadata attached to a row or column; it moves with it */
+export interface DimensionMetadata {
+    id: number;
+    key: string;
+}
+
+/**
+ * A tab, or a range of it, as read
+ */
+export interface SheetGrid {
+    sheetGid: number | null;
+    startRow: number;     // First row of the grid, from 1
+    startCol: number;     // Index of its first column, from 0
+    cells: Map<string, TypedValue>;                  // Non-empty cells by "row:COL"
+    rowMetadata: Map<number, DimensionMetadata[]>;   // By row number
+    colMetadata: Map<number, DimensionMetadata[]>;   // By column index
+}
+
+export interface GridRequest {
+    sheetName: string;
+    range?: string;       // A1 range within the tab; omitted: the tab's used range
+}
+
+export interface CellWrite {
+    sheetName: string;
+    cell: string;         // "B4"
+    value: SheetInputValue;
+}
+
+export interface MetadataRequest {
+    sheetGid: number;
+    axis: Axis;
+    position: number;     // Row number, or column index
+    key: string;
+}
+
+/**
+ * Where the sync engine reads and writes spreadsheets. Google Sheets in
+ * production; in memory or local XLSX/CSV files for development and CI.
+ */
+export interface SpreadsheetProvider {
+    readonly kind: 'google' | 'memory' | 'file';
+    /** Authenticate, where the backend needs it. Calls made before connect() connect first. */
+    connect(): Promise<void>;
+    /** One grid per request, in request order, read in a single call */
+    readGrids(spreadsheetId: string, requests: GridRequest[]): Promise<SheetGrid[]>;
+    /** Write cells as if typed in: formulas, '-prefixed text, dates and numbers are parsed */
+    writeCells(spreadsheetId: string, writes: CellWrite[]): Promise<void>;
+    /** Attach metadata to rows or columns; the new ids in request order (null where none came back) */
+    createDimensionMetadata(spreadsheetId: string, requests: MetadataRequest[]): Promise<(number | null)[]>;
+}
+
+/**
+ * Quote a tab name for use in an A1 range ("My Tab" → 'My Tab'!A1)
+ */
+function qualifiedRange(sheetName: string, ref: string): string {
+    return `${quotedSheetName(sheetName)}!${ref}`;
+}
+
+function quotedSheetName(sheetName: string): string {
+    return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Typed value of one cell from spreadsheets.get grid data. Formula cells keep
+ * their formula next to the value it computed.
+ */
+function gridValue(display: string, cell: any): TypedValue {
+    const formula: string | undefined = cell.userEnteredValue?.formulaValue;
+    const effective = cell.effectiveValue ?? {};
+    const raw = effective.numberValue ?? effective.boolValue ?? effective.stringValue;
+    const typed: TypedValue = effective.errorValue
+        ? { type: 'error', display, raw: null }
+        : fromSheet(display, raw, cell.effectiveFormat?.numberFormat);
+    return formula ? { ...typed, formula } : typed;
+}
+
+function gridMetadata(entries: any[] | undefined, start: number): Map<number, DimensionMetadata[]> {
+    const metadata = new Map<number, DimensionMetadata[]>();
+    (entries || []).forEach((entry: any, i: number) => {
+        const found = (entry.developerMetadata || []).map((m: any) => ({ id: Number(m.metadataId), key: m.metadataKey }));
+        if (found.length > 0) metadata.set(start + i, found);
+    });
+    return metadata;
+}
+
+export class GoogleSheetsProvider implements SpreadsheetProvider {
+    readonly kind = 'google';
+    private sheets: any = null;
+    private connecting: Promise<any> | null = null;
+
+    async connect(): Promise<void> {
+        await this.client();
+    }
+
+    private async client(): Promise<any> {
+        if (this.sheets) return this.sheets;
+        if (!this.connecting) {
+            this.connecting = (async () => {
+                const jwtClient = createJwtClient([SHEETS_SCOPE]);
+                await jwtClient.authorize();
+                return google.sheets({ version: 'v4', auth: jwtClient });
+            })();
+        }
+        try {
+            this.sheets = await this.connecting;
+            return this.sheets;
+        } finally {
+            this.connecting = null;
+        }
+    }
+
+    /**
+     * All ranges in one spreadsheets.get, so adding tabs doesn't multiply quota
+     * usage. Grid data gives each cell's displayed string plus its unformatted
+     * value, number format and formula, and the rows' and columns' metadata.
+     * Requests without a range ask for the bare tab.
+     */
+    async readGrids(spreadsheetId: string, requests: GridRequest[]): Promise<SheetGrid[]> {
+        const sheets = await this.client();
+        const response = await sheets.spreadsheets.get({
+            spreadsheetId,
+            ranges: requests.map(r => r.range ? qualifiedRange(r.sheetName, r.range) : quotedSheetName(r.sheetName)),
+            includeGridData: true,
+            fields: 'sheets(properties(sheetId,title),data(startRow,startColumn,'
+                + 'rowData/values(formattedValue,userEnteredValue/formulaValue,effectiveValue,effectiveFormat/numberFormat),'
+                + 'rowMetadata/developerMetadata(metadataId,metadataKey),columnMetadata/developerMetadata(metadataId,metadataKey)))',
+        });
+
+        // Grids come back grouped by tab, each tab's in the order its ranges were asked for
+        const tabs = new Map<string, { gid: number | null; grids: any[] }>();
+        for (const sheet of response.data.sheets || []) {
+            tabs.set(sheet.properties?.title, { gid: sheet.properties?.sheetId ?? null, grids: [...(sheet.data || [])] });
+        }
+
+        return requests.map(request => {
+            const tab = tabs.get(request.sheetName);
+            const grid = tab?.grids.shift() ?? {};
+            const startRow = (grid.startRow ?? 0) + 1;
+            const startCol = grid.startColumn ?? 0;
+            const cells = new Map<string, TypedValue>();
+
+            (grid.rowData || []).forEach((row: any, rowIndex: number) => {
+                (row.values || []).forEach((cell: any, colIndex: number) => {
+                    const display = cell.formattedValue ?? '';
+                    if (display === '') return;
+                    cells.set(`${startRow + rowIndex}:${indexToColumn(startCol + colIndex)}`, gridValue(display, cell));
+                });
+            });
+
+            return {
+                sheetGid: tab?.gid ?? null,
+                startRow,
+                startCol,
+                cells,
+                rowMetadata: gridMetadata(grid.rowMetadata, startRow),
+                colMetadata: gridMetadata(grid.columnMetadata, startCol),
+            };
+        });
+    }
+
+    async writeCells(spreadsheetId: string, writes: CellWrite[]): Promise<void> {
+        if (writes.length === 0) return;
+        const sheets = await this.client();
+        await sheets.spreadsheets.values.batchUpdate({
+            spreadsheetId,
+            requestBody: {
+                valueInputOption: 'USER_ENTERED',
+                data: writes.map(w => ({ range: qualifiedRange(w.sheetName, w.cell), values: [[w.value]] })),
+            },
+        });
+    }
+
+    async createDimensionMetadata(spreadsheetId: string, requests: MetadataRequest[]): Promise<(number | null)[]> {
+        if (requests.length === 0) return [];
+        const sheets = await this.client();
+        const response = await sheets.spreadsheets.batchUpdate({
+            spreadsheetId,
+            requestBody: {
+                requests: requests.map(({ sheetGid, axis, position, key }) => ({
+                    createDeveloperMetadata: {
+                        developerMetadata: {
+                            metadataKey: key,
+                            visibility: 'DOCUMENT',
+                            location: {
+                                dimensionRange: {
+                                    sheetId: sheetGid,
+                                    dimension: axis === 'row' ? 'ROWS' : 'COLUMNS',
+                                    startIndex: axis === 'row' ? position - 1 : position,
+                                    endIndex: axis === 'row' ? position : position + 1,
+                                },
+                            },
+                        },
+                    },
+                })),
+            },
+        });
+        const replies = response.data.replies || [];
+        return requests.map((_, i) => {
+            const id = replies[i]?.createDeveloperMetadata?.developerMetadata?.metadataId;
+            return id === undefined || id === null ? null : Number(id);
+        });
+    }
+}
+
+interface MemorySheet {
+    gid: number;
+    cells: Map<string, TypedValue>;
+    rowMetadata: Map<number, DimensionMetadata[]>;
+    colMetadata: Map<number, DimensionMetadata[]>;
+}
+
+/**
+ * Bounds of an A1 range within a tab ("A1:H20", "B:D", "3:9", "C5"); open ends are unbounded
+ */
+function rangeBounds(range?: string): { fromRow: number; toRow: number; fromCol: number; toCol: number } {
+    const match = range?.toUpperCase().match(/^([A-Z]{0,3})(\d*)(?::([A-Z]{0,3})(\d*))?$/);
+    if (!match) return { fromRow: 1, toRow: Infinity, fromCol: 0, toCol: Infinity };
+    const [, fromColRef, fromRowRef, toColRef = fromColRef, toRowRef = fromRowRef] = match;
+    return {
+        fromRow: fromRowRef ? parseInt(fromRowRef) : 1,
+        toRow: toRowRef ? parseInt(toRowRef) : Infinity,
+        fromCol: fromColRef ? columnToIndex(fromColRef) : 0,
+        toCol: toColRef ? columnToIndex(toColRef) : Infinity,
+    };
+}
+
+function splitKey(key: string): { row: number; colIndex: number } {
+    const [rowStr, col] = key.split(':');
+    return { row: parseInt(rowStr), colIndex: columnToIndex(col) };
+}
+
+/**
+ * Spreadsheets held in memory, for development and tests. Tabs are created on
+ * first use. Writes behave like USER_ENTERED except that formulas aren't
+ * evaluated: a formula cell shows its own text. The editing helpers below act
+ * like a person editing the sheet, including metadata that follows inserted
+ * and deleted rows but stays put through a sort.
+ */
+export class MemorySpreadsheetProvider implements SpreadsheetProvider {
+    readonly kind: SpreadsheetProvider['kind'] = 'memory';
+    protected spreadsheets = new Map<string, Map<string, MemorySheet>>();
+    private nextGid = 1;
+    private nextMetadataId = 1;
+
+    async connect(): Promise<void> {}
+
+    /** Bring a spreadsheet up to date before it is read or written */
+    protected async load(_spreadsheetId: string): Promise<void> {}
+
+    /** Persist a spreadsheet after its cells changed */
+    protected async save(_spreadsheetId: string): Promise<void> {}
+
+    protected tab(spreadsheetId: string, sheetName: string): MemorySheet {
+        if (!this.spreadsheets.has(spreadsheetId)) this.spreadsheets.set(spreadsheetId, new Map());
+        const tabs = this.spreadsheets.get(spreadsheetId)!;
+        if (!tabs.has(sheetName)) {
+            tabs.set(sheetName, { gid: this.nextGid++, cells: new Map(), rowMetadata: new Map(), colMetadata: new Map() });
+        }
+        return tabs.get(sheetName)!;
+    }
+
+    async readGrids(spreadsheetId: string, requests: GridRequest[]): Promise<SheetGrid[]> {
+        await this.load(spreadsheetId);
+        return requests.map(({ sheetName, range }) => {
+            const sheet = this.tab(spreadsheetId, sheetName);
+            const bounds = rangeBounds(range);
+            const rowInside = (row: number) => row >= bounds.fromRow && row <= bounds.toRow;
+            const colInside = (colIndex: number) => colIndex >= bounds.fromCol && colIndex <= bounds.toCol;
+
+            const cells = new Map<string, TypedValue>();
+            for (const [key, value] of sheet.cells.entries()) {
+                const { row, colIndex } = splitKey(key);
+                if (rowInside(row) && colInside(colIndex)) cells.set(key, { ...value });
+            }
+            const metadata = (source: Map<number, DimensionMetadata[]>, inside: (p: number) => boolean) =>
+                new Map(Array.from(source.entries()).filter(([position]) => inside(position)).map(([p, m]) => [p, [...m]]));
+
+            return {
+                sheetGid: sheet.gid,
+                startRow: bounds.fromRow,
+                startCol: bounds.fromCol,
+                cells,
+                rowMetadata: metadata(sheet.rowMetadata, rowInside),
+                colMetadata: metadata(sheet.colMetadata, colInside),
+            };
+        });
+    }
+
+    async writeCells(spreadsheetId: string, writes: CellWrite[]): Promise<void> {
+        await this.load(spreadsheetId);
+        for (const write of writes) {
+            const ref = parseCellRef(write.cell);
+            if (!ref) throw new Error(`Invalid cell reference "${write.cell}"`);
+            const cells = this.tab(spreadsheetId, write.sheetName).cells;
+            const value = enteredValue(write.value);
+            if (value) cells.set(`${ref.row}:${ref.col}`, value);
+            else cells.delete(`${ref.row}:${ref.col}`);
+        }
+        await this.save(spreadsheetId);
+    }
+
+    async createDimensionMetadata(spreadsheetId: string, requests: MetadataRequest[]): Promise<(number | null)[]> {
+        const tabs = Array.from(this.spreadsheets.get(spreadsheetId)?.values() ?? []);
+        return requests.map(({ sheetGid, axis, position, key }) => {
+            const sheet = tabs.find(t => t.gid === sheetGid);
+            if (!sheet) return null;
+            const metadata = axis === 'row' ? sheet.rowMetadata : sheet.colMetadata;
+            const id = this.nextMetadataId++;
+            metadata.set(position, [...(metadata.get(position) ?? []), { id, key }]);
+            return id;
+        });
+    }
+
+    /**
+     * Non-empty cells of a tab as displayed, by A1 reference
+     */
+    async getCells(spreadsheetId: string, sheetName: string): Promise<Record<string, string>> {
+        await this.load(spreadsheetId);
+        const cells: Record<string, string> = {};
+        for (const [key, value] of this.tab(spreadsheetId, sheetName).cells.entries()) {
+            const [rowStr, col] = key.split(':');
+            cells[`${col}${rowStr}`] = value.display;
+        }
+        return cells;
+    }
+
+    /**
+     * Type values into cells, by A1 reference; '' clears a cell
+     */
+    async setCells(spreadsheetId: string, sheetName: string, values: Record<string, SheetInputValue>): Promise<void> {
+        await this.writeCells(spreadsheetId, Object.entries(values).map(([cell, value]) => ({ sheetName, cell, value })));
+    }
+
+    /**
+     * Insert `count` empty rows (or columns) before `position`
+     */
+    async insertDimension(spreadsheetId: string, sheetName: string, axis: Axis, position: number, count = 1): Promise<void> {
+        await this.restructure(spreadsheetId, sheetName, axis, p => (p >= position ? p + count : p));
+    }
+
+    /**
+     * Delete `count` rows (or columns) from `position` on, with their metadata
+     */
+    async deleteDimension(spreadsheetId: string, sheetName: string, axis: Axis, position: number, count = 1): Promise<void> {
+        await this.restructure(spreadsheetId, sheetName, axis, p => {
+            if (p < position) return p;
+            return p < position + count ? null : p - count;
+        });
+    }
+
+    /**
+     * Sort rows fromRow..toRow by one column. Values move; row metadata stays
+     * where it is, as in Google Sheets.
+     */
+    async sortRows(spreadsheetId: string, sheetName: string, fromRow: number, toRow: number, col: string, descending = false): Promise<void> {
+        await this.load(spreadsheetId);
+        const sheet = this.tab(spreadsheetId, sheetName);
+        const rows: Map<string, TypedValue>[] = [];
+        for (let row = fromRow; row <= toRow; row++) rows.push(new Map());
+        for (const [key, value] of Array.from(sheet.cells.entries())) {
+            const { row, colIndex } = splitKey(key);
+            if (row < fromRow || row > toRow) continue;
+            rows[row - fromRow].set(indexToColumn(colIndex), value);
+            sheet.cells.delete(key);
+        }
+
+        // Numbers before text, blanks last whichever the direction
+        const sortKey = (row: Map<string, TypedValue>) => row.get(col.toUpperCase())?.raw ?? null;
+        rows.sort((a, b) => {
+            const x = sortKey(a);
+            const y = sortKey(b);
+            if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+            const order = typeof x === 'number' && typeof y === 'number'
+                ? x - y
+                : typeof x === 'number' ? -1 : typeof y === 'number' ? 1 : String(x).localeCompare(String(y));
+            return descending ? -order : order;
+        });
+
+        rows.forEach((values, i) => {
+            for (const [column, value] of values.entries()) sheet.cells.set(`${fromRow + i}:${column}`, value);
+        });
+        await this.save(spreadsheetId);
+    }
+
+    private async restructure(spreadsheetId: string, sheetName: string, axis: Axis, place: (position: number) => number | null) {
+        await this.load(spreadsheetId);
+        const sheet = this.tab(spreadsheetId, sheetName);
+
+        const cells = new Map<string, TypedValue>();
+        for (const [key, value] of sheet.cells.entries()) {
+            const { row, colIndex } = splitKey(key);
+            const target = place(axis === 'row' ? row : colIndex);
+            if (target === null) continue;
+            cells.set(axis === 'row' ? `${target}:${indexToColumn(colIndex)}` : `${row}:${indexToColumn(target)}`, value);
+        }
+        sheet.cells = cells;
+
+        const metadata = axis === 'row' ? sheet.rowMetadata : sheet.colMetadata;
+        const moved = new Map<number, DimensionMetadata[]>();
+        for (const [position, entries] of metadata.entries()) {
+            const target = place(position);
+            if (target !== null) moved.set(target, entries);
+        }
+        if (axis === 'row') sheet.rowMetadata = moved;
+        else sheet.colMetadata = moved;
+
+        await this.save(spreadsheetId);
+    }
+}
+
+/**
+ * Spreadsheets kept as local files in `dir`: `<spreadsheetId>.xlsx` with one
+ * sheet per tab, or a `<spreadsheetId>/` folder of `<tab>.csv` files. Files
+ * edited outside the app (Excel, a text editor) are reloaded when they change.
+ * Metadata lives in memory only, so rows inserted in another program aren't
+ * tracked as moves; a sort still is.
+ */
+export class FileSpreadsheetProvider extends MemorySpreadsheetProvider {
+    readonly kind = 'file';
+    private loadedAt = new Map<string, number>();   // Modification time as last loaded or saved
+
+    constructor(private dir: string, private format: 'xlsx' | 'csv') {
+        super();
+    }
+
+    private location(spreadsheetId: string): string {
+        if (!/^[\w-]+$/.test(spreadsheetId)) throw new Error(`Invalid spreadsheet id "${spreadsheetId}"`);
+        return path.join(this.dir, this.format === 'xlsx' ? `${spreadsheetId}.xlsx` : spreadsheetId);
+    }
+
+    private csvFile(spreadsheetId: string, sheetName: string): string {
+        return path.join(this.location(spreadsheetId), `${sheetName.replace(/[\\/:*?"<>|]/g, '_')}.csv`);
+    }
+
+    /**
+     * Newest modification time of the spreadsheet's file(s); null if there are none
+     */
+    private async modifiedAt(spreadsheetId: string): Promise<number | null> {
+        const location = this.location(spreadsheetId);
+        try {
+            if (this.format === 'xlsx') return (await fs.stat(location)).mtimeMs;
+            const files = (await fs.readdir(location)).filter(f => f.endsWith('.csv'));
+            const times = await Promise.all(files.map(async f => (await fs.stat(path.join(location, f))).mtimeMs));
+            return Math.max((await fs.stat(location)).mtimeMs, ...times);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    protected async load(spreadsheetId: string): Promise<void> {
+        const modified = await this.modifiedAt(spreadsheetId);
+        if (modified === null || modified === this.loadedAt.get(spreadsheetId)) return;
+
+        const location = this.location(spreadsheetId);
+        const tabs = new Map<string, Map<string, TypedValue>>();
+        if (this.format === 'xlsx') {
+            for (const sheet of readWorkbook(await fs.readFile(location))) tabs.set(sheet.name, sheet.cells);
+        } else {
+            for (const file of (await fs.readdir(location)).filter(f => f.endsWith('.csv'))) {
+                const cells = new Map<string, TypedValue>();
+                parseCsv(await fs.readFile(path.join(location, file), 'utf8')).forEach((fields, r) => {
+                    fields.forEach((text, c) => {
+                        if (text === '') return;
+                        const value = text.startsWith('=') ? { ...inferValue(text), formula: text } : inferValue(text);
+                        cells.set(`${r + 1}:${indexToColumn(c)}`, value);
+                    });
+                });
+                tabs.set(file.slice(0, -'.csv'.length), cells);
+            }
+        }
+
+        // Tabs keep their gid and metadata across reloads; ones gone from the file are emptied
+        for (const sheetName of this.spreadsheets.get(spreadsheetId)?.keys() ?? []) {
+            if (!tabs.has(sheetName)) this.tab(spreadsheetId, sheetName).cells = new Map();
+        }
+        for (const [sheetName, cells] of tabs.entries()) {
+            this.tab(spreadsheetId, sheetName).cells = cells;
+        }
+        this.loadedAt.set(spreadsheetId, modified);
+        console.log(`📂 Loaded spreadsheet "${spreadsheetId}" from ${location}`);
+    }
+
+    protected async save(spreadsheetId: string): Promise<void> {
+        const tabs = this.spreadsheets.get(spreadsheetId) ?? new Map<string, MemorySheet>();
+        const location = this.location(spreadsheetId);
+
+        if (this.format === 'xlsx') {
+            await fs.mkdir(this.dir, { recursive: true });
+            const file = writeWorkbook(Array.from(tabs.entries(), ([name, sheet]) => ({ name, cells: sheet.cells })));
+            // Written aside and renamed, so a reader never sees half a file
+            await fs.writeFile(`${location}.tmp`, file);
+            await fs.rename(`${location}.tmp`, location);
+        } else {
+            await fs.mkdir(location, { recursive: true });
+            for (const [sheetName, sheet] of tabs.entries()) {
+                const rows: string[][] = [];
+                for (const [key, value] of sheet.cells.entries()) {
+                    const { row, colIndex } = splitKey(key);
+                    while (rows.length < row) rows.push([]);
+                    const fields = rows[row - 1];
+                    while (fields.length <= colIndex) fields.push('');
+                    fields[colIndex] = value.formula ?? value.display;
+                }
+                const file = this.csvFile(spreadsheetId, sheetName);
+                await fs.writeFile(`${file}.tmp`, formatCsv(rows));
+                await fs.rename(`${file}.tmp`, file);
+            }
+        }
+        this.loadedAt.set(spreadsheetId, (await this.modifiedAt(spreadsheetId)) ?? Date.now());
+    }
+}
+
+/**
+ * Provider named by SPREADSHEET_PROVIDER: 'google' (default), 'memory', or
+ * 'file' (SPREADSHEET_DIR, default ./data/sheets; SPREADSHEET_FILE_FORMAT xlsx | csv)
+ */
+export function createSpreadsheetProvider(kind = process.env.SPREADSHEET_PROVIDER || 'google'): SpreadsheetProvider {
+    switch (kind) {
+        case 'google':
+            return new GoogleSheetsProvider();
+        case 'memory':
+            return new MemorySpreadsheetProvider();
+        case 'file': {
+            const format = process.env.SPREADSHEET_FILE_FORMAT || 'xlsx';
+            if (format !== 'xlsx' && format !== 'csv') {
+                throw new Error(`SPREADSHEET_FILE_FORMAT must be xlsx or csv, got "${format}"`);
+            }
+            return new FileSpreadsheetProvider(path.resolve(process.env.SPREADSHEET_DIR || './data/sheets'), format);
+        }
+        default:
+            throw new Error(`Unknown SPREADSHEET_PROVIDER "${kind}" (expected google, memory or file)`);
+    }
+}
+
+let shared: SpreadsheetProvider | null = null;
+
+/**
+ * The provider every monitor uses unless it is given its own
+ */
+export function spreadsheetProvider(): SpreadsheetProvider {
+    if (!shared) shared = createSpreadsheetProvider();
+    return shared;
+}
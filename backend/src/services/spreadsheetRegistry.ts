@@ -0,0 +1,346 @@
+import { Worker } from 'bullmq';
+import pool from '../config/database';
+import { CDCMonitor } from './cdcMonitor';
+import clusterBus, { ClusterEvent } from './clusterBus';
+import webhookSecrets from './webhookSecrets';
+import { SyncMappingRegistry, parseMappingsFromEnv } from './syncMappingRegistry';
+import { createSheetUpdateWorker } from '../workers/sheetUpdateWorker';
+import { closeSheetUpdateQueue } from '../queues/sheetUpdateQueue';
+import { dropChangeTracking } from '../utils/dbInit';
+import { SpreadsheetConfig, SyncMapping } from '../types/types';
+import pino from 'pino';
+import dotenv from 'dotenv';
+
+dotenv.config();
+const logger = pino();
+
+const SPREADSHEET_KEY_PATTERN = /^[a-zA-Z0-9_-]{1,32}$/;
+const SHEET_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const DEFAULT_SPREADSHEET_KEY = 'default';
+
+// Internal tables a mapping must never sync into
+const RESERVED_TABLES = ['spreadsheets', 'mapping_columns', 'sync_tombstones', 'sync_conflicts', 'cell_history', 'api_keys'];
+
+export interface SpreadsheetEntry {
+    config: SpreadsheetConfig;
+    source: 'env' | 'api';      // env-defined spreadsheets can't be removed at runtime
+    monitor: CDCMonitor;
+    worker: Worker | null;
+    startError: string;
+}
+
+/**
+ * Registry of spreadsheets served by this server. Each one runs its own
+ * CDCMonitor and webhook worker; tables may only be mapped by one spreadsheet.
+ * Every replica runs the workers, only the elected leader runs the monitors.
+ */
+export class SpreadsheetRegistry {
+    private entries: Map<string, SpreadsheetEntry> = new Map();
+    private leading = false;
+
+    /**
+     * Load the env-configured spreadsheet (GOOGLE_SHEET_ID) plus everything
+     * registered through the API, and make sure their tables exist.
+     */
+    async load(): Promise<void> {
+        const configs: { config: SpreadsheetConfig; source: 'env' | 'api' }[] = [];
+
+        if (process.env.GOOGLE_SHEET_ID) {
+            configs.push({
+                source: 'env',
+                config: {
+                    key: DEFAULT_SPREADSHEET_KEY,
+                    sheetId: process.env.GOOGLE_SHEET_ID,
+                    name: 'Default spreadsheet',
+                    mappings: parseMappingsFromEnv(),
+                },
+            });
+        }
+
+        const [rows]: any = await pool.query(
+            'SELECT spreadsheet_key, sheet_id, name, mappings FROM spreadsheets ORDER BY created_at'
+        );
+        for (const row of rows) {
+            configs.push({ source: 'api', config: this.configFromRow(row) });
+        }
+
+        for (const { config, source } of configs) {
+            await this.loadEntry(config, source);
+        }
+
+        logger.info({ spreadsheets: Array.from(this.entries.keys()) }, 'Spreadsheet registry loaded');
+    }
+
+    /**
+     * Initialize and start every loaded spreadsheet. One spreadsheet failing
+     * to come up doesn't stop the others.
+     */
+    async startAll(): Promise<void> {
+        for (const entry of this.entries.values()) {
+            await this.startEntry(entry);
+        }
+    }
+
+    /**
+     * This replica was elected leader: start polling and pushing every spreadsheet
+     */
+    async lead(): Promise<void> {
+        this.leading = true;
+        for (const entry of this.entries.values()) {
+            await this.startMonitor(entry);
+        }
+    }
+
+    /**
+     * Another replica leads: stop the monitors, keep serving webhooks and the API
+     */
+    async follow(): Promise<void> {
+        this.leading = false;
+        for (const entry of this.entries.values()) {
+            entry.monitor.follow();
+        }
+    }
+
+    /**
+     * Apply what another replica announced on the cluster bus
+     */
+    async handleClusterEvent(event: ClusterEvent): Promise<void> {
+        switch (event.type) {
+            case 'sync': {
+                const entry = this.entries.get(event.spreadsheetKey);
+                if (!entry) return;
+                if (entry.monitor.isLeading()) {
+                    await entry.monitor.requestSync(event.mappingId);
+                } else {
+                    await entry.monitor.loadOpenConflicts();
+                }
+                return;
+            }
+            case 'replay_pending': {
+                const entry = this.entries.get(event.spreadsheetKey);
+                if (entry?.monitor.isLeading()) {
+                    await entry.monitor.replayPending(event.mappingId, event.target);
+                }
+                return;
+            }
+            case 'spreadsheet_added': {
+                if (this.entries.has(event.spreadsheetKey)) return;
+                const [rows]: any = await pool.query(
+                    'SELECT spreadsheet_key, sheet_id, name, mappings FROM spreadsheets WHERE spreadsheet_key = ?',
+                    [event.spreadsheetKey]
+                );
+                if (rows.length === 0) return;
+                const entry = await this.loadEntry(this.configFromRow(rows[0]), 'api');
+                if (entry) await this.startEntry(entry);
+                logger.info({ key: event.spreadsheetKey }, 'Spreadsheet registered on another instance');
+                return;
+            }
+            case 'spreadsheet_removed': {
+                const entry = this.entries.get(event.spreadsheetKey);
+                if (!entry) return;
+                await this.stopEntry(entry);
+                this.entries.delete(event.spreadsheetKey);
+                logger.info({ key: event.spreadsheetKey }, 'Spreadsheet removed on another instance');
+                return;
+            }
+        }
+    }
+
+    async stopAll(): Promise<void> {
+        for (const entry of this.entries.values()) {
+            await this.stopEntry(entry);
+        }
+    }
+
+    /**
+     * Register a new spreadsheet at runtime: persist it, create its tables and start syncing
+     */
+    async register(config: SpreadsheetConfig): Promise<SpreadsheetEntry> {
+        this.validate(config);
+        const normalized: SpreadsheetConfig = {
+            key: config.key,
+            sheetId: config.sheetId,
+            name: config.name || config.key,
+            mappings: new SyncMappingRegistry(config.mappings).list(),
+        };
+
+        await pool.query(
+            'INSERT INTO spreadsheets (spreadsheet_key, sheet_id, name, mappings) VALUES (?, ?, ?, ?)',
+            [normalized.key, normalized.sheetId, normalized.name, JSON.stringify(normalized.mappings)]
+        );
+        const entry = this.createEntry(normalized, 'api');
+        await entry.monitor.ensureTables();
+        this.entries.set(normalized.key, entry);
+        await this.startEntry(entry);
+        await clusterBus.publish({ type: 'spreadsheet_added', spreadsheetKey: normalized.key }).catch(() => {});
+
+        logger.info({ key: normalized.key, sheetId: normalized.sheetId }, 'Spreadsheet registered');
+        return entry;
+    }
+
+    /**
+     * Stop syncing a spreadsheet and forget it. Its tables and data are left in
+     * place; only the tombstone triggers are dropped.
+     */
+    async remove(key: string): Promise<boolean> {
+        const entry = this.entries.get(key);
+        if (!entry) return false;
+        if (entry.source === 'env') {
+            throw new Error(`Spreadsheet "${key}" comes from GOOGLE_SHEET_ID and can't be removed at runtime`);
+        }
+
+        await this.stopEntry(entry);
+        await pool.query('DELETE FROM spreadsheets WHERE spreadsheet_key = ?', [key]);
+        // A spreadsheet registered later under the same key must not accept the old script
+        await webhookSecrets.remove(key);
+        for (const mapping of entry.config.mappings) {
+            await dropChangeTracking(mapping.table);
+        }
+        this.entries.delete(key);
+        await clusterBus.publish({ type: 'spreadsheet_removed', spreadsheetKey: key }).catch(() => {});
+
+        logger.info({ key }, 'Spreadsheet removed');
+        return true;
+    }
+
+    list(): SpreadsheetEntry[] {
+        return Array.from(this.entries.values());
+    }
+
+    get(key: string): SpreadsheetEntry | undefined {
+        return this.entries.get(key);
+    }
+
+    /**
+     * The env-configured spreadsheet if there is one, else the first registered
+     */
+    getDefault(): SpreadsheetEntry | undefined {
+        return this.entries.get(DEFAULT_SPREADSHEET_KEY) || this.list()[0];
+    }
+
+    findBySheetId(sheetId: string): SpreadsheetEntry | undefined {
+        return this.list().find(e => e.config.sheetId === sheetId);
+    }
+
+    /**
+     * Find which spreadsheet and mapping own a MySQL table
+     */
+    findByTable(table: string): { spreadsheet: SpreadsheetEntry; mapping: SyncMapping } | undefined {
+        for (const entry of this.entries.values()) {
+            const mapping = entry.monitor.getMappingRegistry().findByTable(table);
+            if (mapping) return { spreadsheet: entry, mapping };
+        }
+        return undefined;
+    }
+
+    allTables(): string[] {
+        return this.list().flatMap(e => e.config.mappings.map(m => m.table.toLowerCase()));
+    }
+
+    /**
+     * Create the tables for every registered mapping (idempotent)
+     */
+    async ensureAllTables(): Promise<void> {
+        for (const entry of this.entries.values()) {
+            await entry.monitor.ensureTables();
+        }
+    }
+
+    private validate(config: SpreadsheetConfig): void {
+        if (!config || typeof config.key !== 'string' || !SPREADSHEET_KEY_PATTERN.test(config.key)) {
+            throw new Error('key must be 1-32 letters, digits, _ or -');
+        }
+        if (typeof config.sheetId !== 'string' || !SHEET_ID_PATTERN.test(config.sheetId)) {
+            throw new Error('Invalid sheetId format');
+        }
+        if (config.name !== undefined && typeof config.name !== 'string') {
+            throw new Error('name must be a string');
+        }
+        if (!Array.isArray(config.mappings)) {
+            throw new Error('mappings must be an array');
+        }
+        if (this.entries.has(config.key)) {
+            throw new Error(`Spreadsheet "${config.key}" is already registered`);
+        }
+        if (this.findBySheetId(config.sheetId)) {
+            throw new Error(`Google spreadsheet ${config.sheetId} is already registered`);
+        }
+
+        // Throws on malformed or duplicate mappings
+        const mappings = new SyncMappingRegistry(config.mappings).list();
+        const taken = this.allTables();
+        for (const mapping of mappings) {
+            const table = mapping.table.toLowerCase();
+            if (RESERVED_TABLES.includes(table)) {
+                throw new Error(`Table "${mapping.table}" is reserved`);
+            }
+            if (taken.includes(table)) {
+                throw new Error(`Table "${mapping.table}" is already mapped by another spreadsheet`);
+            }
+        }
+    }
+
+    private configFromRow(row: any): SpreadsheetConfig {
+        return {
+            key: row.spreadsheet_key,
+            sheetId: row.sheet_id,
+            name: row.name,
+            mappings: typeof row.mappings === 'string' ? JSON.parse(row.mappings) : row.mappings,
+        };
+    }
+
+    private async loadEntry(config: SpreadsheetConfig, source: 'env' | 'api'): Promise<SpreadsheetEntry | null> {
+        try {
+            this.validate(config);
+        } catch (error: any) {
+            console.warn(`⚠️ Skipping spreadsheet "${config.key}": ${error.message}`);
+            return null;
+        }
+        const entry = this.createEntry(config, source);
+        await entry.monitor.ensureTables();
+        this.entries.set(config.key, entry);
+        return entry;
+    }
+
+    private createEntry(config: SpreadsheetConfig, source: 'env' | 'api'): SpreadsheetEntry {
+        return {
+            config,
+            source,
+            monitor: new CDCMonitor(config),
+            worker: null,
+            startError: '',
+        };
+    }
+
+    private async startEntry(entry: SpreadsheetEntry): Promise<void> {
+        if (!entry.worker) {
+            entry.worker = createSheetUpdateWorker(entry.monitor);
+        }
+        if (this.leading) {
+            await this.startMonitor(entry);
+        } else {
+            await entry.monitor.loadOpenConflicts().catch(() => {});
+        }
+    }
+
+    private async startMonitor(entry: SpreadsheetEntry): Promise<void> {
+        try {
+            await entry.monitor.lead();
+            entry.startError = '';
+        } catch (error: any) {
+            entry.startError = error.message || String(error);
+            console.error(`❌ Failed to start spreadsheet "${entry.config.key}": ${entry.startError}`);
+        }
+    }
+
+    private async stopEntry(entry: SpreadsheetEntry): Promise<void> {
+        entry.monitor.stop();
+        if (entry.worker) {
+            await entry.worker.close();
+            entry.worker = null;
+        }
+        await closeSheetUpdateQueue(entry.config.key);
+    }
+}
+
+export default new SpreadsheetRegistry();
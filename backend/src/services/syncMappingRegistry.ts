@@ -0,0 +1,166 @@
+import dotenv from 'dotenv';
+import { SyncMapping } from '../types/types';
+
+dotenv.config();
+
+const MAPPING_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const TABLE_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+const RANGE_PATTERN = /^[A-Z]+\d+:[A-Z]+\d+$/;
+
+// Column types a 'rows' mapping may declare for its headers
+export const COLUMN_TYPES = ['TEXT', 'VARCHAR(255)', 'INT', 'BIGINT', 'DECIMAL(18,4)', 'DOUBLE', 'DATE', 'DATETIME', 'BOOLEAN'];
+
+// Bookkeeping columns every 'rows' table carries; headers may not use these names
+export const ROW_META_COLUMNS = ['row_num', 'sheet_formulas', 'last_modified_by', 'version', 'synced_version', 'updated_at', 'created_at'];
+
+/**
+ * Split a legacy `SHEET_RANGE` value (e.g. "Sheet1!A1:H20") into tab name and range.
+ * A bare tab name ("Sheet1") means the tab's whole used range.
+ */
+function splitSheetRange(sheetRange: string): { sheetName: string; range?: string } {
+    const bang = sheetRange.lastIndexOf('!');
+    if (bang === -1) {
+        return RANGE_PATTERN.test(sheetRange)
+            ? { sheetName: 'Sheet1', range: sheetRange }
+            : { sheetName: sheetRange.replace(/^'(.*)'$/, '$1').replace(/''/g, "'") };
+    }
+    const sheetName = sheetRange.slice(0, bang).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+    return { sheetName, range: sheetRange.slice(bang + 1) || undefined };
+}
+
+/**
+ * Validate a mapping definition, throwing a descriptive error if it is unusable
+ */
+export function validateMapping(mapping: SyncMapping): SyncMapping {
+    if (!mapping || typeof mapping !== 'object') {
+        throw new Error('Sync mapping must be an object');
+    }
+    if (typeof mapping.id !== 'string' || !MAPPING_ID_PATTERN.test(mapping.id)) {
+        throw new Error(`Invalid mapping id "${mapping.id}" (letters, digits, _ and - only)`);
+    }
+    if (typeof mapping.sheetName !== 'string' || mapping.sheetName.trim() === '') {
+        throw new Error(`Mapping "${mapping.id}" is missing sheetName`);
+    }
+    if (mapping.range !== undefined && (typeof mapping.range !== 'string' || !RANGE_PATTERN.test(mapping.range))) {
+        throw new Error(`Mapping "${mapping.id}" has invalid range "${mapping.range}" (expected e.g. A1:H20, or omit it)`);
+    }
+    if (typeof mapping.table !== 'string' || !TABLE_NAME_PATTERN.test(mapping.table)) {
+        throw new Error(`Mapping "${mapping.id}" has invalid table name "${mapping.table}"`);
+    }
+
+    const mode = mapping.mode ?? 'cells';
+    if (mode !== 'cells' && mode !== 'rows') {
+        throw new Error(`Mapping "${mapping.id}" has invalid mode "${mode}" (expected cells or rows)`);
+    }
+    if (mode === 'cells') {
+        return {
+            id: mapping.id,
+            sheetName: mapping.sheetName,
+            ...(mapping.range ? { range: mapping.range } : {}),
+            table: mapping.table,
+        };
+    }
+
+    if (typeof mapping.primaryKey !== 'string' || mapping.primaryKey.trim() === '' || mapping.primaryKey.length > 64) {
+        throw new Error(`Mapping "${mapping.id}" needs a primaryKey header in rows mode`);
+    }
+    if (ROW_META_COLUMNS.includes(mapping.primaryKey.toLowerCase())) {
+        throw new Error(`Mapping "${mapping.id}" primaryKey "${mapping.primaryKey}" is a reserved column name`);
+    }
+    const columnTypes: Record<string, string> = {};
+    for (const [header, type] of Object.entries(mapping.columnTypes ?? {})) {
+        const normalized = String(type).toUpperCase();
+        if (!COLUMN_TYPES.includes(normalized)) {
+            throw new Error(`Mapping "${mapping.id}" column "${header}" has unsupported type "${type}" (allowed: ${COLUMN_TYPES.join(', ')})`);
+        }
+        columnTypes[header] = normalized;
+    }
+    return {
+        id: mapping.id,
+        sheetName: mapping.sheetName,
+        ...(mapping.range ? { range: mapping.range } : {}),
+        table: mapping.table,
+        mode,
+        primaryKey: mapping.primaryKey.trim(),
+        columnTypes,
+    };
+}
+
+/**
+ * Build the mapping list from the environment.
+ *
+ * `SYNC_MAPPINGS` takes a JSON array of `{ id, sheetName, range?, table }`, plus
+ * `mode: 'rows'`, `primaryKey` and optional `columnTypes` for header-row tables.
+ * Without it we fall back to a single mapping built from `SHEET_RANGE` → `users`,
+ * which is the behaviour the server had before mappings existed. Leaving out the
+ * range (e.g. `SHEET_RANGE=Sheet1`, the default) syncs whatever the tab uses.
+ */
+export function parseMappingsFromEnv(): SyncMapping[] {
+    const raw = process.env.SYNC_MAPPINGS;
+    if (raw && raw.trim() !== '') {
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed) || parsed.length === 0) {
+            throw new Error('SYNC_MAPPINGS must be a non-empty JSON array');
+        }
+        return parsed.map(validateMapping);
+    }
+
+    const { sheetName, range } = splitSheetRange(process.env.SHEET_RANGE || 'Sheet1');
+    return [validateMapping({ id: 'users', sheetName, range, table: 'users' })];
+}
+
+/**
+ * Registry of tab → table sync mappings for a spreadsheet.
+ * Each mapping is synced independently (own snapshot, pending queues, ignore keys and locks).
+ */
+export class SyncMappingRegistry {
+    private mappings: Map<string, SyncMapping> = new Map();
+
+    constructor(mappings: SyncMapping[]) {
+        const sheetNames = new Set<string>();
+        const tables = new Set<string>();
+
+        for (const mapping of mappings.map(validateMapping)) {
+            if (this.mappings.has(mapping.id)) {
+                throw new Error(`Duplicate mapping id "${mapping.id}"`);
+            }
+            if (sheetNames.has(mapping.sheetName)) {
+                throw new Error(`Tab "${mapping.sheetName}" is mapped more than once`);
+            }
+            if (tables.has(mapping.table.toLowerCase())) {
+                throw new Error(`Table "${mapping.table}" is mapped more than once`);
+            }
+            sheetNames.add(mapping.sheetName);
+            tables.add(mapping.table.toLowerCase());
+            this.mappings.set(mapping.id, mapping);
+        }
+
+        if (this.mappings.size === 0) {
+            throw new Error('At least one sync mapping is required');
+        }
+    }
+
+    list(): SyncMapping[] {
+        return Array.from(this.mappings.values());
+    }
+
+    get(id: string): SyncMapping | undefined {
+        return this.mappings.get(id);
+    }
+
+    /**
+     * The first mapping — used when a caller doesn't say which tab/table it means
+     */
+    getDefault(): SyncMapping {
+        return this.list()[0];
+    }
+
+    findBySheetName(sheetName: string): SyncMapping | undefined {
+        return this.list().find(m => m.sheetName === sheetName);
+    }
+
+    findByTable(table: string): SyncMapping | undefined {
+        const wanted = table.toLowerCase();
+        return this.list().find(m => m.table.toLowerCase() === wanted);
+    }
+}
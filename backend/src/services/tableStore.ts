@@ -0,0 +1,1092 @@
+import { PoolConnection } from 'mysql2/promise';
+import pool from '../config/database';
+import {
+    createCellTable, ensureChangeTracking, ensureFormulaColumn, ensureValueTypeColumns, ensureVersionColumns,
+} from '../utils/dbInit';
+import { columnToIndex, compareColumns, indexToColumn } from '../utils/a1';
+import { Axis, PositionChange, planMoves, positionPlanner } from '../utils/structure';
+import {
+    CellInput, TypedValue, displayOf, fromColumns, inferValue, isDateType, isNumericType, toTyped, typedColumns,
+} from '../utils/cellValues';
+import { ROW_META_COLUMNS } from './syncMappingRegistry';
+import historyService, { CellChange, cellChange } from './historyService';
+import { LockTarget } from './lockService';
+import conflictService from './conflictService';
+import { SyncEvent, SyncMapping } from '../types/types';
+
+// Writer that tags records a structural edit deletes, so the deletes aren't echoed to the sheet
+export const STRUCTURE_WRITER = 'sheet_structure';
+
+/**
+ * A cell as the sync engine sees it, whatever the table layout behind it
+ */
+export interface CellRow {
+    row_num: number;
+    col_name: string;
+    cell_value: string;
+    last_modified_by: string;
+    version?: number;
+    typed?: TypedValue;    // What to send the sheet; inferred from cell_value when absent
+}
+
+/**
+ * Version bookkeeping of a stored cell (or, in rows mode, of its whole row).
+ * A cell that doesn't exist is version 0.
+ */
+export interface VersionState {
+    version: number;          // Bumped by every write
+    syncedVersion: number;    // Version the sheet last agreed with
+    lastModifiedBy: string;
+    updatedAt: Date | null;
+}
+
+export interface CellState extends VersionState {
+    value: string;
+    formula?: string;   // Set when the value is computed by a formula in the sheet
+}
+
+export interface RowState extends VersionState {
+    values: Map<string, string>;     // column letter → sheet value
+    formulas: Map<string, string>;   // column letter → formula, for formula cells
+}
+
+/**
+ * What a write was based on. 'sheet': an edit made in the sheet, so the stored
+ * cell must not have changed since the sheet last saw it. A number: the version
+ * the writer read. Omitted: write unconditionally.
+ */
+export type WriteBase = 'sheet' | number;
+
+export type WriteOutcome<S = CellState> =
+    | { applied: true; version: number }
+    | { applied: false; current: S };
+
+/**
+ * Where an incremental DB → Sheet pass picks up: rows with `updated_at` at or
+ * after `watermark`, tombstones after `tombstoneId`
+ */
+export interface ChangeMarker {
+    watermark: Date;
+    tombstoneId: number;
+}
+
+/**
+ * A structural edit made in the sheet along one axis, with the events that
+ * describe it for the history
+ */
+export interface StructureChange extends PositionChange {
+    axis: Axis;
+    events: SyncEvent[];
+}
+
+/**
+ * Storage behind one sync mapping. The CDC monitor, webhook worker and bots
+ * only talk to this, so they don't need to know the table layout.
+ */
+export interface TableStore {
+    /** Column that identifies a record of the backing table */
+    readonly keyColumn: string;
+    /** Column holding formulas; a SQL write that names it sets formulas on purpose */
+    readonly formulaColumn: string;
+    ensureTable(): Promise<void>;
+    /**
+     * Write one cell; an empty value clears it. With a `base`, a stale write is
+     * not applied and the current state is returned instead.
+     */
+    writeCell(row: number, col: string, value: CellInput, source: string, base?: WriteBase): Promise<WriteOutcome>;
+    readCell(row: number, col: string): Promise<CellState>;
+    /** Every non-empty cell, ordered by row then column */
+    readCells(): Promise<CellRow[]>;
+    /**
+     * Flag cells as already present in the sheet so they aren't pushed again.
+     * A cell given with a version is skipped if it has been written since.
+     */
+    markSynced(cells: { row: number; col: string; version?: number }[]): Promise<void>;
+    /**
+     * Sheet cells changed by one binlog row event (`before`/`after` are the raw row
+     * images, null for inserts/deletes). `null` means the row has no place in the
+     * sheet yet and needs a full DB → Sheet pass.
+     */
+    cellsFromRowEvent(before: Record<string, any> | null, after: Record<string, any> | null): CellRow[] | null;
+    /** DB clock and newest tombstone, read just before a full pass */
+    changeMarker(): Promise<ChangeMarker>;
+    /** Cells of rows written at or after `since`, plus the newest `updated_at` seen */
+    readChangedCells(since: Date): Promise<{ cells: CellRow[]; watermark: Date | null }>;
+    /** Cells deleted after tombstone `afterId` */
+    readDeletedCells(afterId: number): Promise<{ cells: { row: number; col: string }[]; lastId: number }>;
+    /** Drop tombstones that have been pushed to the sheet */
+    purgeDeletedCells(upToId: number): Promise<void>;
+    /**
+     * Cell changes between two raw records (null = absent), for history of
+     * writes that bypassed the store, e.g. SQL terminal statements
+     */
+    diffRecords(before: Record<string, any> | null, after: Record<string, any> | null, writer: string): CellChange[];
+    /**
+     * Formula cells of raw records, as A1 refs. With `columns` (what an UPDATE
+     * sets), only cells whose value those columns change count.
+     */
+    formulaCells(records: Record<string, any>[], columns?: string[]): string[];
+    /**
+     * Columns a SQL terminal statement may set, and those it may only read
+     * because the sync engine keeps them
+     */
+    terminalColumns(): { writable: string[]; readOnly: string[] };
+    /** Sheet cells one stored record holds: one per cell record, every mapped column per row */
+    cellsPerRecord(): number;
+    /**
+     * What a writer locks to change the cells from `row`/`col` to `toRow`/`toCol`:
+     * the cells themselves, or the whole rows where a write rewrites the record
+     */
+    writeLock(row: number, col: string, toRow?: number, toCol?: string): LockTarget;
+    /**
+     * Apply a structural edit from the sheet as one transaction: stored cells
+     * follow their rows or columns, and those deleted in the sheet are dropped.
+     * Throws, changing nothing, if the stored positions can't be moved cleanly.
+     */
+    applyStructure(change: StructureChange): Promise<void>;
+}
+
+async function readChangeMarker(table: string): Promise<ChangeMarker> {
+    const [[{ now }]]: any = await pool.query('SELECT CURRENT_TIMESTAMP AS now');
+    const [[{ lastId }]]: any = await pool.query(
+        'SELECT COALESCE(MAX(id), 0) AS lastId FROM sync_tombstones WHERE table_name = ?',
+        [table]
+    );
+    return { watermark: now, tombstoneId: Number(lastId) };
+}
+
+async function readTombstones(table: string, afterId: number): Promise<{ row: number; col: string | null; id: number }[]> {
+    const [rows]: any = await pool.query(
+        'SELECT id, row_num, col_name FROM sync_tombstones WHERE table_name = ? AND id > ? AND row_num IS NOT NULL ORDER BY id',
+        [table, afterId]
+    );
+    return rows.map((r: any) => ({ row: r.row_num, col: r.col_name, id: Number(r.id) }));
+}
+
+async function purgeTombstones(table: string, upToId: number): Promise<void> {
+    await pool.query('DELETE FROM sync_tombstones WHERE table_name = ? AND id <= ?', [table, upToId]);
+}
+
+function newestUpdate(rows: any[]): Date | null {
+    return rows.reduce((max: Date | null, r: any) => (!max || r.updated_at > max ? r.updated_at : max), null);
+}
+
+function versionState(record: any): VersionState {
+    return {
+        version: record ? Number(record.version) : 0,
+        syncedVersion: record ? Number(record.synced_version) : 0,
+        lastModifiedBy: record ? cellText(record.last_modified_by) : '',
+        updatedAt: record ? record.updated_at : null,
+    };
+}
+
+/**
+ * Whether a write based on `base` would overwrite a change its writer never saw
+ */
+function isStale(current: VersionState, base: WriteBase | undefined): boolean {
+    if (base === undefined) return false;
+    return base === 'sheet' ? current.version !== current.syncedVersion : current.version !== base;
+}
+
+export async function withTransaction<T>(work: (conn: PoolConnection) => Promise<T>): Promise<T> {
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+        const result = await work(conn);
+        await conn.commit();
+        return result;
+    } catch (error) {
+        await conn.rollback().catch(() => {});
+        throw error;
+    } finally {
+        conn.release();
+    }
+}
+
+function cellText(value: any): string {
+    if (value === null || value === undefined) return '';
+    return Buffer.isBuffer(value) ? value.toString('utf8') : String(value);
+}
+
+/**
+ * Carry out a position plan on a table's row_num or col_name. Deleted positions
+ * are tagged with STRUCTURE_WRITER before they go, and moves keep the version,
+ * so the binlog listener can tell both from writes. Moves pass through negative
+ * rows ('~'-prefixed columns) so swapped positions don't trip the unique key.
+ */
+async function applyPlan(conn: PoolConnection, table: string, axis: Axis, plan: Map<number, number | null>): Promise<void> {
+    const column = axis === 'row' ? 'row_num' : 'col_name';
+    const stored = (position: number) => (axis === 'row' ? position : indexToColumn(position));
+    const deleted = Array.from(plan.entries()).filter(([, to]) => to === null).map(([from]) => stored(from));
+    const moved = Array.from(plan.entries()).filter(([from, to]) => to !== null && to !== from) as [number, number][];
+
+    if (deleted.length > 0) {
+        await conn.query('UPDATE ?? SET last_modified_by = ?, updated_at = updated_at WHERE ?? IN (?)', [table, STRUCTURE_WRITER, column, deleted]);
+        await conn.query('DELETE FROM ?? WHERE ?? IN (?)', [table, column, deleted]);
+    }
+    if (moved.length === 0) return;
+
+    const cases = moved.map(() => 'WHEN ? THEN ?').join(' ');
+    const params = moved.flatMap(([from, to]) => [stored(from), stored(to)]);
+    const sources = moved.map(([from]) => stored(from));
+    if (axis === 'row') {
+        await conn.query(
+            `UPDATE ?? SET row_num = -(CASE row_num ${cases} END), updated_at = updated_at WHERE row_num IN (?)`,
+            [table, ...params, sources]
+        );
+        await conn.query('UPDATE ?? SET row_num = -row_num, updated_at = updated_at WHERE row_num < 0', [table]);
+    } else {
+        await conn.query(
+            `UPDATE ?? SET col_name = CONCAT('~', CASE col_name ${cases} END), updated_at = updated_at WHERE col_name IN (?)`,
+            [table, ...params, sources]
+        );
+        await conn.query(`UPDATE ?? SET col_name = SUBSTRING(col_name, 2), updated_at = updated_at WHERE col_name LIKE '~%'`, [table]);
+    }
+}
+
+/**
+ * Where a cell lands after a structural edit along `axis`; null if deleted
+ */
+function cellPlacer(change: StructureChange): (row: number, col: string) => { row: number; col: string } | null {
+    const place = positionPlanner(change);
+    return (row, col) => {
+        const target = place(change.axis === 'row' ? row : columnToIndex(col));
+        if (target === null) return null;
+        return change.axis === 'row' ? { row: target, col } : { row, col: indexToColumn(target) };
+    };
+}
+
+function withFormula(typed: TypedValue, formula: string | undefined): TypedValue {
+    return formula ? { ...typed, formula } : typed;
+}
+
+function cellState(record: any): CellState {
+    const formula = record?.formula ? cellText(record.formula) : undefined;
+    return { value: cellText(record?.cell_value), formula, ...versionState(record) };
+}
+
+function cellRow(record: any): CellRow {
+    const value = cellText(record.cell_value);
+    return {
+        row_num: record.row_num,
+        col_name: cellText(record.col_name),
+        cell_value: value,
+        last_modified_by: record.last_modified_by,
+        version: record.version,
+        typed: withFormula(fromColumns(value, record), record.formula ? cellText(record.formula) : undefined),
+    };
+}
+
+// Cell-table columns that change what a cell shows
+const CELL_VALUE_COLUMNS = ['cell_value', 'row_num', 'col_name'];
+
+/**
+ * Default layout: one `(row_num, col_name, cell_value)` row per sheet cell
+ */
+export class CellTableStore implements TableStore {
+    readonly keyColumn = 'id';
+    readonly formulaColumn = 'formula';
+
+    constructor(private table: string) {}
+
+    async ensureTable(): Promise<void> {
+        await createCellTable(this.table);
+        await ensureVersionColumns(this.table);
+        await ensureValueTypeColumns(this.table);
+        await ensureFormulaColumn(this.table, false);
+        await ensureChangeTracking(this.table, false);
+    }
+
+    async writeCell(row: number, col: string, input: CellInput, source: string, base?: WriteBase): Promise<WriteOutcome> {
+        const typed = toTyped(input);
+        const value = typed.display;
+        return withTransaction(async (conn) => {
+            const [rows]: any = await conn.query(
+                `SELECT cell_value, formula, version, synced_version, last_modified_by, updated_at FROM ??
+                 WHERE row_num = ? AND col_name = ? FOR UPDATE`,
+                [this.table, row, col]
+            );
+            const current = cellState(rows[0]);
+            // Writing the value that is already stored can't lose anything
+            if (current.value !== value && isStale(current, base)) {
+                return { applied: false, current };
+            }
+            // A bare value equal to what the formula computes leaves the formula in place
+            const formula = typeof input === 'string' ? (value === current.value ? current.formula : undefined) : typed.formula;
+
+            const version = current.version + 1;
+            if (value === '') {
+                await conn.query('DELETE FROM ?? WHERE row_num = ? AND col_name = ?', [this.table, row, col]);
+            } else {
+                const { value_type, num_value, date_value } = typedColumns(typed);
+                await conn.query(
+                    `INSERT INTO ?? (row_num, col_name, cell_value, value_type, num_value, date_value, formula, last_modified_by, version, synced_version)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                     ON DUPLICATE KEY UPDATE cell_value = VALUES(cell_value), value_type = VALUES(value_type),
+                        num_value = VALUES(num_value), date_value = VALUES(date_value), formula = VALUES(formula),
+                        last_modified_by = VALUES(last_modified_by), version = VALUES(version), synced_version = VALUES(synced_version)`,
+                    [
+                        this.table, row, col, value, value_type, num_value, date_value, formula ?? null, source,
+                        version, base === 'sheet' ? version : current.syncedVersion,
+                    ]
+                );
+            }
+            await historyService.record(this.table, [
+                cellChange(row, col, current.value, value, base === 'sheet' ? 'sheet' : 'db', source, version),
+            ], conn);
+            return { applied: true, version };
+        });
+    }
+
+    /**
+     * Type records from their text, for writes that set `cell_value` without the
+     * typed columns (e.g. `UPDATE ... SET cell_value = '2024-03-01'` from SQL)
+     */
+    async typeFromText(records: Record<string, any>[]): Promise<void> {
+        for (const record of records) {
+            const { value_type, num_value, date_value } = typedColumns(inferValue(cellText(record.cell_value)));
+            await pool.query(
+                'UPDATE ?? SET value_type = ?, num_value = ?, date_value = ? WHERE id = ?',
+                [this.table, value_type, num_value, date_value, record.id]
+            );
+        }
+    }
+
+    async readCell(row: number, col: string): Promise<CellState> {
+        const [rows]: any = await pool.query(
+            `SELECT cell_value, formula, version, synced_version, last_modified_by, updated_at FROM ??
+             WHERE row_num = ? AND col_name = ?`,
+            [this.table, row, col]
+        );
+        return cellState(rows[0]);
+    }
+
+    async readCells(): Promise<CellRow[]> {
+        const [rows]: any = await pool.query(
+            `SELECT row_num, col_name, cell_value, value_type, num_value, date_value, formula, last_modified_by, version FROM ??
+             ORDER BY row_num, col_name`,
+            [this.table]
+        );
+        return rows.map(cellRow);
+    }
+
+    async markSynced(cells: { row: number; col: string; version?: number }[]): Promise<void> {
+        for (const cell of cells) {
+            await pool.query(
+                `UPDATE ?? SET last_modified_by = 'sheet', synced_version = version
+                 WHERE row_num = ? AND col_name = ? AND (? IS NULL OR version = ?)`,
+                [this.table, cell.row, cell.col, cell.version ?? null, cell.version ?? null]
+            );
+        }
+    }
+
+    changeMarker(): Promise<ChangeMarker> {
+        return readChangeMarker(this.table);
+    }
+
+    async readChangedCells(since: Date): Promise<{ cells: CellRow[]; watermark: Date | null }> {
+        const [rows]: any = await pool.query(
+            `SELECT row_num, col_name, cell_value, value_type, num_value, date_value, formula, last_modified_by, version, updated_at FROM ??
+             WHERE updated_at >= ? ORDER BY row_num, col_name`,
+            [this.table, since]
+        );
+        return { cells: rows.map(cellRow), watermark: newestUpdate(rows) };
+    }
+
+    async readDeletedCells(afterId: number): Promise<{ cells: { row: number; col: string }[]; lastId: number }> {
+        const tombstones = await readTombstones(this.table, afterId);
+        return {
+            cells: tombstones.filter(t => t.col !== null).map(t => ({ row: t.row, col: t.col! })),
+            lastId: tombstones.length > 0 ? tombstones[tombstones.length - 1].id : afterId,
+        };
+    }
+
+    purgeDeletedCells(upToId: number): Promise<void> {
+        return purgeTombstones(this.table, upToId);
+    }
+
+    diffRecords(before: Record<string, any> | null, after: Record<string, any> | null, writer: string): CellChange[] {
+        const changes: CellChange[] = [];
+        const version = after ? Number(after.version) : null;
+        const moved = !!before && !!after && (before.row_num !== after.row_num || before.col_name !== after.col_name);
+
+        if (before && (!after || moved)) {
+            changes.push(cellChange(before.row_num, cellText(before.col_name), cellText(before.cell_value), '', 'db', writer, version));
+        }
+        if (after) {
+            const oldValue = before && !moved ? cellText(before.cell_value) : '';
+            changes.push(cellChange(after.row_num, cellText(after.col_name), oldValue, cellText(after.cell_value), 'db', writer, version));
+        }
+        return changes;
+    }
+
+    formulaCells(records: Record<string, any>[], columns?: string[]): string[] {
+        if (columns && !columns.some(c => CELL_VALUE_COLUMNS.includes(c.toLowerCase()))) return [];
+        return records.filter(r => r.formula).map(r => `${cellText(r.col_name)}${r.row_num}`);
+    }
+
+    terminalColumns(): { writable: string[]; readOnly: string[] } {
+        return {
+            writable: ['row_num', 'col_name', 'cell_value', 'value_type', 'num_value', 'date_value', 'formula', 'version'],
+            readOnly: ['id', 'last_modified_by', 'synced_version', 'updated_at', 'created_at'],
+        };
+    }
+
+    cellsPerRecord(): number {
+        return 1;
+    }
+
+    writeLock(row: number, col: string, toRow = row, toCol = col): LockTarget {
+        return row === toRow && col === toCol
+            ? { kind: 'cell', row, col }
+            : { kind: 'range', range: `${col}${row}:${toCol}${toRow}` };
+    }
+
+    async applyStructure(change: StructureChange): Promise<void> {
+        const byRow = change.axis === 'row';
+        await withTransaction(async (conn) => {
+            const [rows]: any = await conn.query(`SELECT DISTINCT ${byRow ? 'row_num' : 'col_name'} AS position FROM ??`, [this.table]);
+            const positions: number[] = rows.map((r: any) => (byRow ? r.position : columnToIndex(cellText(r.position))));
+            await applyPlan(conn, this.table, change.axis, planMoves(positions, change, change.axis));
+            await conflictService.followStructure(this.table, cellPlacer(change), conn);
+            await historyService.recordStructure(this.table, change.events, conn);
+        });
+    }
+
+    cellsFromRowEvent(before: Record<string, any> | null, after: Record<string, any> | null): CellRow[] {
+        const cells: CellRow[] = [];
+        const source = after ? cellText(after.last_modified_by) : '';
+
+        // Deleted, or moved to another cell by an UPDATE of row_num/col_name
+        if (before && (!after || before.row_num !== after.row_num || before.col_name !== after.col_name)) {
+            cells.push({ row_num: before.row_num, col_name: cellText(before.col_name), cell_value: '', last_modified_by: source });
+        }
+        if (after) {
+            cells.push({ ...cellRow(after), last_modified_by: source });
+        }
+        return cells;
+    }
+}
+
+/**
+ * Header-row layout: the first row of the range names the columns, and every
+ * sheet row below it is one row of a real table keyed by `primaryKey`.
+ *
+ * Which column letter holds which header is kept in `mapping_columns`, so a
+ * header edited in place is applied as a column rename rather than drop + add.
+ * `row_num` records where a row sits in the sheet; rows inserted from SQL
+ * without one are appended below the last placed row on the next DB → Sheet pass.
+ */
+export class RowTableStore implements TableStore {
+    readonly keyColumn: string;
+    readonly formulaColumn = 'sheet_formulas';
+    private readonly table: string;
+    private readonly primaryKey: string;
+    private readonly columnTypes: Record<string, string>;
+    private headers: Map<string, string> = new Map();   // column letter → column name
+
+    constructor(mapping: SyncMapping, private headerRow: number) {
+        this.table = mapping.table;
+        this.primaryKey = mapping.primaryKey!;
+        this.keyColumn = this.primaryKey;
+        this.columnTypes = mapping.columnTypes ?? {};
+    }
+
+    async ensureTable(): Promise<void> {
+        await pool.query(
+            `CREATE TABLE IF NOT EXISTS ?? (
+                ?? ${this.keyType(this.primaryKey)} NOT NULL PRIMARY KEY,
+                row_num INT NULL,
+                sheet_formulas JSON NULL,
+                last_modified_by VARCHAR(50) DEFAULT 'system',
+                version INT NOT NULL DEFAULT 1,
+                synced_version INT NOT NULL DEFAULT 0,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE KEY unique_row (row_num)
+            )`,
+            [this.table, this.primaryKey]
+        );
+        await ensureVersionColumns(this.table);
+        await ensureFormulaColumn(this.table, true);
+        await ensureChangeTracking(this.table, true);
+
+        const [rows]: any = await pool.query(
+            'SELECT col_name, column_name FROM mapping_columns WHERE table_name = ?',
+            [this.table]
+        );
+        this.headers = new Map(rows.map((r: any) => [r.col_name, r.column_name]));
+    }
+
+    isHeaderRow(row: number): boolean {
+        return row === this.headerRow;
+    }
+
+    /**
+     * Reconcile the stored header for one column letter with what the sheet shows now
+     */
+    async syncHeader(col: string, name: string): Promise<void> {
+        const header = name.trim();
+        const current = this.headers.get(col);
+        if (current === header || (current === undefined && header === '')) return;
+
+        if (header !== '' && !this.isUsableHeader(header, col)) return;
+
+        if (current === this.primaryKey) {
+            console.warn(`⚠️ [${this.table}] Primary key header "${current}" can't be renamed or removed; keeping it`);
+            return;
+        }
+
+        if (header === '') {
+            // Header cleared: stop syncing the column but keep its data
+            await pool.query('DELETE FROM mapping_columns WHERE table_name = ? AND col_name = ?', [this.table, col]);
+            this.headers.delete(col);
+            console.log(`   🗂️  [${this.table}] Column ${col} ("${current}") unmapped`);
+            return;
+        }
+
+        const existing = await this.tableColumns();
+        if (current !== undefined && existing.has(current.toLowerCase()) && !existing.has(header.toLowerCase())) {
+            await pool.query(`ALTER TABLE ?? RENAME COLUMN ?? TO ??`, [this.table, current, header]);
+            console.log(`   🗂️  [${this.table}] Renamed column "${current}" → "${header}"`);
+        } else if (!existing.has(header.toLowerCase())) {
+            await pool.query(`ALTER TABLE ?? ADD COLUMN ?? ${this.columnType(header)} NULL`, [this.table, header]);
+            console.log(`   🗂️  [${this.table}] Added column "${header}" for ${col}`);
+        }
+
+        await pool.query(
+            `INSERT INTO mapping_columns (table_name, col_name, column_name) VALUES (?, ?, ?)
+             ON DUPLICATE KEY UPDATE column_name = VALUES(column_name)`,
+            [this.table, col, header]
+        );
+        this.headers.set(col, header);
+    }
+
+    /**
+     * Upsert the record at a sheet row from that row's cells (column letter → value).
+     * Versions are kept per row, so `base` is checked against the whole record.
+     */
+    async writeRow(row: number, cells: Map<string, CellInput>, source: string, base?: WriteBase): Promise<WriteOutcome<RowState>> {
+        return this.upsertRow(row, () => cells, source, base);
+    }
+
+    /**
+     * `writeRow` with the row's cells worked out from the record as locked by
+     * the transaction, so a single-cell edit merges into the row nobody else is writing
+     */
+    private async upsertRow(
+        row: number,
+        cellsOf: (stored: any | undefined) => Map<string, CellInput>,
+        source: string,
+        base?: WriteBase
+    ): Promise<WriteOutcome<RowState>> {
+        if (this.headers.size === 0) return { applied: true, version: 0 };
+
+        return withTransaction(async (conn) => {
+            const [rows]: any = await conn.query('SELECT * FROM ?? WHERE row_num = ? FOR UPDATE', [this.table, row]);
+            const current = this.rowState(rows[0]);
+            const cells = cellsOf(rows[0]);
+            const values: Record<string, string | number | null> = {};
+            for (const [col, column] of this.headers.entries()) {
+                values[column] = this.toDbValue(column, cells.get(col) ?? '');
+            }
+            const unchanged = Array.from(current.values.entries()).every(([col, value]) => displayOf(cells.get(col)) === value);
+            if (!unchanged && isStale(current, base)) {
+                return { applied: false, current };
+            }
+            const version = current.version + 1;
+
+            // A bare value equal to what a formula computes leaves the formula in place
+            const formulas: Record<string, string> = {};
+            for (const col of this.headers.keys()) {
+                const input = cells.get(col);
+                const formula = typeof input === 'object'
+                    ? input.formula
+                    : displayOf(input) === current.values.get(col) ? current.formulas.get(col) : undefined;
+                if (formula) formulas[col] = formula;
+            }
+
+            const side = base === 'sheet' ? 'sheet' : 'db';
+            const isEmpty = Object.values(values).every(v => v === null);
+            if (isEmpty) {
+                await conn.query('DELETE FROM ?? WHERE row_num = ?', [this.table, row]);
+                await historyService.record(this.table, Array.from(current.values.entries()).map(([col, oldValue]) =>
+                    cellChange(row, col, oldValue, '', side, source, version)
+                ), conn);
+                return { applied: true, version };
+            }
+
+            const key = values[this.primaryKey];
+            if (key === null || key === undefined) {
+                console.warn(`⚠️ [${this.table}] Row ${row} has no "${this.primaryKey}" value yet; not stored`);
+                return { applied: true, version: current.version };
+            }
+
+            // The key may have been edited in place — drop whatever used to sit at this row first
+            await conn.query('DELETE FROM ?? WHERE row_num = ? AND ?? <> ?', [this.table, row, this.primaryKey, key]);
+
+            const columns = Object.keys(values);
+            // Updating the record stored here only touches the columns that changed
+            const stored = rows[0] && String(rows[0][this.primaryKey]) === String(key) ? rows[0] : undefined;
+            const updated = stored
+                ? columns.filter(c => this.toSheetValue(c, stored[c]) !== this.toSheetValue(c, values[c]))
+                : columns;
+            await conn.query(
+                `INSERT INTO ?? (??, row_num, sheet_formulas, last_modified_by, version, synced_version) VALUES (?, ?, ?, ?, ?, ?)
+                 ON DUPLICATE KEY UPDATE ${updated.map(() => '?? = VALUES(??), ').join('')}
+                    row_num = VALUES(row_num), sheet_formulas = VALUES(sheet_formulas), last_modified_by = VALUES(last_modified_by),
+                    version = VALUES(version), synced_version = VALUES(synced_version)`,
+                [
+                    this.table, columns, columns.map(c => values[c]), row,
+                    Object.keys(formulas).length > 0 ? JSON.stringify(formulas) : null, source,
+                    version, base === 'sheet' ? version : current.syncedVersion,
+                    ...updated.flatMap(c => [c, c]),
+                ]
+            );
+            await historyService.record(this.table, Array.from(this.headers.entries()).map(([col, column]) =>
+                cellChange(row, col, current.values.get(col) ?? '', this.toSheetValue(column, values[column]), side, source, version)
+            ), conn);
+            return { applied: true, version };
+        });
+    }
+
+    async writeCell(row: number, col: string, value: CellInput, source: string, base?: WriteBase): Promise<WriteOutcome> {
+        if (this.isHeaderRow(row)) {
+            await this.syncHeader(col, displayOf(value));
+            return { applied: true, version: 0 };
+        }
+        if (!this.headers.has(col)) return { applied: true, version: 0 };
+
+        // Merge the single cell into the row as stored, read under the row lock
+        // so concurrent edits to other cells of the row aren't undone
+        const outcome = await this.upsertRow(row, (stored) => {
+            const cells = new Map<string, CellInput>();
+            if (stored) {
+                for (const [letter, column] of this.headers.entries()) {
+                    cells.set(letter, this.toSheetValue(column, stored[column]));
+                }
+            }
+            cells.set(col, value);
+            return cells;
+        }, source, base);
+        if (outcome.applied) return outcome;
+        const { values, formulas, ...state } = outcome.current;
+        return { applied: false, current: { ...state, value: values.get(col) ?? '', formula: formulas.get(col) } };
+    }
+
+    async readCell(row: number, col: string): Promise<CellState> {
+        const [rows]: any = await pool.query('SELECT * FROM ?? WHERE row_num = ?', [this.table, row]);
+        const { values, formulas, ...state } = this.rowState(rows[0]);
+        return { ...state, value: values.get(col) ?? '', formula: formulas.get(col) };
+    }
+
+    async readCells(): Promise<CellRow[]> {
+        await this.placeNewRows();
+
+        const cells: CellRow[] = [];
+        for (const [col, column] of this.headers.entries()) {
+            // Headers are owned by the sheet; reporting them as synced keeps them from being cleared
+            cells.push({ row_num: this.headerRow, col_name: col, cell_value: column, last_modified_by: 'sheet' });
+        }
+
+        const [rows]: any = await pool.query('SELECT * FROM ?? WHERE row_num IS NOT NULL ORDER BY row_num', [this.table]);
+        for (const record of rows) {
+            const formulas = this.formulasOf(record);
+            for (const [col, column] of this.headers.entries()) {
+                const value = this.toSheetValue(column, record[column]);
+                if (value === '') continue;
+                cells.push({
+                    row_num: record.row_num,
+                    col_name: col,
+                    cell_value: value,
+                    last_modified_by: record.last_modified_by,
+                    version: record.version,
+                    typed: withFormula(this.typedValue(column, value), formulas.get(col)),
+                });
+            }
+        }
+        return cells.sort((a, b) => a.row_num - b.row_num || compareColumns(a.col_name, b.col_name));
+    }
+
+    async markSynced(cells: { row: number; col: string; version?: number }[]): Promise<void> {
+        // Every cell of a row carries the row's version
+        const rows = new Map(cells.map(c => [c.row, c.version]));
+        for (const [row, version] of rows.entries()) {
+            await pool.query(
+                `UPDATE ?? SET last_modified_by = 'sheet', synced_version = version
+                 WHERE row_num = ? AND (? IS NULL OR version = ?)`,
+                [this.table, row, version ?? null, version ?? null]
+            );
+        }
+    }
+
+    changeMarker(): Promise<ChangeMarker> {
+        return readChangeMarker(this.table);
+    }
+
+    async readChangedCells(since: Date): Promise<{ cells: CellRow[]; watermark: Date | null }> {
+        await this.placeNewRows();
+
+        const [rows]: any = await pool.query(
+            'SELECT * FROM ?? WHERE row_num IS NOT NULL AND updated_at >= ? ORDER BY row_num',
+            [this.table, since]
+        );
+        const cells: CellRow[] = [];
+        for (const record of rows) {
+            const formulas = this.formulasOf(record);
+            // Every mapped column, empty ones included, so cleared values reach the sheet
+            for (const [col, column] of this.headers.entries()) {
+                const value = this.toSheetValue(column, record[column]);
+                cells.push({
+                    row_num: record.row_num,
+                    col_name: col,
+                    cell_value: value,
+                    last_modified_by: record.last_modified_by,
+                    version: record.version,
+                    typed: withFormula(this.typedValue(column, value), formulas.get(col)),
+                });
+            }
+        }
+        return { cells, watermark: newestUpdate(rows) };
+    }
+
+    async readDeletedCells(afterId: number): Promise<{ cells: { row: number; col: string }[]; lastId: number }> {
+        const tombstones = await readTombstones(this.table, afterId);
+        const cells: { row: number; col: string }[] = [];
+        for (const tombstone of tombstones) {
+            for (const col of this.headers.keys()) {
+                cells.push({ row: tombstone.row, col });
+            }
+        }
+        return { cells, lastId: tombstones.length > 0 ? tombstones[tombstones.length - 1].id : afterId };
+    }
+
+    purgeDeletedCells(upToId: number): Promise<void> {
+        return purgeTombstones(this.table, upToId);
+    }
+
+    diffRecords(before: Record<string, any> | null, after: Record<string, any> | null, writer: string): CellChange[] {
+        // Rows without a row_num aren't in the sheet; they're recorded when placed
+        const placedBefore = before && before.row_num !== null ? before : null;
+        const placedAfter = after && after.row_num !== null ? after : null;
+        const version = placedAfter ? Number(placedAfter.version) : null;
+        const moved = !placedBefore || !placedAfter || placedBefore.row_num !== placedAfter.row_num;
+
+        const changes: CellChange[] = [];
+        for (const [col, column] of this.headers.entries()) {
+            const oldValue = placedBefore ? this.toSheetValue(column, placedBefore[column]) : '';
+            const newValue = placedAfter ? this.toSheetValue(column, placedAfter[column]) : '';
+            if (!moved) {
+                changes.push(cellChange(placedAfter!.row_num, col, oldValue, newValue, 'db', writer, version));
+                continue;
+            }
+            if (placedBefore) changes.push(cellChange(placedBefore.row_num, col, oldValue, '', 'db', writer, version));
+            if (placedAfter) changes.push(cellChange(placedAfter.row_num, col, '', newValue, 'db', writer, version));
+        }
+        return changes;
+    }
+
+    formulaCells(records: Record<string, any>[], columns?: string[]): string[] {
+        const changed = columns?.map(c => c.toLowerCase());
+        const moved = changed?.includes('row_num') ?? false;
+        const cells: string[] = [];
+        for (const record of records) {
+            if (record.row_num === null) continue;
+            for (const col of this.formulasOf(record).keys()) {
+                if (!changed || moved || changed.includes(this.headers.get(col)!.toLowerCase())) {
+                    cells.push(`${col}${record.row_num}`);
+                }
+            }
+        }
+        return cells;
+    }
+
+    terminalColumns(): { writable: string[]; readOnly: string[] } {
+        const headers = [...this.headers.values()].filter(h => h !== this.primaryKey);
+        return {
+            writable: [this.primaryKey, 'row_num', this.formulaColumn, 'version', ...headers],
+            readOnly: ROW_META_COLUMNS.filter(c => !['row_num', this.formulaColumn, 'version'].includes(c)),
+        };
+    }
+
+    cellsPerRecord(): number {
+        return Math.max(this.headers.size, 1);
+    }
+
+    writeLock(row: number, _col: string, toRow = row): LockTarget {
+        return { kind: 'row', row, toRow };
+    }
+
+    /**
+     * Rows move as whole records. Columns only move their header mapping (and the
+     * formulas keyed by letter); a deleted column is unmapped but keeps its data.
+     */
+    async applyStructure(change: StructureChange): Promise<void> {
+        if (change.axis === 'row') {
+            await withTransaction(async (conn) => {
+                const [rows]: any = await conn.query('SELECT row_num FROM ?? WHERE row_num IS NOT NULL', [this.table]);
+                const plan = planMoves([this.headerRow, ...rows.map((r: any) => r.row_num)], change, 'row');
+                if (plan.get(this.headerRow) !== this.headerRow) {
+                    throw new Error(`header row ${this.headerRow} would move`);
+                }
+                await applyPlan(conn, this.table, 'row', plan);
+                await conflictService.followStructure(this.table, cellPlacer(change), conn);
+                await historyService.recordStructure(this.table, change.events, conn);
+            });
+            return;
+        }
+
+        const plan = planMoves(Array.from(this.headers.keys(), columnToIndex), change, 'col');
+        const letter = (col: string) => {
+            const target = plan.get(columnToIndex(col));
+            return target === null || target === undefined ? null : indexToColumn(target);
+        };
+        const keyLetter = this.keyLetter();
+        if (keyLetter !== undefined && letter(keyLetter) === null) {
+            throw new Error(`primary key column "${this.primaryKey}" was deleted`);
+        }
+
+        const headers = new Map<string, string>();
+        await withTransaction(async (conn) => {
+            const deleted = Array.from(this.headers.keys()).filter(col => letter(col) === null);
+            if (deleted.length > 0) {
+                await conn.query('DELETE FROM mapping_columns WHERE table_name = ? AND col_name IN (?)', [this.table, deleted]);
+            }
+            const moved = Array.from(this.headers.keys()).filter(col => letter(col) !== null && letter(col) !== col);
+            if (moved.length > 0) {
+                await conn.query(
+                    `UPDATE mapping_columns SET col_name = CONCAT('~', CASE col_name ${moved.map(() => 'WHEN ? THEN ?').join(' ')} END)
+                     WHERE table_name = ? AND col_name IN (?)`,
+                    [...moved.flatMap(col => [col, letter(col)]), this.table, moved]
+                );
+                await conn.query(
+                    `UPDATE mapping_columns SET col_name = SUBSTRING(col_name, 2) WHERE table_name = ? AND col_name LIKE '~%'`,
+                    [this.table]
+                );
+            }
+
+            const [records]: any = await conn.query(
+                'SELECT ??, sheet_formulas FROM ?? WHERE sheet_formulas IS NOT NULL',
+                [this.primaryKey, this.table]
+            );
+            for (const record of records) {
+                const formulas: Record<string, string> = {};
+                for (const [col, formula] of this.formulasOf(record).entries()) {
+                    const target = letter(col);
+                    if (target !== null) formulas[target] = formula;
+                }
+                await conn.query(
+                    'UPDATE ?? SET sheet_formulas = ?, updated_at = updated_at WHERE ?? = ?',
+                    [this.table, Object.keys(formulas).length > 0 ? JSON.stringify(formulas) : null, this.primaryKey, record[this.primaryKey]]
+                );
+            }
+
+            await conflictService.followStructure(this.table, cellPlacer(change), conn);
+            await historyService.recordStructure(this.table, change.events, conn);
+
+            for (const [col, column] of this.headers.entries()) {
+                const target = letter(col);
+                if (target !== null) headers.set(target, column);
+            }
+        });
+        this.headers = headers;
+    }
+
+    cellsFromRowEvent(before: Record<string, any> | null, after: Record<string, any> | null): CellRow[] | null {
+        if (after && after.row_num === null) return null;
+
+        const cells: CellRow[] = [];
+        const source = after ? cellText(after.last_modified_by) : '';
+        const moved = !before || !after || before.row_num !== after.row_num;
+
+        if (before && before.row_num !== null && moved) {
+            for (const col of this.headers.keys()) {
+                cells.push({ row_num: before.row_num, col_name: col, cell_value: '', last_modified_by: source });
+            }
+        }
+        if (after) {
+            const formulas = this.formulasOf(after);
+            const formulasBefore = this.formulasOf(before);
+            for (const [col, column] of this.headers.entries()) {
+                const value = this.toSheetValue(column, after[column]);
+                if (!moved && value === this.toSheetValue(column, before![column]) && formulas.get(col) === formulasBefore.get(col)) {
+                    continue;
+                }
+                cells.push({
+                    row_num: after.row_num,
+                    col_name: col,
+                    cell_value: value,
+                    last_modified_by: source,
+                    version: after.version,
+                    typed: withFormula(this.typedValue(column, value), formulas.get(col)),
+                });
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * Give rows inserted from SQL (no row_num yet) a place at the bottom of the sheet
+     */
+    private async placeNewRows(): Promise<void> {
+        const [unplaced]: any = await pool.query('SELECT * FROM ?? WHERE row_num IS NULL', [this.table]);
+        if (unplaced.length === 0) return;
+
+        const [[{ maxRow }]]: any = await pool.query('SELECT MAX(row_num) AS maxRow FROM ??', [this.table]);
+        let next = Math.max(maxRow || 0, this.headerRow) + 1;
+        for (const record of unplaced) {
+            await pool.query('UPDATE ?? SET row_num = ? WHERE ?? = ?', [this.table, next, this.primaryKey, record[this.primaryKey]]);
+            // The row reaches the sheet now, so this is where its cells enter the history
+            await historyService.record(this.table, this.diffRecords(null, { ...record, row_num: next }, cellText(record.last_modified_by)));
+            next++;
+        }
+    }
+
+    private rowState(record: any): RowState {
+        const values = new Map<string, string>();
+        for (const [col, column] of this.headers.entries()) {
+            values.set(col, record ? this.toSheetValue(column, record[column]) : '');
+        }
+        return { ...versionState(record), values, formulas: this.formulasOf(record) };
+    }
+
+    /**
+     * Column letter → formula from a record's `sheet_formulas`. Binlog images may
+     * carry the JSON as text.
+     */
+    private formulasOf(record: any): Map<string, string> {
+        let stored = record?.sheet_formulas;
+        if (typeof stored === 'string' || Buffer.isBuffer(stored)) {
+            try {
+                stored = JSON.parse(cellText(stored));
+            } catch {
+                stored = null;
+            }
+        }
+        const formulas = new Map<string, string>();
+        if (stored && typeof stored === 'object') {
+            for (const [col, formula] of Object.entries(stored)) {
+                if (this.headers.has(col) && typeof formula === 'string' && formula !== '') formulas.set(col, formula);
+            }
+        }
+        return formulas;
+    }
+
+    private keyLetter(): string | undefined {
+        return Array.from(this.headers.entries()).find(([, column]) => column === this.primaryKey)?.[0];
+    }
+
+    private async tableColumns(): Promise<Set<string>> {
+        const [rows]: any = await pool.query('SHOW COLUMNS FROM ??', [this.table]);
+        return new Set(rows.map((r: any) => String(r.Field).toLowerCase()));
+    }
+
+    private isUsableHeader(header: string, col: string): boolean {
+        if (header.length > 64 || ROW_META_COLUMNS.includes(header.toLowerCase())) {
+            console.warn(`⚠️ [${this.table}] Header "${header}" in column ${col} can't be used as a column name; skipped`);
+            return false;
+        }
+        for (const [letter, column] of this.headers.entries()) {
+            if (letter !== col && column.toLowerCase() === header.toLowerCase()) {
+                console.warn(`⚠️ [${this.table}] Header "${header}" in column ${col} duplicates column ${letter}; skipped`);
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private columnType(column: string): string {
+        return this.columnTypes[column] ?? 'TEXT';
+    }
+
+    private keyType(column: string): string {
+        // TEXT can't be a primary key without a prefix length
+        const type = this.columnType(column);
+        return type === 'TEXT' ? 'VARCHAR(255)' : type;
+    }
+
+    /**
+     * A sheet value in the column's MySQL type. Typed values from the sheet give
+     * the unformatted number or date, so "$1,200.00" stores as 1200 and a date
+     * shown as "3/1/2024" as 2024-03-01.
+     */
+    private toDbValue(column: string, input: CellInput): string | number | null {
+        const value = displayOf(input);
+        const trimmed = value.trim();
+        if (trimmed === '') return null;
+        const typed = typeof input === 'string' ? null : input;
+        const type = this.columnType(column);
+
+        switch (type) {
+            case 'BOOLEAN':
+                if (typed?.type === 'boolean') return typed.raw ? 1 : 0;
+                return /^(true|yes|1)$/i.test(trimmed) ? 1 : 0;
+            case 'INT':
+            case 'BIGINT':
+            case 'DECIMAL(18,4)':
+            case 'DOUBLE':
+                if (typed && isNumericType(typed.type) && typeof typed.raw === 'number') return typed.raw;
+                // Sheets formats numbers with thousands separators
+                return trimmed.replace(/,/g, '');
+            case 'DATE':
+            case 'DATETIME':
+                if (typed && isDateType(typed.type) && typed.type !== 'time' && typeof typed.raw === 'string') {
+                    return type === 'DATE' ? typed.raw.slice(0, 10) : typed.raw;
+                }
+                return value;
+            default:
+                return value;
+        }
+    }
+
+    /**
+     * What to send the sheet for a stored value, going by the column's type.
+     * TEXT columns are typed from their content.
+     */
+    private typedValue(column: string, display: string): TypedValue {
+        if (display === '') return inferValue(display);
+        switch (this.columnType(column)) {
+            case 'INT':
+            case 'BIGINT':
+            case 'DECIMAL(18,4)':
+            case 'DOUBLE':
+                return { type: 'number', display, raw: Number(display) };
+            case 'BOOLEAN':
+                return { type: 'boolean', display, raw: display === 'TRUE' };
+            case 'DATE':
+                return { type: 'date', display, raw: display };
+            case 'DATETIME':
+                return { type: 'datetime', display, raw: display };
+            default:
+                return inferValue(display);
+        }
+    }
+
+    private toSheetValue(column: string, value: any): string {
+        if (value === null || value === undefined) return '';
+        if (Buffer.isBuffer(value)) return value.toString('utf8');
+        const type = this.columnType(column);
+
+        if (value instanceof Date) {
+            const pad = (n: number) => String(n).padStart(2, '0');
+            const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+            return type === 'DATE'
+                ? date
+                : `${date} ${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+        }
+        if (type === 'BOOLEAN') {
+            return Number(value) ? 'TRUE' : 'FALSE';
+        }
+        if (type === 'DECIMAL(18,4)' && String(value).includes('.')) {
+            // "12.5000" → "12.5", "100.0000" → "100"
+            return String(value).replace(/0+$/, '').replace(/\.$/, '');
+        }
+        return String(value);
+    }
+}
+
+export function createTableStore(mapping: SyncMapping, headerRow: number): TableStore {
+    return mapping.mode === 'rows'
+        ? new RowTableStore(mapping, headerRow)
+        : new CellTableStore(mapping.table);
+}
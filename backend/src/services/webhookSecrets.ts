@@ -0,0 +1,146 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import redisClient from '../config/redis';
+import { webhookNonceKey, webhookSecretKey } from '../utils/redisKeys';
+
+// Signed timestamps further than this from the server clock are rejected
+const MAX_SKEW_MS = Math.max(10000, parseInt(process.env.WEBHOOK_MAX_SKEW_MS || '300000'));
+// How long the secret before a rotation keeps working by default
+const DEFAULT_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+const NONCE_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+// Move the current secret to `previous` and install a new one, in one step
+const ROTATE_SCRIPT = `
+    local current = redis.call('HGET', KEYS[1], 'current')
+    if current and tonumber(ARGV[3]) > 0 then
+        redis.call('HSET', KEYS[1], 'previous', current, 'previousExpiresAt', ARGV[3], 'handOver', ARGV[4])
+    else
+        redis.call('HDEL', KEYS[1], 'previous', 'previousExpiresAt', 'handOver')
+    end
+    redis.call('HSET', KEYS[1], 'current', ARGV[1], 'createdAt', ARGV[2])
+    return 1
+`;
+
+export interface SignedWebhook {
+    timestamp?: string;
+    nonce?: string;
+    signature?: string;
+    body: Buffer;
+}
+
+export type WebhookVerdict =
+    | { ok: true; rotatedSecret?: string }
+    | { ok: false; error: string };
+
+export interface WebhookSecretInfo {
+    createdAt: number;
+    previousExpiresAt: number | null;   // The secret before the last rotation stops working then
+    handOver: boolean;                  // Requests signed with that secret get the new one back
+}
+
+export interface RotateOptions {
+    graceMs?: number;       // How long the old secret keeps working (default 7 days, 0 = revoked at once)
+    handOver?: boolean;     // Send the new secret to callers signing with the old one (off by default)
+}
+
+/**
+ * Per-spreadsheet HMAC secrets for the Apps Script webhook. A rotation keeps
+ * the old secret valid for a grace period. Only when the rotation asks for a
+ * hand-over is a script that signs with it handed the new one in its response,
+ * so it rotates without being reinstalled; a leaked secret must never get one.
+ */
+export class WebhookSecrets {
+    /**
+     * The spreadsheet's current secret, created on first use
+     */
+    async ensure(spreadsheetKey: string): Promise<string> {
+        const key = webhookSecretKey(spreadsheetKey);
+        const secret = this.generate();
+        if (await redisClient.hsetnx(key, 'current', secret)) {
+            await redisClient.hset(key, 'createdAt', Date.now());
+            return secret;
+        }
+        return (await redisClient.hget(key, 'current'))!;
+    }
+
+    async info(spreadsheetKey: string): Promise<WebhookSecretInfo | null> {
+        const stored = await redisClient.hgetall(webhookSecretKey(spreadsheetKey));
+        if (!stored.current) return null;
+        const previousExpiresAt = stored.previous ? parseInt(stored.previousExpiresAt) : null;
+        const previousValid = previousExpiresAt !== null && previousExpiresAt > Date.now();
+        return {
+            createdAt: parseInt(stored.createdAt) || 0,
+            previousExpiresAt: previousValid ? previousExpiresAt : null,
+            handOver: previousValid && stored.handOver === '1',
+        };
+    }
+
+    /**
+     * Replace the secret. With `graceMs` 0 the old one stops working at once
+     * (and there is nothing to hand over), so scripts have to be reinstalled
+     * with the new one.
+     */
+    async rotate(spreadsheetKey: string, { graceMs = DEFAULT_GRACE_MS, handOver = false }: RotateOptions = {}): Promise<WebhookSecretInfo> {
+        const now = Date.now();
+        const expiresAt = graceMs > 0 ? now + graceMs : 0;
+        await redisClient.eval(
+            ROTATE_SCRIPT, 1, webhookSecretKey(spreadsheetKey), this.generate(), now, expiresAt, handOver ? 1 : 0
+        );
+        return { createdAt: now, previousExpiresAt: expiresAt || null, handOver: handOver && expiresAt > 0 };
+    }
+
+    async remove(spreadsheetKey: string): Promise<void> {
+        await redisClient.del(webhookSecretKey(spreadsheetKey));
+    }
+
+    /**
+     * Check a webhook's signature over `timestamp.nonce.body`, its age and that
+     * its nonce hasn't been used before
+     */
+    async verify(spreadsheetKey: string, webhook: SignedWebhook): Promise<WebhookVerdict> {
+        const { timestamp, nonce, signature, body } = webhook;
+        if (!timestamp || !nonce || !signature) {
+            return { ok: false, error: 'Webhook signature required' };
+        }
+        const sentAt = Number(timestamp);
+        if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > MAX_SKEW_MS) {
+            return { ok: false, error: 'Webhook timestamp is missing or too old' };
+        }
+        if (!NONCE_PATTERN.test(nonce)) {
+            return { ok: false, error: 'Invalid webhook nonce' };
+        }
+
+        const stored = await redisClient.hgetall(webhookSecretKey(spreadsheetKey));
+        if (!stored.current) {
+            return { ok: false, error: 'No webhook secret issued for this spreadsheet' };
+        }
+        const signed = Buffer.concat([Buffer.from(`${timestamp}.${nonce}.`), body]);
+        let rotatedSecret: string | undefined;
+        if (!this.matches(stored.current, signed, signature)) {
+            const previousValid = stored.previous && parseInt(stored.previousExpiresAt) > Date.now();
+            if (!previousValid || !this.matches(stored.previous, signed, signature)) {
+                return { ok: false, error: 'Invalid webhook signature' };
+            }
+            // Only a caller holding the old secret learns the new one, and only if the rotation allows it
+            if (stored.handOver === '1') rotatedSecret = stored.current;
+        }
+
+        // Checked last, so unsigned requests can't use up nonces
+        const fresh = await redisClient.set(webhookNonceKey(spreadsheetKey, nonce), 1, 'PX', 2 * MAX_SKEW_MS, 'NX');
+        if (!fresh) {
+            return { ok: false, error: 'Webhook replayed' };
+        }
+        return { ok: true, rotatedSecret };
+    }
+
+    private matches(secret: string, signed: Buffer, signature: string): boolean {
+        const expected = createHmac('sha256', secret).update(signed).digest();
+        const presented = Buffer.from(signature, 'hex');
+        return presented.length === expected.length && timingSafeEqual(presented, expected);
+    }
+
+    private generate(): string {
+        return randomBytes(32).toString('hex');
+    }
+}
+
+export default new WebhookSecrets();
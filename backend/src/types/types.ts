@@ -1,14 +1,65 @@
 export interface WebhookPayload{
     row : number;
     col : string;
-    value: string;
+    value: string;                          // Displayed string
+    rawValue?: string | number | boolean;   // Unformatted value; dates as 'YYYY-MM-DD HH:MM:SS'
+    numberFormat?: string;                  // Number format pattern, e.g. "yyyy-mm-dd" or "$#,##0.00"
+    formula?: string;                       // The cell's formula, '' for plain values
     sheetId: string;
+    sheetName?: string;
+}
+
+/**
+ * v2 webhook: a whole edited block (paste, fill, range clear) in one request.
+ * The grids are indexed [row][column] from the range's top-left cell.
+ */
+export interface WebhookBatchPayload {
+    version: 2;
+    sheetId: string;
+    sheetName?: string;
+    range: string;                                  // A1 notation without the tab, e.g. "B2:F11"
+    values: string[][];                             // Displayed strings
+    rawValues?: (string | number | boolean)[][];    // Unformatted values; dates as 'YYYY-MM-DD HH:MM:SS'
+    numberFormats?: string[][];
+    formulas?: string[][];                          // '' for plain values
+}
+
+/**
+ * One edited cell as the worker applies it
+ */
+export interface CellEdit {
+    row: number;
+    col: string;
+    value: string;
+    rawValue?: string | number | boolean;
+    numberFormat?: string;
+    formula?: string;
+}
+
+export interface SyncMapping {
+    id: string;          // Stable identifier, used to namespace Redis keys and locks
+    sheetName: string;   // Spreadsheet tab name
+    range?: string;      // A1 range inside the tab, e.g. "A1:H20"; omit to sync the whole used range
+    table: string;       // MySQL table the tab is synced with
+    mode?: 'cells' | 'rows';                // 'cells' (default): one DB row per cell; 'rows': header row → typed columns
+    primaryKey?: string;                    // 'rows' mode: header whose column is the table's primary key
+    columnTypes?: Record<string, string>;   // 'rows' mode: MySQL type per header (default TEXT)
+}
+
+export interface SpreadsheetConfig {
+    key: string;              // Short slug used to namespace Redis keys, locks and queues
+    sheetId: string;          // Google spreadsheet ID
+    name: string;
+    mappings: SyncMapping[];
 }
 
 export interface SQLPayload{
     query: string;
 }
 
+// MOVE_*: rows or columns dragged to another place, or rows reordered by a sort
+export type StructureAction = 'ADD_ROW' | 'DELETE_ROW' | 'MOVE_ROW' | 'ADD_COL' | 'DELETE_COL' | 'MOVE_COL';
+
 export interface SyncEvent {
     type: 'INSERT' | 'UPDATE' | 'DELETE' ;
     row? : number;
@@ -18,7 +69,7 @@ export interface SyncEvent {
     source: 'sheet' | 'db';
     timestamp : number;
     metadata? : {
-        action? : 'ADD_ROW' | 'DELETE_ROW' | 'ADD_COL' | 'DELETE_COL';
+        action? : StructureAction;
         affectedRange? : string;
     };
 }
@@ -27,7 +78,24 @@ export interface JobData{
     row: number;
     col: string;
     value: string;
+    rawValue?: string | number | boolean;
+    numberFormat?: string;
+    formula?: string;
+    sheetId: string;
+    spreadsheetKey: string;
+    mappingId: string;
+    timestamp: number;
+}
+
+/**
+ * A v2 webhook's block, applied by the worker as one locked batch
+ */
+export interface BatchJobData {
+    range: string;
+    cells: CellEdit[];
     sheetId: string;
+    spreadsheetKey: string;
+    mappingId: string;
     timestamp: number;
 }
 
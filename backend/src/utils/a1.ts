@@ -0,0 +1,74 @@
+/**
+ * A1 notation helpers. Columns run A..Z, AA..ZZ, AAA..ZZZ (Google Sheets tops
+ * out at 18,278 columns), so nothing here assumes a single letter.
+ */
+
+// Upper-case column letters, 1 to 3 of them
+export const COLUMN_PATTERN = /^[A-Z]{1,3}$/;
+
+/**
+ * "A" → 0, "Z" → 25, "AA" → 26
+ */
+export function columnToIndex(col: string): number {
+    let index = 0;
+    for (const ch of col.toUpperCase()) {
+        index = index * 26 + (ch.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
+
+/**
+ * 0 → "A", 25 → "Z", 26 → "AA"
+ */
+export function indexToColumn(index: number): string {
+    let col = '';
+    let n = index + 1;
+    while (n > 0) {
+        const rem = (n - 1) % 26;
+        col = String.fromCharCode(65 + rem) + col;
+        n = Math.floor((n - 1) / 26);
+    }
+    return col;
+}
+
+/**
+ * Order columns the way a sheet does (B before AA), not alphabetically
+ */
+export function compareColumns(a: string, b: string): number {
+    return columnToIndex(a) - columnToIndex(b);
+}
+
+/**
+ * Top-left cell of an A1 range ("'Tab'!C5:F9" → row 5, colIndex 2).
+ * Missing parts default to column A and row 1, so "C:F" or "5:9" still resolve.
+ */
+export function rangeOrigin(range: string): { row: number; colIndex: number } {
+    const ref = range.slice(range.lastIndexOf('!') + 1);
+    const match = ref.match(/^([A-Za-z]{0,3})(\d*)(?::|$)/);
+    return {
+        row: match && match[2] ? parseInt(match[2]) : 1,
+        colIndex: match && match[1] ? columnToIndex(match[1]) : 0,
+    };
+}
+
+/**
+ * "B4" → { row: 4, col: 'B' }; null if it isn't a single-cell reference
+ */
+export function parseCellRef(ref: string): { row: number; col: string } | null {
+    const match = ref.trim().toUpperCase().match(/^([A-Z]{1,3})(\d+)$/);
+    if (!match || parseInt(match[2]) < 1) return null;
+    return { row: parseInt(match[2]), col: match[1] };
+}
+
+/**
+ * "B2:D10" (or a single cell, "B4") → its corners; null if malformed.
+ * Corners may be given in any order.
+ */
+export function parseCellRange(range: string): { fromRow: number; toRow: number; fromCol: string; toCol: string } | null {
+    const [first, second = first, ...rest] = range.split(':');
+    const a = parseCellRef(first);
+    const b = parseCellRef(second);
+    if (!a || !b || rest.length > 0) return null;
+    const [fromCol, toCol] = compareColumns(a.col, b.col) <= 0 ? [a.col, b.col] : [b.col, a.col];
+    return { fromRow: Math.min(a.row, b.row), toRow: Math.max(a.row, b.row), fromCol, toCol };
+}
@@ -0,0 +1,248 @@
+/**
+ * Typed cell values. A cell keeps the string the sheet displays plus the value
+ * behind it, so numbers, dates and booleans survive the round trip instead of
+ * being flattened to text.
+ */
+
+export const VALUE_TYPES = ['string', 'number', 'currency', 'percent', 'boolean', 'date', 'datetime', 'time', 'error'] as const;
+export type ValueType = typeof VALUE_TYPES[number];
+
+/**
+ * `raw` is a number for number/currency/percent (percent as a fraction), a
+ * boolean for booleans, a wall-clock string for dates ('YYYY-MM-DD',
+ * 'YYYY-MM-DD HH:MM:SS', 'HH:MM:SS') and the display string otherwise.
+ * Formula cells also carry their formula; `display` and `raw` are then what it
+ * computed.
+ */
+export interface TypedValue {
+    type: ValueType;
+    display: string;
+    raw: string | number | boolean | null;
+    formula?: string;
+}
+
+/** What writers hand the table stores: a typed value, or a bare string to infer one from */
+export type CellInput = string | TypedValue;
+
+/** Number format of a sheet cell, from the Sheets API (`type`) or Apps Script (`pattern`) */
+export interface SheetNumberFormat {
+    type?: string;
+    pattern?: string;
+}
+
+const NUMERIC_TYPES: ValueType[] = ['number', 'currency', 'percent'];
+const DATE_TYPES: ValueType[] = ['date', 'datetime', 'time'];
+
+// Day 0 of Sheets serial dates
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+const TIME_ONLY_DATE = '1899-12-30';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function isNumericType(type: ValueType): boolean {
+    return NUMERIC_TYPES.includes(type);
+}
+
+export function isDateType(type: ValueType): boolean {
+    return DATE_TYPES.includes(type);
+}
+
+export function displayOf(input: CellInput | undefined): string {
+    if (input === undefined) return '';
+    return typeof input === 'string' ? input : input.display;
+}
+
+export function toTyped(input: CellInput): TypedValue {
+    return typeof input === 'string' ? inferValue(input) : input;
+}
+
+function wallClockString(date: string, time: string, type: ValueType): string {
+    if (type === 'date') return date;
+    if (type === 'time') return time;
+    return `${date} ${time}`;
+}
+
+/**
+ * Type a value that arrived as a bare string (bot tasks, SQL writes, history
+ * restores). Only unambiguous forms are typed; "00123" or "3/1/2024" stay text.
+ */
+export function inferValue(display: string): TypedValue {
+    const text = display.trim();
+    const typed = (type: ValueType, raw: TypedValue['raw']): TypedValue => ({ type, display, raw });
+
+    if (text === '') return typed('string', display);
+    if (/^(true|false)$/i.test(text)) return typed('boolean', text.toLowerCase() === 'true');
+    if (/^-?(0|[1-9]\d{0,2}(,\d{3})+|[1-9]\d*)(\.\d+)?$/.test(text)) return typed('number', parseFloat(text.replace(/,/g, '')));
+    if (/^-?(0|[1-9]\d*)(\.\d+)?%$/.test(text)) return typed('percent', parseFloat(text) / 100);
+
+    const currency = text.match(/^(-?)[$€£¥₹]\s?((0|[1-9]\d{0,2}(,\d{3})*|[1-9]\d*)(\.\d+)?)$/);
+    if (currency) return typed('currency', parseFloat(currency[1] + currency[2].replace(/,/g, '')));
+
+    const date = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (date && +date[2] >= 1 && +date[2] <= 12 && +date[3] >= 1 && +date[3] <= 31) {
+        const day = `${date[1]}-${date[2]}-${date[3]}`;
+        return date[4] === undefined
+            ? typed('date', day)
+            : typed('datetime', `${day} ${date[4]}:${date[5]}:${date[6] ?? '00'}`);
+    }
+    const time = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    if (time && +time[1] < 24 && +time[2] < 60) return typed('time', `${pad(+time[1])}:${time[2]}:${time[3] ?? '00'}`);
+
+    return typed('string', display);
+}
+
+/**
+ * Value type a number format implies, or null for the automatic format
+ */
+function formatType(format: SheetNumberFormat | undefined): ValueType | null {
+    switch (format?.type) {
+        case 'DATE': return 'date';
+        case 'TIME': return 'time';
+        case 'DATE_TIME': return 'datetime';
+        case 'PERCENT': return 'percent';
+        case 'CURRENCY': return 'currency';
+        case 'NUMBER':
+        case 'SCIENTIFIC': return 'number';
+        case 'TEXT': return 'string';
+    }
+
+    // Apps Script only knows the pattern; drop quoted literals and escapes first
+    const pattern = (format?.pattern ?? '').replace(/"[^"]*"|\\./g, '');
+    if (pattern === '' || /^general$/i.test(pattern)) return null;
+    if (pattern === '@') return 'string';
+    // Brackets hold colors, conditions and currency tags ("[Red]", "[$€-2]"), or elapsed time ("[h]")
+    const tokens = pattern.replace(/\[[^\]]*\]/g, '');
+    const hasDate = /[yd]/i.test(tokens) || /mmm/i.test(tokens);
+    const hasTime = /[hs]/i.test(tokens) || /\[[hms]+\]/i.test(pattern);
+    if (hasDate && hasTime) return 'datetime';
+    if (hasDate) return 'date';
+    if (hasTime) return 'time';
+    if (pattern.includes('%')) return 'percent';
+    if (/[$€£¥₹]/.test(pattern)) return 'currency';
+    return 'number';
+}
+
+/**
+ * Sheets serial number (days since 1899-12-30, in the spreadsheet's time zone)
+ * → wall-clock string
+ */
+function serialToWallClock(serial: number, type: ValueType): string {
+    const d = new Date(SERIAL_EPOCH + Math.round(serial * 86400000));
+    const date = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+    const time = `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+    return wallClockString(date, time, type);
+}
+
+/**
+ * Wall-clock string → Sheets serial number; the inverse of serialToWallClock
+ */
+export function wallClockToSerial(wallClock: string, type: ValueType): number | null {
+    const match = wallClock.match(/^(?:(\d{4})-(\d{2})-(\d{2}))?[ T]?(?:(\d{2}):(\d{2}):(\d{2}))?$/);
+    if (!match || (match[1] === undefined && match[4] === undefined) || (type !== 'time' && match[1] === undefined)) return null;
+    const days = match[1] === undefined ? 0 : (Date.UTC(+match[1], +match[2] - 1, +match[3]) - SERIAL_EPOCH) / 86400000;
+    const seconds = match[4] === undefined ? 0 : +match[4] * 3600 + +match[5] * 60 + +match[6];
+    return days + seconds / 86400;
+}
+
+/**
+ * Type a value read from the sheet. `raw` is the unformatted value: a number,
+ * boolean or string from the Sheets API, or from Apps Script where dates arrive
+ * as 'YYYY-MM-DD HH:MM:SS' in the spreadsheet's time zone.
+ */
+export function fromSheet(display: string, raw: unknown, format?: SheetNumberFormat): TypedValue {
+    if (typeof raw === 'boolean') return { type: 'boolean', display, raw };
+
+    const implied = formatType(format);
+    if (typeof raw === 'number') {
+        const type = implied && implied !== 'string' ? implied : 'number';
+        return { type, display, raw: isDateType(type) ? serialToWallClock(raw, type) : raw };
+    }
+
+    const stamp = typeof raw === 'string' ? raw.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})$/) : null;
+    if (stamp && implied && isDateType(implied)) {
+        return { type: implied, display, raw: wallClockString(stamp[1], stamp[2], implied) };
+    }
+    return { type: 'string', display, raw: display };
+}
+
+/**
+ * The value to send with valueInputOption USER_ENTERED so the sheet stores the
+ * right type. Text that the sheet would otherwise parse is prefixed with an
+ * apostrophe to keep it text; formula cells send the formula, never its result.
+ */
+export function toSheetInput(value: TypedValue): string | number | boolean {
+    if (value.formula) return value.formula;
+    switch (value.type) {
+        case 'number':
+        case 'boolean':
+            return value.raw !== null && typeof value.raw !== 'string' ? value.raw : value.display;
+        case 'currency':
+        case 'percent':
+            // The display string carries the symbol, so the sheet picks the format too
+            return value.display;
+        case 'date':
+        case 'datetime':
+        case 'time':
+            return typeof value.raw === 'string' ? value.raw : value.display;
+        default: {
+            const text = value.display;
+            // Digits with leading zeros aren't inferred as numbers here, but the sheet would parse them
+            const parsed = inferValue(text).type !== 'string' || /^[='+-]/.test(text) || /^\d[\d,]*(\.\d+)?$/.test(text.trim());
+            return parsed ? `'${text}` : text;
+        }
+    }
+}
+
+/**
+ * What a sheet makes of a value written with USER_ENTERED, for providers that
+ * stand in for Google Sheets. Formulas aren't evaluated; they show their own
+ * text. Null for an empty value, which clears the cell.
+ */
+export function enteredValue(input: string | number | boolean): TypedValue | null {
+    if (typeof input === 'number') return { type: 'number', display: String(input), raw: input };
+    if (typeof input === 'boolean') return { type: 'boolean', display: input ? 'TRUE' : 'FALSE', raw: input };
+    if (input === '') return null;
+    if (input.startsWith("'")) return { type: 'string', display: input.slice(1), raw: input.slice(1) };
+    if (input.startsWith('=')) return { type: 'string', display: input, raw: input, formula: input };
+    return inferValue(input);
+}
+
+/**
+ * Typed columns of the cells table: value_type, num_value, date_value
+ */
+export function typedColumns(value: TypedValue): { value_type: ValueType; num_value: number | null; date_value: string | null } {
+    let num: number | null = null;
+    let date: string | null = null;
+    if (isNumericType(value.type) && typeof value.raw === 'number') num = value.raw;
+    if (value.type === 'boolean') num = value.raw ? 1 : 0;
+    if (isDateType(value.type) && typeof value.raw === 'string') {
+        date = value.type === 'time' ? `${TIME_ONLY_DATE} ${value.raw}` : value.raw;
+    }
+    return { value_type: value.type, num_value: num, date_value: date };
+}
+
+/**
+ * Rebuild a typed value from a cells-table record. Columns left empty (e.g. by
+ * an external writer) fall back to inferring from the display string.
+ */
+export function fromColumns(display: string, record: Record<string, any>): TypedValue {
+    const type = record.value_type as ValueType;
+    if (!VALUE_TYPES.includes(type)) return inferValue(display);
+
+    if (isNumericType(type) || type === 'boolean') {
+        if (record.num_value === null || record.num_value === undefined) return inferValue(display);
+        const num = Number(record.num_value);
+        return { type, display, raw: type === 'boolean' ? num !== 0 : num };
+    }
+    if (isDateType(type)) {
+        const stored = record.date_value;
+        if (!(stored instanceof Date) && typeof stored !== 'string') return inferValue(display);
+        const d = stored instanceof Date ? stored : new Date(stored.replace(' ', 'T'));
+        if (isNaN(d.getTime())) return inferValue(display);
+        // mysql2 reads DATETIME in local time, so local getters give back the stored wall clock
+        const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+        const time = `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+        return { type, display, raw: wallClockString(date, time, type) };
+    }
+    return { type, display, raw: type === 'error' ? null : display };
+}
@@ -14,24 +14,268 @@ export async function testDatabaseConnection(): Promise<boolean> {
     }
 }
 
+/**
+ * Create the internal tables. Cell tables for each sync mapping are created by
+ * the spreadsheet registry when a spreadsheet is loaded or registered.
+ */
 export async function initializeDatabase(): Promise<void> {
     try {
         await pool.query(`
-            CREATE TABLE IF NOT EXISTS users (
-                id INT AUTO_INCREMENT PRIMARY KEY,
+            CREATE TABLE IF NOT EXISTS spreadsheets (
+                spreadsheet_key VARCHAR(64) PRIMARY KEY,
+                sheet_id VARCHAR(128) NOT NULL,
+                name VARCHAR(255) NOT NULL,
+                mappings JSON NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE KEY unique_sheet (sheet_id)
+            )
+        `);
+
+        // Column letter → header name for 'rows' mode mappings
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS mapping_columns (
+                table_name VARCHAR(64) NOT NULL,
+                col_name VARCHAR(10) NOT NULL,
+                column_name VARCHAR(64) NOT NULL,
+                PRIMARY KEY (table_name, col_name)
+            )
+        `);
+
+        // Deleted cells/rows of synced tables, filled by triggers, so an incremental
+        // DB → Sheet pass can clear them. col_name NULL means the whole row.
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS sync_tombstones (
+                id BIGINT AUTO_INCREMENT PRIMARY KEY,
+                table_name VARCHAR(64) NOT NULL,
+                row_num INT NULL,
+                col_name VARCHAR(10) NULL,
+                deleted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                KEY idx_table_id (table_name, id)
+            )
+        `);
+
+        // Writes rejected because the cell changed since the writer's version.
+        // One open row per cell; later rejected writes update it.
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS sync_conflicts (
+                id BIGINT AUTO_INCREMENT PRIMARY KEY,
+                spreadsheet_key VARCHAR(64) NOT NULL,
+                mapping_id VARCHAR(64) NOT NULL,
+                table_name VARCHAR(64) NOT NULL,
+                row_num INT NOT NULL,
+                col_name VARCHAR(10) NOT NULL,
+                incoming_side VARCHAR(10) NOT NULL,
+                incoming_value TEXT,
+                incoming_source VARCHAR(50) NOT NULL,
+                incoming_at TIMESTAMP(3) NOT NULL,
+                base_version INT NULL,
+                current_value TEXT,
+                current_version INT NOT NULL,
+                current_source VARCHAR(50),
+                current_updated_at TIMESTAMP NULL,
+                status VARCHAR(10) NOT NULL DEFAULT 'open',
+                resolution VARCHAR(30) NULL,
+                resolved_value TEXT NULL,
+                resolved_at TIMESTAMP NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                KEY idx_status (status, spreadsheet_key, mapping_id),
+                KEY idx_cell (spreadsheet_key, mapping_id, row_num, col_name)
+            )
+        `);
+
+        // Append-only log of every applied cell change, whichever path wrote it.
+        // write_id groups the cells changed by one write (e.g. one SQL UPDATE).
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS cell_history (
+                id BIGINT AUTO_INCREMENT PRIMARY KEY,
+                write_id CHAR(36) NOT NULL,
+                table_name VARCHAR(64) NOT NULL,
                 row_num INT NOT NULL,
                 col_name VARCHAR(10) NOT NULL,
-                cell_value TEXT,
-                last_modified_by VARCHAR(50) DEFAULT 'system',
-                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+                change_type VARCHAR(10) NOT NULL,
+                old_value TEXT NULL,
+                new_value TEXT NULL,
+                side VARCHAR(10) NOT NULL,
+                source VARCHAR(50) NOT NULL,
+                version INT NULL,
+                changed_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+                KEY idx_cell (table_name, row_num, col_name, id),
+                KEY idx_changed_at (changed_at),
+                KEY idx_write (write_id)
+            )
+        `);
+
+        // API keys for the SQL terminal, bots and admin routes. Only a bcrypt hash
+        // is kept; the prefix finds the row without comparing every hash.
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS api_keys (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                name VARCHAR(40) NOT NULL,
+                role VARCHAR(10) NOT NULL,
+                key_prefix CHAR(12) NOT NULL,
+                key_hash VARCHAR(60) NOT NULL,
                 created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                UNIQUE KEY unique_cell (row_num, col_name)
+                last_used_at TIMESTAMP NULL,
+                revoked_at TIMESTAMP NULL,
+                UNIQUE KEY unique_prefix (key_prefix)
             )
         `);
 
-        logger.info('✅ Database initialized - users table ready');
+        logger.info('✅ Database initialized - spreadsheets registry tables ready');
     } catch (error) {
         logger.error({ error }, '❌ Failed to initialize database');
         throw error;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Create a cell table (one row per sheet cell) for a sync mapping
+ */
+export async function createCellTable(table: string): Promise<void> {
+    await pool.query(`
+        CREATE TABLE IF NOT EXISTS ?? (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            row_num INT NOT NULL,
+            col_name VARCHAR(10) NOT NULL,
+            cell_value TEXT,
+            value_type VARCHAR(16) NOT NULL DEFAULT 'string',
+            num_value DOUBLE NULL,
+            date_value DATETIME NULL,
+            formula TEXT NULL,
+            last_modified_by VARCHAR(50) DEFAULT 'system',
+            version INT NOT NULL DEFAULT 1,
+            synced_version INT NOT NULL DEFAULT 0,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE KEY unique_cell (row_num, col_name),
+            KEY idx_updated_at (updated_at)
+        )
+    `, [table]);
+    logger.info(`✅ ${table} table ready`);
+}
+
+/**
+ * Add the version columns to a table created before cells were versioned.
+ * `version` is bumped by every write through the sync engine; `synced_version`
+ * is the version the sheet last agreed with. Existing rows start out in sync.
+ */
+export async function ensureVersionColumns(table: string): Promise<void> {
+    const [columns]: any = await pool.query(
+        `SELECT 1 FROM information_schema.COLUMNS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = 'version'`,
+        [table]
+    );
+    if (columns.length > 0) return;
+
+    await pool.query(
+        'ALTER TABLE ?? ADD COLUMN version INT NOT NULL DEFAULT 1, ADD COLUMN synced_version INT NOT NULL DEFAULT 0',
+        [table]
+    );
+    await pool.query('UPDATE ?? SET synced_version = version', [table]);
+    logger.info(`✅ ${table} upgraded with version columns`);
+}
+
+/**
+ * Add the typed value columns to a cell table created before values were typed.
+ * `cell_value` stays the display string; `value_type` says what it holds and
+ * `num_value` / `date_value` carry the value itself. Existing plain numbers and
+ * ISO dates are typed right away; everything else starts out as text.
+ */
+export async function ensureValueTypeColumns(table: string): Promise<void> {
+    const [columns]: any = await pool.query(
+        `SELECT 1 FROM information_schema.COLUMNS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = 'value_type'`,
+        [table]
+    );
+    if (columns.length > 0) return;
+
+    await pool.query(
+        `ALTER TABLE ?? ADD COLUMN value_type VARCHAR(16) NOT NULL DEFAULT 'string' AFTER cell_value,
+            ADD COLUMN num_value DOUBLE NULL AFTER value_type,
+            ADD COLUMN date_value DATETIME NULL AFTER num_value`,
+        [table]
+    );
+    // Leave updated_at alone so the backfill doesn't look like a batch of new writes
+    await pool.query(
+        `UPDATE ?? SET value_type = 'number', num_value = cell_value + 0, updated_at = updated_at
+         WHERE cell_value REGEXP '^-?(0|[1-9][0-9]*)([.][0-9]+)?$'`,
+        [table]
+    );
+    await pool.query(
+        `UPDATE ?? SET value_type = 'date', date_value = cell_value, updated_at = updated_at
+         WHERE cell_value REGEXP '^[0-9]{4}-(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$'`,
+        [table]
+    ).catch((error) => {
+        // Strict mode rejects impossible dates such as 2024-02-31
+        logger.warn({ table, error: error.message }, '⚠️ Could not type existing date cells; they stay text');
+    });
+    logger.info(`✅ ${table} upgraded with typed value columns`);
+}
+
+/**
+ * Add the formula column to a table created before formulas were kept. Cell
+ * tables get `formula` (NULL for plain values); rows-mode tables (`wholeRow`)
+ * get `sheet_formulas`, a JSON object of column letter → formula. Formulas of
+ * cells already stored are filled in the next time the sheet is read.
+ */
+export async function ensureFormulaColumn(table: string, wholeRow: boolean): Promise<void> {
+    const column = wholeRow ? 'sheet_formulas' : 'formula';
+    const [columns]: any = await pool.query(
+        `SELECT 1 FROM information_schema.COLUMNS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+        [table, column]
+    );
+    if (columns.length > 0) return;
+
+    await pool.query(`ALTER TABLE ?? ADD COLUMN ?? ${wholeRow ? 'JSON' : 'TEXT'} NULL`, [table, column]);
+    logger.info(`✅ ${table} upgraded with a ${column} column`);
+}
+
+function tombstoneTrigger(table: string): string {
+    return `sync_tombstone_${table}`.slice(0, 64);
+}
+
+/**
+ * Prepare a synced table for incremental DB → Sheet passes: an index on
+ * `updated_at` for the watermark query and an AFTER DELETE trigger that
+ * records tombstones. `wholeRow` tables ('rows' mode) tombstone the row, cell
+ * tables the single cell.
+ *
+ * Creating triggers needs the TRIGGER privilege; without it deletes are only
+ * picked up by the periodic full reconciliation.
+ */
+export async function ensureChangeTracking(table: string, wholeRow: boolean): Promise<void> {
+    const [indexes]: any = await pool.query(
+        `SELECT 1 FROM information_schema.STATISTICS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = 'idx_updated_at'`,
+        [table]
+    );
+    if (indexes.length === 0) {
+        await pool.query('ALTER TABLE ?? ADD INDEX idx_updated_at (updated_at)', [table]);
+    }
+
+    const [triggers]: any = await pool.query(
+        'SELECT 1 FROM information_schema.TRIGGERS WHERE TRIGGER_SCHEMA = DATABASE() AND TRIGGER_NAME = ?',
+        [tombstoneTrigger(table)]
+    );
+    if (triggers.length > 0) return;
+
+    try {
+        await pool.query(
+            `CREATE TRIGGER ?? AFTER DELETE ON ?? FOR EACH ROW
+             INSERT INTO sync_tombstones (table_name, row_num, col_name)
+             VALUES (?, OLD.row_num, ${wholeRow ? 'NULL' : 'OLD.col_name'})`,
+            [tombstoneTrigger(table), table, table]
+        );
+    } catch (error: any) {
+        logger.warn({ table, error: error.message }, '⚠️ Could not create tombstone trigger; deletes sync on full reconciliation only');
+    }
+}
+
+/**
+ * Undo ensureChangeTracking for a table that is no longer synced
+ */
+export async function dropChangeTracking(table: string): Promise<void> {
+    await pool.query('DROP TRIGGER IF EXISTS ??', [tombstoneTrigger(table)]);
+    await pool.query('DELETE FROM sync_tombstones WHERE table_name = ?', [table]);
+}
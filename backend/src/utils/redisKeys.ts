@@ -0,0 +1,110 @@
+/**
+ * Redis key builders shared by the CDC monitor, webhook controller and lock service.
+ * Every per-cell key is namespaced by a sync scope (spreadsheet + mapping) so two
+ * tabs — or two teams' spreadsheets — never collide.
+ */
+
+/**
+ * Namespace for one tab ↔ table mapping of one registered spreadsheet
+ */
+export function mappingScope(spreadsheetKey: string, mappingId: string): string {
+    return `${spreadsheetKey}:${mappingId}`;
+}
+
+export function mappingRedisKeys(scope: string) {
+    return {
+        SHEET_SNAPSHOT: `snapshot:sheet:${scope}`,          // Last known sheet state
+        DB_SNAPSHOT: `snapshot:db:${scope}`,                // Last known DB state
+        PENDING_TO_SHEET: `pending:to_sheet:${scope}`,      // Changes waiting to go to Sheet
+        PENDING_TO_DB: `pending:to_db:${scope}`,            // Changes waiting to go to DB
+        DEAD_LETTER_TO_SHEET: `deadletter:to_sheet:${scope}`, // Changes to Sheet that kept failing
+        DEAD_LETTER_TO_DB: `deadletter:to_db:${scope}`,     // Changes to DB that kept failing
+    };
+}
+
+/**
+ * Marks a cell as recently synced from the sheet so the reverse path doesn't echo it
+ */
+export function ignoreKey(scope: string, row: number, col: string): string {
+    return `ignore:${scope}:${row}:${col}`;
+}
+
+/**
+ * Holders of a scope's cell locks: "row:colIndex" → owner. A holder counts
+ * only while the cell's intent in `lockIntentsKey` hasn't expired.
+ */
+export function cellLocksKey(scope: string): string {
+    return `locks:cells:${scope}`;
+}
+
+/**
+ * A scope's range, row, column and sheet locks, scored by when they expire
+ */
+export function areaLocksKey(scope: string): string {
+    return `locks:areas:${scope}`;
+}
+
+/**
+ * Intents of a scope's cell locks ("row:colIndex", scored by expiry), which
+ * wider locks check for overlap
+ */
+export function lockIntentsKey(scope: string): string {
+    return `locks:intents:${scope}`;
+}
+
+/**
+ * Spreadsheet API requests spent in one quota window, shared by every monitor and instance
+ */
+export function quotaKey(windowStart: number): string {
+    return `quota:sheets:${windowStart}`;
+}
+
+/**
+ * Lease held by the instance that runs the CDC monitors
+ */
+export const LEADER_KEY = 'leader:cdc';
+
+/**
+ * Pub/sub channel replicas use to hand work to the leader and share registry changes
+ */
+export const CLUSTER_CHANNEL = 'cluster:events';
+
+/**
+ * Secrets a spreadsheet's Apps Script signs its webhooks with
+ */
+export function webhookSecretKey(spreadsheetKey: string): string {
+    return `webhook:secret:${spreadsheetKey}`;
+}
+
+/**
+ * A webhook nonce already seen, kept until its timestamp would be rejected anyway
+ */
+export function webhookNonceKey(spreadsheetKey: string, nonce: string): string {
+    return `webhook:nonce:${spreadsheetKey}:${nonce}`;
+}
+
+/**
+ * Signing secret for session tokens, shared by every instance unless AUTH_JWT_SECRET is set
+ */
+export const AUTH_JWT_SECRET_KEY = 'auth:jwt_secret';
+
+/**
+ * Marks a revoked API key so sessions opened with it stop working before they expire
+ */
+export function revokedKeyKey(keyId: number): string {
+    return `auth:revoked:${keyId}`;
+}
+
+/**
+ * Requests one client (or address) made to a rate-limited endpoint in the current window
+ */
+export function rateLimitKey(prefix: string, client: string): string {
+    return `ratelimit:${prefix}:${client}`;
+}
+
+/**
+ * Requests seen and rejected by an endpoint's limiters, across instances
+ */
+export function rateLimitStatsKey(endpoint: string): string {
+    return `ratelimit:stats:${endpoint}`;
+}
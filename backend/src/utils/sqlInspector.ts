@@ -0,0 +1,547 @@
+/**
+ * Parses a SQL terminal statement into an AST and checks it against what the
+ * terminal may do: which statement types, which tables and columns it reads or
+ * writes, and which functions it calls. Every rejection names the offending
+ * node and, where the parser knows it, where that node sits in the query.
+ */
+import { Parser } from 'node-sql-parser';
+
+const parser = new Parser();
+const PARSE_OPTIONS = { database: 'MySQL', parseOptions: { includeLocations: true } };
+
+export type StatementType = 'select' | 'insert' | 'update' | 'delete' | 'show' | 'desc' | 'explain';
+
+const STATEMENT_TYPES: StatementType[] = ['select', 'insert', 'update', 'delete', 'show', 'desc', 'explain'];
+
+// SHOW TABLES / COLUMNS / INDEX / CREATE TABLE; the rest expose server state (GRANTS, PROCESSLIST, ...)
+const SHOW_KEYWORDS = ['tables', 'columns', 'index', 'indexes', 'create'];
+
+// Everything else (SLEEP, BENCHMARK, LOAD_FILE, GET_LOCK, ...) is rejected
+const ALLOWED_FUNCTIONS = new Set([
+    // Aggregates
+    'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'GROUP_CONCAT',
+    // Strings
+    'CONCAT', 'CONCAT_WS', 'LOWER', 'UPPER', 'LCASE', 'UCASE', 'TRIM', 'LTRIM', 'RTRIM', 'LENGTH', 'CHAR_LENGTH',
+    'SUBSTRING', 'SUBSTR', 'LEFT', 'RIGHT', 'REPLACE', 'LPAD', 'RPAD', 'LOCATE', 'INSTR', 'REVERSE', 'FORMAT',
+    // Numbers
+    'ABS', 'ROUND', 'FLOOR', 'CEIL', 'CEILING', 'MOD', 'GREATEST', 'LEAST', 'POW', 'POWER', 'SQRT', 'SIGN', 'TRUNCATE',
+    // Nulls and conditions
+    'COALESCE', 'IFNULL', 'NULLIF', 'IF', 'ISNULL', 'EXISTS',
+    // Dates
+    'NOW', 'CURDATE', 'CURTIME', 'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'DATE', 'TIME', 'YEAR', 'MONTH',
+    'DAY', 'DAYOFWEEK', 'HOUR', 'MINUTE', 'SECOND', 'DATE_FORMAT', 'DATE_ADD', 'DATE_SUB', 'DATEDIFF', 'TIMESTAMPDIFF',
+    'UNIX_TIMESTAMP', 'FROM_UNIXTIME', 'STR_TO_DATE',
+    // Types and JSON (rows-mode formulas are stored as JSON)
+    'CAST', 'CONVERT', 'JSON_EXTRACT', 'JSON_UNQUOTE', 'JSON_KEYS', 'JSON_CONTAINS',
+    // INSERT ... ON DUPLICATE KEY UPDATE col = VALUES(col)
+    'VALUES',
+]);
+
+export interface SqlPosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * What a statement may do with one table. A table without a policy can't be
+ * named at all.
+ */
+export interface TablePolicy {
+    /** Columns a write may set; absent for tables that are only read */
+    writable?: string[];
+    /** Every column the statement may name; absent means any */
+    readable?: string[];
+}
+
+export interface InspectedStatement {
+    type: StatementType;
+    /** Table an INSERT, UPDATE or DELETE writes */
+    writeTable?: string;
+    /** Columns the write sets (INSERT columns, UPDATE and ON DUPLICATE KEY UPDATE assignments) */
+    writeColumns: string[];
+    /** Tables read anywhere in the statement, subqueries included, in order of appearance */
+    readTables: string[];
+    /** The text `ast` was parsed from; node positions are offsets into it */
+    query: string;
+    ast: any;
+}
+
+export type SqlInspection =
+    | { ok: true; statement: InspectedStatement }
+    | { ok: false; status: 400 | 403; error: string; position?: SqlPosition };
+
+class Rejection {
+    constructor(readonly status: 400 | 403, readonly error: string, readonly position?: SqlPosition) {}
+}
+
+interface ColumnRef {
+    table: string | null;
+    column: string;
+    position?: SqlPosition;
+}
+
+function positionOf(node: any): SqlPosition | undefined {
+    const start = node?.loc?.start;
+    return start ? { line: start.line, column: start.column } : undefined;
+}
+
+function positionAt(query: string, offset: number): SqlPosition {
+    const lines = query.slice(0, offset).split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Where the query has a comment MySQL runs (`/*! ... *\/`) or reads as optimizer
+ * hints (`/*+ ... *\/`), outside string literals and other comments. The parser
+ * drops comments, so nothing inside one would ever be checked.
+ */
+function executableComment(query: string): SqlPosition | undefined {
+    let quote: string | null = null;
+    for (let i = 0; i < query.length; i++) {
+        const ch = query[i];
+        if (quote) {
+            if (ch === '\\' && quote !== '`') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === "'" || ch === '"' || ch === '`') {
+            quote = ch;
+        } else if (ch === '/' && query[i + 1] === '*') {
+            if (query[i + 2] === '!' || query[i + 2] === '+') return positionAt(query, i);
+            const end = query.indexOf('*/', i + 2);
+            if (end === -1) return undefined;
+            i = end + 1;
+        } else if (ch === '#' || (ch === '-' && query[i + 1] === '-' && /\s/.test(query[i + 2] ?? ' '))) {
+            const end = query.indexOf('\n', i);
+            if (end === -1) return undefined;
+            i = end;
+        }
+    }
+    return undefined;
+}
+
+function functionName(node: any): string {
+    if (typeof node.name === 'string') return node.name.toUpperCase();
+    const parts: any[] = node.name?.name ?? [];
+    return parts.map(p => p.value).join('.').toUpperCase();
+}
+
+function columnName(node: any): string | undefined {
+    if (typeof node.column === 'string') return node.column;
+    return node.column?.expr?.value;
+}
+
+/**
+ * Names a SELECT gives its output columns: aliases and plain column references.
+ * A "*" adds none; the tables it expands are read, so their columns are in scope.
+ */
+function outputColumns(select: any): string[] {
+    if (!Array.isArray(select?.columns)) return [];
+    return select.columns
+        .map((item: any) => item.as ?? (item.expr?.type === 'column_ref' ? columnName(item.expr) : undefined))
+        .filter((name: unknown): name is string => typeof name === 'string' && name !== '*');
+}
+
+function isTableRef(node: any): boolean {
+    return typeof node.table === 'string' && 'db' in node && node.type !== 'column_ref';
+}
+
+/**
+ * One pass over a statement's tree. Tables are checked as they are met;
+ * column references are checked once every table and alias is known.
+ */
+class StatementWalker {
+    readonly readTables: string[] = [];
+    // Tables whose columns the statement can name: those read, plus the write target
+    private readonly scope = new Set<string>();
+    private readonly aliases = new Map<string, string>();
+    // CTE names and derived-table aliases, and the columns they output
+    private readonly virtualTables = new Set<string>();
+    private readonly virtualColumns = new Set<string>();
+    private readonly selectAliases = new Set<string>();
+    private readonly columns: ColumnRef[] = [];
+
+    constructor(private readonly policyOf: (table: string) => TablePolicy | undefined) {}
+
+    walk(node: any, at?: SqlPosition): void {
+        if (node === null || typeof node !== 'object') return;
+        if (Array.isArray(node)) {
+            for (const item of node) this.walk(item, at);
+            return;
+        }
+        const position = positionOf(node) ?? at;
+
+        if (Array.isArray(node.with)) {
+            for (const cte of node.with) {
+                const name = cte?.name?.value ?? cte?.name;
+                if (typeof name === 'string') this.virtualTables.add(name.toLowerCase());
+                const named = Array.isArray(cte?.columns) ? cte.columns.map(columnName) : outputColumns(cte?.stmt?.ast);
+                for (const column of named) {
+                    if (typeof column === 'string') this.virtualColumns.add(column.toLowerCase());
+                }
+            }
+        }
+        if (typeof node.as === 'string') {
+            if (node.expr?.ast) {
+                this.virtualTables.add(node.as.toLowerCase());
+                for (const column of outputColumns(node.expr.ast)) this.virtualColumns.add(column.toLowerCase());
+            } else if (node.expr) this.selectAliases.add(node.as.toLowerCase());
+        }
+
+        switch (node.type) {
+            case 'var':
+                throw new Rejection(403, `Variables are not allowed (${node.prefix ?? ''}${node.name})`, position);
+            case 'function':
+            case 'aggr_func': {
+                const name = functionName(node);
+                if (!ALLOWED_FUNCTIONS.has(name)) {
+                    throw new Rejection(403, `Function ${name}() is not allowed`, position);
+                }
+                break;
+            }
+            case 'column_ref': {
+                const column = columnName(node);
+                if (column !== undefined) this.columns.push({ table: node.table ?? null, column, position });
+                return;
+            }
+            case 'select':
+                if (node.into?.keyword) {
+                    throw new Rejection(403, `SELECT ... INTO ${String(node.into.keyword).toUpperCase()} is not allowed`, position);
+                }
+                break;
+        }
+
+        if (isTableRef(node)) {
+            this.read(node);
+        }
+
+        for (const [key, value] of Object.entries(node)) {
+            if (key === 'loc' || key === 'tableList' || key === 'columnList') continue;
+            this.walk(value, position);
+        }
+    }
+
+    /**
+     * Check the target of a write and the columns it sets
+     */
+    write(ref: any, setColumns: { column: string; node?: any }[]): string {
+        const table = this.resolveTable(ref);
+        const policy = this.policyOf(table);
+        if (!policy?.writable) {
+            throw new Rejection(403, `Table ${table} can't be written from the SQL terminal`, positionOf(ref));
+        }
+        this.scope.add(table);
+        if (typeof ref.as === 'string') this.aliases.set(ref.as.toLowerCase(), table);
+
+        const writable = policy.writable.map(c => c.toLowerCase());
+        const readable = (policy.readable ?? []).map(c => c.toLowerCase());
+        for (const { column, node } of setColumns) {
+            const name = column.toLowerCase();
+            if (writable.includes(name)) continue;
+            if (name === 'last_modified_by') {
+                throw new Rejection(400, 'last_modified_by is set from your identity; leave it out of the statement', positionOf(node));
+            }
+            throw new Rejection(
+                403,
+                readable.includes(name)
+                    ? `Column ${table}.${column} is kept by the sync engine and can't be written`
+                    : `Column ${table}.${column} can't be written; writable columns: ${policy.writable.join(', ')}`,
+                positionOf(node)
+            );
+        }
+        return table;
+    }
+
+    /**
+     * Check every column reference against the tables it can belong to
+     */
+    checkColumns(): void {
+        for (const ref of this.columns) {
+            const column = ref.column.toLowerCase();
+            if (column === '*') continue;
+
+            if (ref.table) {
+                const qualifier = ref.table.toLowerCase();
+                if (this.virtualTables.has(qualifier)) continue;
+                const table = this.aliases.get(qualifier) ?? qualifier;
+                const readable = this.policyOf(table)?.readable;
+                if (readable && !readable.some(c => c.toLowerCase() === column)) {
+                    throw new Rejection(403, `Column ${ref.table}.${ref.column} is not readable; ${table} has: ${readable.join(', ')}`, ref.position);
+                }
+                continue;
+            }
+
+            if (this.selectAliases.has(column) || this.virtualColumns.has(column)) continue;
+            const lists = [...this.scope].map(table => this.policyOf(table)?.readable);
+            // A table without a column list takes any name
+            if (lists.some(list => list === undefined)) continue;
+            if (!lists.some(list => list!.some(c => c.toLowerCase() === column))) {
+                throw new Rejection(403, `Column ${ref.column} is not a column of ${[...this.scope].join(', ')}`, ref.position);
+            }
+        }
+    }
+
+    private read(ref: any): void {
+        const name = ref.table.toLowerCase();
+        if (ref.db === null && this.virtualTables.has(name)) return;
+        const table = this.resolveTable(ref);
+        if (!this.policyOf(table)) {
+            throw new Rejection(403, `Table ${table} can't be read from the SQL terminal`, positionOf(ref));
+        }
+        this.scope.add(table);
+        if (!this.readTables.includes(table)) this.readTables.push(table);
+        if (typeof ref.as === 'string') this.aliases.set(ref.as.toLowerCase(), table);
+    }
+
+    private resolveTable(ref: any): string {
+        if (ref.db) {
+            throw new Rejection(403, `Tables outside this database are not allowed (${ref.db}.${ref.table})`, positionOf(ref));
+        }
+        return ref.table.toLowerCase();
+    }
+}
+
+function inspectAst(ast: any, policyOf: (table: string) => TablePolicy | undefined): Omit<InspectedStatement, 'query'> {
+    const type: StatementType = ast.type;
+    if (!STATEMENT_TYPES.includes(type)) {
+        throw new Rejection(
+            403,
+            `${String(ast.type).toUpperCase()} statements are not allowed; use SELECT, INSERT, UPDATE, DELETE, SHOW, DESCRIBE or EXPLAIN`,
+            positionOf(ast)
+        );
+    }
+
+    const walker = new StatementWalker(policyOf);
+    let writeTable: string | undefined;
+    let writeColumns: string[] = [];
+
+    switch (type) {
+        case 'insert': {
+            const [target, ...others] = ast.table ?? [];
+            if (others.length > 0) throw new Rejection(403, 'INSERT may only name one table', positionOf(others[0]));
+            if (!Array.isArray(ast.columns) && !Array.isArray(ast.set)) {
+                throw new Rejection(403, `INSERT INTO ${target.table} must list its columns`, positionOf(target));
+            }
+            const assignments = [...(ast.set ?? []), ...(ast.on_duplicate_update?.set ?? [])];
+            const columns = [
+                ...(ast.columns ?? []).map((column: string) => ({ column })),
+                ...assignments.map((item: any) => ({ column: item.column, node: item.value })),
+            ];
+            writeTable = walker.write(target, columns);
+            writeColumns = [...new Set(columns.map(c => c.column))];
+            walker.walk([ast.values, assignments.map((item: any) => item.value)]);
+            break;
+        }
+        case 'update': {
+            const [target, ...others] = ast.table ?? [];
+            if (others.length > 0) throw new Rejection(403, 'UPDATE may only name one table', positionOf(others[0]));
+            const columns = (ast.set ?? []).map((item: any) => ({ column: item.column, node: item.value }));
+            writeTable = walker.write(target, columns);
+            writeColumns = columns.map((c: { column: string }) => c.column);
+            walker.walk([ast.with, ast.set.map((item: any) => item.value), ast.where, ast.orderby, ast.limit]);
+            break;
+        }
+        case 'delete': {
+            const [target, ...others] = ast.from ?? [];
+            if (others.length > 0) throw new Rejection(403, 'DELETE may only name one table', positionOf(others[0]));
+            const named = (ast.table ?? []).find((t: any) => t.table.toLowerCase() !== target.table.toLowerCase()
+                && t.table.toLowerCase() !== String(target.as ?? '').toLowerCase());
+            if (named) throw new Rejection(403, 'DELETE may only name one table', positionOf(named));
+            writeTable = walker.write(target, []);
+            walker.walk([ast.with, ast.where, ast.orderby, ast.limit]);
+            break;
+        }
+        case 'show': {
+            const keyword = String(ast.keyword).toLowerCase();
+            if (!SHOW_KEYWORDS.includes(keyword) || (keyword === 'create' && ast.suffix !== 'table')) {
+                throw new Rejection(403, `SHOW ${[ast.keyword, ast.suffix].filter(Boolean).join(' ').toUpperCase()} is not allowed`);
+            }
+            walker.walk([ast.from, ast.table]);
+            break;
+        }
+        case 'desc':
+            walker.walk({ db: null, table: ast.table });
+            break;
+        case 'explain': {
+            // EXPLAIN doesn't run the statement, but it may only describe one the terminal could run
+            const inner = inspectAst(ast.expr, policyOf);
+            return { type, writeColumns: [], readTables: inner.readTables, ast };
+        }
+        default:
+            walker.walk(ast);
+    }
+
+    walker.checkColumns();
+    return { type, writeTable, writeColumns, readTables: walker.readTables, ast };
+}
+
+/**
+ * Parse one statement and check it against `policyOf`, which describes every
+ * table the terminal may name
+ */
+export function inspectStatement(query: string, policyOf: (table: string) => TablePolicy | undefined): SqlInspection {
+    const hidden = executableComment(query);
+    if (hidden) {
+        return { ok: false, status: 403, error: 'Executable comments (/*! ... */) and optimizer hints (/*+ ... */) are not allowed', position: hidden };
+    }
+
+    let ast: any;
+    try {
+        ast = parser.astify(query, PARSE_OPTIONS as any);
+    } catch (error: any) {
+        const position = error.location?.start ? { line: error.location.start.line, column: error.location.start.column } : undefined;
+        const found = typeof error.found === 'string' ? `unexpected "${error.found}"` : 'unexpected end of query';
+        return { ok: false, status: 400, error: `Could not parse the query: ${error.location ? found : error.message}`, position };
+    }
+
+    if (Array.isArray(ast)) {
+        if (ast.length !== 1) {
+            return { ok: false, status: 403, error: `Only one statement per query is allowed (found ${ast.length})`, position: positionOf(ast[1]) };
+        }
+        ast = ast[0];
+    }
+
+    try {
+        return { ok: true, statement: { ...inspectAst(ast, policyOf), query } };
+    } catch (error) {
+        if (error instanceof Rejection) {
+            return { ok: false, status: error.status, error: error.error, position: error.position };
+        }
+        throw error;
+    }
+}
+
+// ── Reading a write's intent off its tree ──
+
+export interface CellAddress {
+    row: number;
+    col: string;
+}
+
+/**
+ * Value of a literal node; undefined for anything MySQL has to evaluate
+ */
+function literalValue(node: any): string | number | null | undefined {
+    switch (node?.type) {
+        case 'number':
+            return Number(node.value);
+        case 'single_quote_string':
+        case 'double_quote_string':
+        case 'string':
+            return String(node.value);
+        case 'null':
+            return null;
+        default:
+            return undefined;
+    }
+}
+
+function cellAddress(row: unknown, col: unknown): CellAddress | undefined {
+    if (typeof row !== 'number' || !Number.isInteger(row) || row < 1) return undefined;
+    if (typeof col !== 'string' || !/^[A-Za-z]{1,3}$/.test(col)) return undefined;
+    return { row, col: col.toUpperCase() };
+}
+
+/**
+ * The rows an INSERT writes, as column → value node
+ */
+function insertedRows(statement: InspectedStatement): Map<string, any>[] | undefined {
+    const { ast } = statement;
+    if (Array.isArray(ast.set)) {
+        return [new Map(ast.set.map((item: any) => [item.column.toLowerCase(), item.value]))];
+    }
+    if (ast.values?.type !== 'values') return undefined;
+    const columns: string[] = ast.columns.map((c: string) => c.toLowerCase());
+    return ast.values.values.map((tuple: any) => new Map(columns.map((c, i) => [c, tuple.value[i]])));
+}
+
+/**
+ * The cells a cell-table INSERT names in its VALUES tuples. Undefined when a
+ * row_num or col_name isn't a literal cell address, or the rows come from a SELECT.
+ */
+export function insertedCells(statement: InspectedStatement): CellAddress[] | undefined {
+    const rows = insertedRows(statement);
+    if (!rows) return undefined;
+    const cells: CellAddress[] = [];
+    for (const row of rows) {
+        const cell = cellAddress(literalValue(row.get('row_num')), literalValue(row.get('col_name')));
+        if (!cell) return undefined;
+        cells.push(cell);
+    }
+    return cells;
+}
+
+/**
+ * The literal a single-row INSERT or an UPDATE gives `column`: undefined when
+ * it isn't set or isn't a literal
+ */
+export function assignedLiteral(statement: InspectedStatement, column: string): string | number | null | undefined {
+    const wanted = column.toLowerCase();
+    if (statement.type === 'insert') {
+        const rows = insertedRows(statement);
+        return rows?.length === 1 && rows[0].has(wanted) ? literalValue(rows[0].get(wanted)) : undefined;
+    }
+    const item = (statement.ast.set ?? []).find((i: any) => i.column.toLowerCase() === wanted);
+    return item ? literalValue(item.value) : undefined;
+}
+
+/**
+ * The one cell a WHERE pins with `row_num = n AND col_name = 'X'`, if it does
+ */
+export function pinnedCell(statement: InspectedStatement): CellAddress | undefined {
+    const terms: any[] = [];
+    const collect = (node: any) => {
+        if (node?.type === 'binary_expr' && node.operator === 'AND') {
+            collect(node.left);
+            collect(node.right);
+        } else {
+            terms.push(node);
+        }
+    };
+    collect(statement.ast.where);
+    const equals = (column: string) => {
+        const term = terms.find(t => t?.type === 'binary_expr' && t.operator === '='
+            && t.left?.type === 'column_ref' && columnName(t.left)?.toLowerCase() === column);
+        return term ? literalValue(term.right) : undefined;
+    };
+    return cellAddress(equals('row_num'), equals('col_name'));
+}
+
+/**
+ * SELECT of the records an UPDATE or DELETE matches: same table, WHERE, ORDER BY
+ * and LIMIT. With `forUpdate`, the read locks them until the transaction ends.
+ */
+export function matchingRecordsQuery(statement: InspectedStatement, forUpdate: boolean): string {
+    const { ast } = statement;
+    const select = {
+        with: ast.with ?? null,
+        type: 'select',
+        options: null,
+        distinct: null,
+        columns: [{ expr: { type: 'column_ref', table: null, column: '*' }, as: null }],
+        from: statement.type === 'update' ? [ast.table[0]] : [ast.from[0]],
+        where: ast.where ?? null,
+        groupby: null,
+        having: null,
+        orderby: ast.orderby ?? null,
+        limit: ast.limit ?? null,
+        locking_read: forUpdate ? 'FOR UPDATE' : null,
+    };
+    return parser.sqlify(select as any, PARSE_OPTIONS as any);
+}
+
+/**
+ * The write's text rebuilt from its checked tree, with `assignments` (an UPDATE
+ * SET list) put in front of an UPDATE's own. What runs is then exactly what was
+ * checked and locked, whatever the original text held that the parser dropped.
+ */
+export function writeQuery(statement: InspectedStatement, assignments?: string): string {
+    let ast = statement.ast;
+    if (statement.type === 'update' && assignments) {
+        const extra: any = parser.astify(`UPDATE t SET ${assignments}`, PARSE_OPTIONS as any);
+        ast = { ...ast, set: [...extra.set, ...ast.set] };
+    }
+    if (statement.type === 'insert' && Array.isArray(ast.columns)) {
+        // Column lists come out unquoted; names with spaces need their backticks
+        ast = { ...ast, columns: ast.columns.map((c: string) => `\`${c.replace(/`/g, '``')}\``) };
+    }
+    return parser.sqlify(ast, PARSE_OPTIONS as any);
+}
@@ -0,0 +1,152 @@
+/**
+ * Structural sheet edits (rows or columns inserted, deleted or moved) as
+ * position plans. Rows are numbered from 1 and columns by index from 0; the
+ * math is the same for both.
+ */
+import { indexToColumn } from './a1';
+import { StructureAction, SyncEvent } from '../types/types';
+
+export type Axis = 'row' | 'col';
+
+/**
+ * One axis of a structural edit, as seen through the ids that travel with rows
+ * and columns. `moves` holds every tracked position that survived, unmoved ones
+ * included; `deleted` the tracked positions that are gone.
+ */
+export interface PositionChange {
+    moves: Map<number, number>;   // old position → new position
+    deleted: number[];            // old positions
+}
+
+export function lowestPosition(axis: Axis): number {
+    return axis === 'row' ? 1 : 0;
+}
+
+/**
+ * How many of the sorted `values` are below `limit`
+ */
+function countBelow(values: number[], limit: number): number {
+    let lo = 0;
+    let hi = values.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (values[mid] < limit) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+/**
+ * Where any old position ends up: its new position, or null if it was deleted.
+ * Untracked positions keep their distance to the nearest surviving tracked
+ * position (above, else below), less the deletions in between.
+ */
+export function positionPlanner(change: PositionChange): (position: number) => number | null {
+    const deleted = [...change.deleted].sort((a, b) => a - b);
+    const deletedSet = new Set(deleted);
+    const anchors = Array.from(change.moves.keys()).sort((a, b) => a - b);
+    // Deletions strictly between two positions
+    const deletedBetween = (from: number, to: number) => countBelow(deleted, to) - countBelow(deleted, from + 1);
+
+    return (position: number) => {
+        if (deletedSet.has(position)) return null;
+        const moved = change.moves.get(position);
+        if (moved !== undefined) return moved;
+
+        const index = countBelow(anchors, position);
+        if (index > 0) {
+            const above = anchors[index - 1];
+            return change.moves.get(above)! + (position - above) - deletedBetween(above, position);
+        }
+        if (index < anchors.length) {
+            const below = anchors[index];
+            return change.moves.get(below)! - (below - position) + deletedBetween(position, below);
+        }
+        return position - countBelow(deleted, position);
+    };
+}
+
+/**
+ * Plan every position in `positions` (plus the tracked ones). Throws if two
+ * positions would land on the same spot or one would fall off the sheet.
+ */
+export function planMoves(positions: Iterable<number>, change: PositionChange, axis: Axis): Map<number, number | null> {
+    const place = positionPlanner(change);
+    const plan = new Map<number, number | null>();
+    for (const position of [...positions, ...change.moves.keys(), ...change.deleted]) {
+        if (!plan.has(position)) plan.set(position, place(position));
+    }
+
+    const taken = new Set<number>();
+    for (const [position, target] of plan.entries()) {
+        if (target === null) continue;
+        if (target < lowestPosition(axis) || taken.has(target)) {
+            throw new Error(`${axis} ${positionLabel(axis, position)} has no free place to move to`);
+        }
+        taken.add(target);
+    }
+    return plan;
+}
+
+export function positionLabel(axis: Axis, position: number): string {
+    return axis === 'row' ? String(position) : indexToColumn(position);
+}
+
+/**
+ * Consecutive positions as ranges: [3, 4, 5, 9] → [[3, 5], [9, 9]]
+ */
+function toRanges(positions: number[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    for (const position of [...positions].sort((a, b) => a - b)) {
+        const last = ranges[ranges.length - 1];
+        if (last && position === last[1] + 1) last[1] = position;
+        else ranges.push([position, position]);
+    }
+    return ranges;
+}
+
+/**
+ * Describe a planned structural edit as sync events, one per contiguous block:
+ * deleted (old positions), added (new positions nothing moved to) and
+ * reordered (old positions of rows or columns that changed order).
+ */
+export function structureEvents(axis: Axis, change: PositionChange, plan: Map<number, number | null>): SyncEvent[] {
+    const timestamp = Date.now();
+    const event = (type: SyncEvent['type'], action: StructureAction, [from, to]: [number, number]): SyncEvent => ({
+        type,
+        ...(axis === 'row' ? { row: from } : { col: indexToColumn(from) }),
+        source: 'sheet',
+        timestamp,
+        metadata: { action, affectedRange: `${positionLabel(axis, from)}:${positionLabel(axis, to)}` },
+    });
+    const events: SyncEvent[] = [];
+
+    for (const range of toRanges(change.deleted)) {
+        events.push(event('DELETE', axis === 'row' ? 'DELETE_ROW' : 'DELETE_COL', range));
+    }
+
+    const targets = new Set(Array.from(plan.values()).filter((t): t is number => t !== null));
+    const added: number[] = [];
+    for (let position = lowestPosition(axis); position <= Math.max(...targets); position++) {
+        if (!targets.has(position)) added.push(position);
+    }
+    for (const range of toRanges(added)) {
+        events.push(event('INSERT', axis === 'row' ? 'ADD_ROW' : 'ADD_COL', range));
+    }
+
+    // A survivor is out of order if something before it now lands after it, or the other way round
+    const survivors = Array.from(change.moves.entries()).sort((a, b) => a[0] - b[0]);
+    const maxBefore: number[] = [];
+    survivors.forEach(([, to], i) => maxBefore.push(Math.max(i > 0 ? maxBefore[i - 1] : -Infinity, to)));
+    const minAfter: number[] = new Array(survivors.length);
+    for (let i = survivors.length - 1; i >= 0; i--) {
+        minAfter[i] = Math.min(i < survivors.length - 1 ? minAfter[i + 1] : Infinity, survivors[i][1]);
+    }
+    const reordered = survivors
+        .filter(([, to], i) => (i > 0 && maxBefore[i - 1] > to) || (i < survivors.length - 1 && minAfter[i + 1] < to))
+        .map(([from]) => from);
+    if (reordered.length > 0) {
+        events.push(event('UPDATE', axis === 'row' ? 'MOVE_ROW' : 'MOVE_COL', [Math.min(...reordered), Math.max(...reordered)]));
+    }
+    return events;
+}
@@ -0,0 +1,260 @@
+/**
+ * Minimal .xlsx (Office Open XML) reading and writing for the file-backed
+ * spreadsheet provider. Reads values, number formats and formulas; writes them
+ * back with a handful of built-in formats. Styling, merged cells and the like
+ * are not preserved.
+ */
+import { readZip, writeZip } from './zip';
+import { columnToIndex, indexToColumn, parseCellRef } from './a1';
+import { SheetNumberFormat, TypedValue, ValueType, fromSheet, isDateType, wallClockToSerial } from './cellValues';
+
+/** One tab: its non-empty cells by "row:COL", the key the sync engine uses */
+export interface WorkbookSheet {
+    name: string;
+    cells: Map<string, TypedValue>;
+}
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Cell styles written out, by index: built-in number format of each
+const WRITTEN_FORMATS = [0, 14, 22, 21, 10, 7];
+const STYLE_OF: Partial<Record<ValueType, number>> = { date: 1, datetime: 2, time: 3, percent: 4, currency: 5 };
+
+function decodeXml(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+        if (entity[0] === '#') {
+            return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1)));
+        }
+        return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[entity.toLowerCase()];
+    });
+}
+
+function escapeXml(text: string): string {
+    return text
+        // Control characters aren't allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function attributes(tag: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const match of tag.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+        attrs[match[1]] = decodeXml(match[2]);
+    }
+    return attrs;
+}
+
+/**
+ * Text of a shared or inline string: every run's <t>, without phonetic guides
+ */
+function richText(xml: string): string {
+    return Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), m => decodeXml(m[1])).join('');
+}
+
+function builtinFormat(id: number): SheetNumberFormat | undefined {
+    if (id >= 14 && id <= 17) return { type: 'DATE' };
+    if (id === 22) return { type: 'DATE_TIME' };
+    if ((id >= 18 && id <= 21) || (id >= 45 && id <= 47)) return { type: 'TIME' };
+    if (id === 9 || id === 10) return { type: 'PERCENT' };
+    if (id >= 5 && id <= 8) return { type: 'CURRENCY' };
+    if (id === 49) return { type: 'TEXT' };
+    if (id >= 1 && id <= 4) return { type: 'NUMBER' };
+    return undefined;
+}
+
+/**
+ * Number format of each cell style index
+ */
+function readStyles(xml: string | undefined): SheetNumberFormat[] {
+    if (!xml) return [];
+    const custom = new Map<number, string>();
+    for (const match of xml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+        const attrs = attributes(match[1]);
+        custom.set(Number(attrs.numFmtId), attrs.formatCode ?? '');
+    }
+    const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+    return Array.from((cellXfs?.[1] ?? '').matchAll(/<xf\b([^>]*)/g), match => {
+        const id = Number(attributes(match[1]).numFmtId ?? 0);
+        return (custom.has(id) ? { pattern: custom.get(id) } : builtinFormat(id)) ?? {};
+    });
+}
+
+/**
+ * What a sheet would display for a number, given the type its format implies
+ */
+function numberDisplay(typed: TypedValue, n: number, format: SheetNumberFormat): string {
+    if (isDateType(typed.type) && typeof typed.raw === 'string') return typed.raw;
+    if (typed.type === 'percent') return `${+(n * 100).toPrecision(15)}%`;
+    if (typed.type === 'currency') {
+        const symbol = (format.pattern ?? '').match(/[$€£¥₹]/)?.[0] ?? '$';
+        return `${n < 0 ? '-' : ''}${symbol}${Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+    return String(+n.toPrecision(15));
+}
+
+function readCell(type: string, inner: string, format: SheetNumberFormat, sharedStrings: string[]): TypedValue | null {
+    const formulaText = inner.match(/<f\b[^>]*>([\s\S]*?)<\/f>/)?.[1];
+    const formula = formulaText ? `=${decodeXml(formulaText)}` : undefined;
+    const stored = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+    const v = stored === undefined ? undefined : decodeXml(stored);
+    const text = (display: string): TypedValue => ({ type: 'string', display, raw: display });
+
+    let typed: TypedValue | null = null;
+    switch (type) {
+        case 's':
+            typed = v === undefined ? null : text(sharedStrings[Number(v)] ?? '');
+            break;
+        case 'inlineStr':
+            typed = text(richText(inner.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? ''));
+            break;
+        case 'str':
+        case 'd':
+            typed = v === undefined ? null : text(v);
+            break;
+        case 'b':
+            typed = v === undefined ? null : { type: 'boolean', display: v === '1' ? 'TRUE' : 'FALSE', raw: v === '1' };
+            break;
+        case 'e':
+            typed = { type: 'error', display: v ?? '#N/A', raw: null };
+            break;
+        default: {
+            const n = v === undefined ? NaN : Number(v);
+            if (!isNaN(n)) {
+                typed = fromSheet('', n, format);
+                typed.display = numberDisplay(typed, n, format);
+            }
+        }
+    }
+
+    if (formula) return { ...(typed ?? text('')), formula };
+    return typed && typed.display !== '' ? typed : null;
+}
+
+function readSheet(xml: string, styles: SheetNumberFormat[], sharedStrings: string[]): Map<string, TypedValue> {
+    const cells = new Map<string, TypedValue>();
+    let rowNumber = 0;
+    for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+        rowNumber = Number(attributes(rowMatch[1]).r ?? rowNumber + 1);
+        let colIndex = -1;
+        for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attrs = attributes(cellMatch[1]);
+            const ref = attrs.r ? parseCellRef(attrs.r) : null;
+            // References may be left out, for cells that follow on from the last
+            colIndex = ref ? columnToIndex(ref.col) : colIndex + 1;
+            const value = readCell(attrs.t ?? 'n', cellMatch[2] ?? '', styles[Number(attrs.s ?? 0)] ?? {}, sharedStrings);
+            if (value) cells.set(`${rowNumber}:${indexToColumn(colIndex)}`, value);
+        }
+    }
+    return cells;
+}
+
+/**
+ * Read every tab of an .xlsx file, in workbook order
+ */
+export function readWorkbook(file: Buffer): WorkbookSheet[] {
+    const entries = readZip(file);
+    const text = (name: string) => entries.get(name)?.toString('utf8');
+
+    const workbook = text('xl/workbook.xml');
+    if (!workbook) throw new Error('Not an .xlsx workbook (xl/workbook.xml is missing)');
+
+    const targets = new Map<string, string>();
+    for (const match of (text('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+        const attrs = attributes(match[1]);
+        targets.set(attrs.Id, attrs.Target.startsWith('/') ? attrs.Target.slice(1) : `xl/${attrs.Target}`);
+    }
+    const sharedStrings = Array.from((text('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g), m => richText(m[1]));
+    const styles = readStyles(text('xl/styles.xml'));
+
+    return Array.from(workbook.matchAll(/<sheet\b([^>]*)\/?>/g), match => {
+        const attrs = attributes(match[1]);
+        const path = targets.get(attrs['r:id']);
+        const xml = path ? text(path) : undefined;
+        return { name: attrs.name, cells: xml ? readSheet(xml, styles, sharedStrings) : new Map() };
+    });
+}
+
+function cellXml(ref: string, value: TypedValue): string {
+    const style = STYLE_OF[value.type];
+    const s = style ? ` s="${style}"` : '';
+    const formula = value.formula ? `<f>${escapeXml(value.formula.replace(/^=/, ''))}</f>` : '';
+
+    if (value.type === 'boolean' && typeof value.raw === 'boolean') {
+        return `<c r="${ref}" t="b">${formula}<v>${value.raw ? 1 : 0}</v></c>`;
+    }
+    const number = typeof value.raw === 'number'
+        ? value.raw
+        : isDateType(value.type) && typeof value.raw === 'string' ? wallClockToSerial(value.raw, value.type) : null;
+    if (number !== null && isFinite(number)) {
+        return `<c r="${ref}"${s}>${formula}<v>${number}</v></c>`;
+    }
+    if (formula) {
+        return `<c r="${ref}" t="str">${formula}<v>${escapeXml(value.display)}</v></c>`;
+    }
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value.display)}</t></is></c>`;
+}
+
+function sheetXml(cells: Map<string, TypedValue>): string {
+    const rows = new Map<number, { colIndex: number; xml: string }[]>();
+    for (const [key, value] of cells.entries()) {
+        const [rowStr, col] = key.split(':');
+        const row = parseInt(rowStr);
+        if (!rows.has(row)) rows.set(row, []);
+        rows.get(row)!.push({ colIndex: columnToIndex(col), xml: cellXml(`${col}${row}`, value) });
+    }
+    const rowXml = Array.from(rows.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([row, rowCells]) => `<row r="${row}">${rowCells.sort((a, b) => a.colIndex - b.colIndex).map(c => c.xml).join('')}</row>`);
+    return `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}"><sheetData>${rowXml.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Write tabs as a new .xlsx file
+ */
+export function writeWorkbook(sheets: WorkbookSheet[]): Buffer {
+    const sheetEntries = sheets.map((sheet, i) => ({
+        path: `worksheets/sheet${i + 1}.xml`,
+        relId: `rId${i + 1}`,
+        sheet,
+    }));
+    const stylesRelId = `rId${sheets.length + 1}`;
+
+    const contentTypes = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + sheetEntries.map(e => `<Override PartName="/xl/${e.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+        + '</Types>';
+    const rootRels = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_REL_NS}">`
+        + `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+    const workbook = `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>`
+        + sheetEntries.map((e, i) => `<sheet name="${escapeXml(e.sheet.name)}" sheetId="${i + 1}" r:id="${e.relId}"/>`).join('')
+        + '</sheets></workbook>';
+    const workbookRels = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_REL_NS}">`
+        + sheetEntries.map(e => `<Relationship Id="${e.relId}" Type="${REL_NS}/worksheet" Target="${e.path}"/>`).join('')
+        + `<Relationship Id="${stylesRelId}" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`;
+    const styles = `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NS}">`
+        + '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+        + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+        + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+        + `<cellXfs count="${WRITTEN_FORMATS.length}">`
+        + WRITTEN_FORMATS.map(id => `<xf numFmtId="${id}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="${id ? 1 : 0}"/>`).join('')
+        + '</cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>';
+
+    return writeZip([
+        { name: '[Content_Types].xml', data: Buffer.from(contentTypes) },
+        { name: '_rels/.rels', data: Buffer.from(rootRels) },
+        { name: 'xl/workbook.xml', data: Buffer.from(workbook) },
+        { name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(workbookRels) },
+        { name: 'xl/styles.xml', data: Buffer.from(styles) },
+        ...sheetEntries.map(e => ({ name: `xl/${e.path}`, data: Buffer.from(sheetXml(e.sheet.cells)) })),
+    ]);
+}
@@ -1,9 +1,12 @@
 import { Worker, Job } from 'bullmq';
 import redisClient from '../config/redis';
-import pool from '../config/database';
-import lockService from '../services/lockService';
-import cdcMonitor from '../services/cdcMonitor';
-import { JobData } from '../types/types';
+import lockService, { lockLabel } from '../services/lockService';
+import { parseCellRange } from '../utils/a1';
+import { CDCMonitor } from '../services/cdcMonitor';
+import { SHEET_UPDATE_BATCH_JOB, SHEET_UPDATE_QUEUE, sheetUpdateQueuePrefix } from '../queues/sheetUpdateQueue';
+import { mappingScope } from '../utils/redisKeys';
+import { fromSheet } from '../utils/cellValues';
+import { BatchJobData, CellEdit, JobData, SyncMapping } from '../types/types';
 import pino from 'pino';
 
 const logger = pino({
@@ -17,77 +20,153 @@ const logger = pino({
     },
 });
 
-const sheetUpdateWorker = new Worker(
-    'sheet-update',
-    async (job: Job<JobData>) => {
-        const { row, col, value, sheetId, timestamp } = job.data;
+/**
+ * Create the webhook job worker for one registered spreadsheet.
+ * It consumes that spreadsheet's queue only and writes through its mappings.
+ */
+export function createSheetUpdateWorker(cdcMonitor: CDCMonitor): Worker {
+    const mappings = cdcMonitor.getMappingRegistry();
+
+    const resolveMapping = (mappingId?: string): SyncMapping => {
+        // Jobs queued before mappings existed carry no mappingId
+        const mapping = mappingId ? mappings.get(mappingId) : mappings.getDefault();
+        if (!mapping) {
+            throw new Error(`Unknown sync mapping "${mappingId}"`);
+        }
+        return mapping;
+    };
+
+    /**
+     * Write one edited cell. A cell that changed in the DB since the sheet last
+     * saw it isn't overwritten but recorded as a conflict.
+     */
+    const writeEdit = async (mapping: SyncMapping, edit: CellEdit, timestamp: number): Promise<{ version?: number; conflictId?: number }> => {
+        const { row, col, value, rawValue, numberFormat, formula } = edit;
+        // Older scripts send only the displayed string; its type is inferred then
+        const typed = rawValue !== undefined ? fromSheet(value, rawValue, { pattern: numberFormat }) : null;
+        const input = typed && formula ? { ...typed, formula } : typed ?? value;
+        const outcome = await cdcMonitor.getStore(mapping.id).writeCell(row, col, input, 'user', 'sheet');
+        if (outcome.applied) return { version: outcome.version };
+
+        const conflictId = await cdcMonitor.recordConflict(mapping.id, {
+            row,
+            col,
+            side: 'sheet',
+            value,
+            source: 'user',
+            baseVersion: outcome.current.syncedVersion,
+            at: new Date(timestamp),
+            current: outcome.current,
+        });
+        return { conflictId };
+    };
+
+    const processCell = async (job: Job<JobData>) => {
+        const { row, col, value, timestamp } = job.data;
         const lockOwner = `job:${job.id}`;
+        const mapping = resolveMapping(job.data.mappingId);
+        const scope = mappingScope(cdcMonitor.key, mapping.id);
+
+        console.log(`\n🔄 [Job ${job.id}] Processing ${mapping.sheetName} cell ${col}${row} = "${value}"`);
 
-        console.log(`\n🔄 [Job ${job.id}] Processing cell ${col}${row} = "${value}"`);
+        // A rows-mode store rewrites the whole record, so the job locks the row
+        const lock = cdcMonitor.getStore(mapping.id).writeLock(row, col);
 
         try {
-            console.log(`🔒 [Job ${job.id}] Attempting to acquire lock for ${col}${row}...`);
-            const locked = await lockService.acquireLock(row, col, lockOwner);
+            console.log(`🔒 [Job ${job.id}] Attempting to acquire lock for ${lockLabel(lock)}...`);
+            const locked = await lockService.acquire(scope, lock, lockOwner);
 
             if (!locked) {
-                console.log(`❌ [Job ${job.id}] Failed to acquire lock for ${col}${row}`);
-                throw new Error(`Could not acquire lock for ${col}${row}`);
+                console.log(`❌ [Job ${job.id}] Failed to acquire lock for ${lockLabel(lock)}`);
+                throw new Error(`Could not acquire lock for ${lockLabel(lock)}`);
             }
 
-            console.log(`✅ [Job ${job.id}] Lock acquired for ${col}${row}`);
-
-            const [existing] = await pool.query<any[]>(
-                'SELECT * FROM users WHERE row_num = ? AND col_name = ?',
-                [row, col]
-            );
-
-            if (existing.length > 0) {
-                await pool.query(
-                    `UPDATE users 
-                     SET cell_value = ?, last_modified_by = ?, updated_at = NOW()
-                     WHERE row_num = ? AND col_name = ?`,
-                    [value, 'user', row, col]
-                );
-                console.log(`📝 [Job ${job.id}] Updated ${col}${row} = "${value}"`);
-            } else {
-                await pool.query(
-                    `INSERT INTO users (row_num, col_name, cell_value, last_modified_by)
-                     VALUES (?, ?, ?, ?)`,
-                    [row, col, value, 'user']
-                );
-                console.log(`📝 [Job ${job.id}] Inserted ${col}${row} = "${value}"`);
+            console.log(`✅ [Job ${job.id}] Lock acquired for ${lockLabel(lock)}`);
+
+            const { version, conflictId } = await writeEdit(mapping, job.data, timestamp);
+            if (conflictId !== undefined) {
+                await lockService.release(scope, lock, lockOwner);
+                return { success: false, conflictId, mappingId: mapping.id, row, col, value };
             }
+            console.log(`📝 [Job ${job.id}] Wrote ${col}${row} = "${value}" to ${mapping.table} (v${version})`);
 
-            await lockService.releaseLock(row, col, lockOwner);
-            console.log(`🔓 [Job ${job.id}] Lock released for ${col}${row}`);
+            await lockService.release(scope, lock, lockOwner);
+            console.log(`🔓 [Job ${job.id}] Lock released for ${lockLabel(lock)}`);
 
-            return { success: true, row, col, value };
+            return { success: true, mappingId: mapping.id, row, col, value, version };
         } catch (error) {
-            await lockService.releaseLock(row, col, lockOwner);
+            await lockService.release(scope, lock, lockOwner);
             console.log(`❌ [Job ${job.id}] Error: ${error}`);
             throw error;
         }
-    },
-    {
-        connection: redisClient,
-        concurrency: 5,
-        limiter: {
-            max: 55,        
-            duration: 60000, 
-        },
-    }
-);
+    };
 
-sheetUpdateWorker.on('completed', (job) => {
-    console.log(`✅ [Job ${job?.id}] Completed successfully\n`);
-    cdcMonitor.debouncedSyncFromDatabase();
-});
+    /**
+     * A pasted, filled or cleared block: the whole range is locked before any
+     * cell is written, so no other writer sees it half applied
+     */
+    const processBatch = async (job: Job<BatchJobData>) => {
+        const { range, cells, timestamp } = job.data;
+        const lockOwner = `job:${job.id}`;
+        const mapping = resolveMapping(job.data.mappingId);
+        const scope = mappingScope(cdcMonitor.key, mapping.id);
 
-sheetUpdateWorker.on('failed', (job, err) => {
-    console.log(`❌ [Job ${job?.id}] Failed: ${err.message}\n`);
-});
+        console.log(`\n🔄 [Job ${job.id}] Processing ${mapping.sheetName} block ${range} (${cells.length} cells)`);
+
+        // The block's range, or in rows mode the rows it spans
+        const bounds = parseCellRange(range)!;
+        const lock = cdcMonitor.getStore(mapping.id).writeLock(bounds.fromRow, bounds.fromCol, bounds.toRow, bounds.toCol);
+        if (!await lockService.acquire(scope, lock, lockOwner, lockService.ttlFor(cells.length))) {
+            console.log(`❌ [Job ${job.id}] Failed to lock ${lockLabel(lock)}`);
+            throw new Error(`Could not acquire lock for ${range}`);
+        }
+        console.log(`🔒 [Job ${job.id}] Locked ${lockLabel(lock)} (${cells.length} cells)`);
+
+        try {
+            let written = 0;
+            const conflictIds: number[] = [];
+            for (const cell of cells) {
+                const { conflictId } = await writeEdit(mapping, cell, timestamp);
+                if (conflictId !== undefined) {
+                    conflictIds.push(conflictId);
+                } else {
+                    written++;
+                }
+            }
+            console.log(`📝 [Job ${job.id}] Wrote ${written} cells of ${range} to ${mapping.table}${conflictIds.length ? `, ${conflictIds.length} conflicts` : ''}`);
+            return { success: conflictIds.length === 0, mappingId: mapping.id, range, written, conflictIds };
+        } finally {
+            await lockService.release(scope, lock, lockOwner);
+            console.log(`🔓 [Job ${job.id}] Lock released for ${range}`);
+        }
+    };
+
+    const sheetUpdateWorker = new Worker(
+        SHEET_UPDATE_QUEUE,
+        async (job: Job<JobData | BatchJobData>) => job.name === SHEET_UPDATE_BATCH_JOB
+            ? processBatch(job as Job<BatchJobData>)
+            : processCell(job as Job<JobData>),
+        {
+            connection: redisClient,
+            prefix: sheetUpdateQueuePrefix(cdcMonitor.key),
+            concurrency: 5,
+            limiter: {
+                max: 55,        
+                duration: 60000, 
+            },
+        }
+    );
+
+    sheetUpdateWorker.on('completed', (job) => {
+        console.log(`✅ [Job ${job?.id}] Completed successfully\n`);
+        cdcMonitor.debouncedSyncFromDatabase(job?.data.mappingId);
+    });
 
-console.log('🚀 Sheet update worker started');
+    sheetUpdateWorker.on('failed', (job, err) => {
+        console.log(`❌ [Job ${job?.id}] Failed: ${err.message}\n`);
+    });
 
-export default sheetUpdateWorker;
+    console.log(`🚀 Sheet update worker started for ${cdcMonitor.key}`);
 
+    return sheetUpdateWorker;
+}
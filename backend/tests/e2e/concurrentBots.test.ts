@@ -0,0 +1,41 @@
+import { PEOPLE, SyncHarness } from './harness';
+
+describe('concurrent bots', () => {
+    let harness: SyncHarness;
+
+    beforeAll(async () => {
+        harness = await SyncHarness.start(PEOPLE);
+        await harness.settle();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('serializes contending writers and keeps the last successful write of each cell', async () => {
+        // Bots write rows 1-6; the sheet edits land below them at the same time
+        const [bots] = await Promise.all([
+            harness.api('post', '/api/bots/run').send({ botCount: 12 }),
+            harness.editSheet({ A8: 'edited during the run', B9: '42' }),
+        ]);
+        expect(bots.status).toBe(200);
+
+        const { summary, results } = bots.body;
+        expect(summary.errors).toBe(0);
+        expect(summary.versionConflicts).toBe(0);
+        expect(summary.successes + summary.lockConflicts).toBe(summary.totalBots);
+
+        await harness.settle();
+
+        const table = await harness.tableCells();
+        const written = new Map<string, string[]>();
+        for (const result of results.filter((r: any) => r.status === 'success')) {
+            written.set(result.cell, [...(written.get(result.cell) ?? []), result.value]);
+        }
+        for (const [cell, values] of written.entries()) {
+            expect(values).toContain(table[cell]);
+        }
+        expect(table).toMatchObject({ A8: 'edited during the run', B9: '42' });
+        await harness.expectConverged();
+    });
+});
@@ -0,0 +1,49 @@
+import { PEOPLE, SyncHarness } from './harness';
+
+describe('database outage', () => {
+    let harness: SyncHarness;
+
+    beforeAll(async () => {
+        harness = await SyncHarness.start(PEOPLE);
+        await harness.settle();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('queues sheet edits while MySQL is down and replays them when it is back', async () => {
+        const restore = harness.cutDatabase();
+
+        await harness.editSheet({ B2: '31', A4: 'Sam Lee' });
+        await harness.settle();
+
+        expect((await harness.status()).dbOnline).toBe(false);
+        expect((await harness.pending()).toDb).toBeGreaterThan(0);
+
+        // Reads are served from the cached snapshot meanwhile
+        const read = await harness.sql('SELECT * FROM users');
+        expect(read.status).toBe(200);
+        expect(read.body.fromCache).toBe(true);
+
+        restore();
+        await harness.settle();
+
+        expect((await harness.status()).dbOnline).toBe(true);
+        expect(await harness.tableCells()).toMatchObject({ B2: '31', A4: 'Sam Lee' });
+        await harness.expectConverged();
+    });
+
+    it('refuses terminal writes while MySQL is down', async () => {
+        const restore = harness.cutDatabase();
+        const write = await harness.sql("UPDATE users SET cell_value = 'Oslo' WHERE row_num = 3 AND col_name = 'C'");
+        restore();
+
+        expect(write.status).toBe(503);
+        expect(write.body.dbOffline).toBe(true);
+
+        await harness.settle();
+        expect((await harness.sheetCells()).C3).toBe('London');
+        await harness.expectConverged();
+    });
+});
@@ -0,0 +1,42 @@
+/**
+ * Environment for the e2e suite: the in-memory spreadsheet provider, a MySQL
+ * database and Redis db of their own, and no polling loop (the harness drives
+ * polls itself). Connection settings come from TEST_MYSQL_* / TEST_REDIS_URL,
+ * falling back to the MYSQL_* credentials in .env.
+ */
+import dotenv from 'dotenv';
+
+export const E2E_SHEET_ID = 'e2e-sheet';
+export const E2E_SHEET_NAME = 'Sheet1';
+export const E2E_MAPPING_ID = 'users';
+export const E2E_TABLE = 'users';
+// Bootstrap admin credential the harness sends on API calls
+export const E2E_ADMIN_TOKEN = 'e2e-admin-token';
+
+export function applyTestEnv(): void {
+    dotenv.config();
+    const devDatabase = process.env.MYSQL_DATABASE;
+    const testDatabase = process.env.TEST_MYSQL_DATABASE || 'sheet_sync_test';
+    // The suite drops its tables; never point it at the development database
+    if (testDatabase === devDatabase) {
+        throw new Error(`TEST_MYSQL_DATABASE must differ from MYSQL_DATABASE ("${devDatabase}")`);
+    }
+
+    Object.assign(process.env, {
+        MYSQL_HOST: process.env.TEST_MYSQL_HOST || process.env.MYSQL_HOST || 'localhost',
+        MYSQL_PORT: process.env.TEST_MYSQL_PORT || process.env.MYSQL_PORT || '3306',
+        MYSQL_USER: process.env.TEST_MYSQL_USER || process.env.MYSQL_USER || 'root',
+        MYSQL_PASSWORD: process.env.TEST_MYSQL_PASSWORD ?? process.env.MYSQL_PASSWORD ?? '',
+        MYSQL_DATABASE: testDatabase,
+        // Flushed before every test file
+        REDIS_URL: process.env.TEST_REDIS_URL || 'redis://localhost:6379/15',
+        SPREADSHEET_PROVIDER: 'memory',
+        GOOGLE_SHEET_ID: E2E_SHEET_ID,
+        SYNC_MAPPINGS: JSON.stringify([{ id: E2E_MAPPING_ID, sheetName: E2E_SHEET_NAME, table: E2E_TABLE }]),
+        POLL_INTERVAL: String(24 * 60 * 60 * 1000),
+        BINLOG_ENABLED: 'false',
+        ADMIN_API_TOKEN: E2E_ADMIN_TOKEN,
+        // Low enough for rateLimits.test.ts to reach in a couple of runs
+        RATE_LIMIT_BOTS: '2',
+    });
+}
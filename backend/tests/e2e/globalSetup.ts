@@ -0,0 +1,35 @@
+import mysql from 'mysql2/promise';
+import Redis from 'ioredis';
+import { applyTestEnv } from './env';
+
+/**
+ * Make sure MySQL and Redis are reachable and the test database exists
+ */
+export default async function globalSetup(): Promise<void> {
+    applyTestEnv();
+    const { MYSQL_HOST, MYSQL_PORT, MYSQL_USER, MYSQL_PASSWORD, MYSQL_DATABASE, REDIS_URL } = process.env;
+
+    try {
+        const connection = await mysql.createConnection({
+            host: MYSQL_HOST,
+            port: parseInt(MYSQL_PORT!),
+            user: MYSQL_USER,
+            password: MYSQL_PASSWORD,
+            connectTimeout: 5000,
+        });
+        await connection.query('CREATE DATABASE IF NOT EXISTS ??', [MYSQL_DATABASE]);
+        await connection.end();
+    } catch (error: any) {
+        throw new Error(`The e2e suite needs MySQL at ${MYSQL_HOST}:${MYSQL_PORT} (set TEST_MYSQL_*): ${error.message}`);
+    }
+
+    const redis = new Redis(REDIS_URL!, { lazyConnect: true, maxRetriesPerRequest: 0, connectTimeout: 5000 });
+    try {
+        await redis.connect();
+        await redis.ping();
+    } catch (error: any) {
+        throw new Error(`The e2e suite needs Redis at ${REDIS_URL} (set TEST_REDIS_URL): ${error.message}`);
+    } finally {
+        redis.disconnect();
+    }
+}
@@ -0,0 +1,283 @@
+/**
+ * Boots the Express app and the sync loop for one spreadsheet against the
+ * in-memory spreadsheet provider and the test MySQL/Redis, and drives it the
+ * way users, the Apps Script trigger and the polling loop would.
+ */
+import { createHmac, randomUUID } from 'crypto';
+import request from 'supertest';
+import app from '../../src/app';
+import pool from '../../src/config/database';
+import redisClient from '../../src/config/redis';
+import spreadsheetRegistry from '../../src/services/spreadsheetRegistry';
+import webhookSecrets from '../../src/services/webhookSecrets';
+import { CDCMonitor } from '../../src/services/cdcMonitor';
+import { RowTableStore } from '../../src/services/tableStore';
+import { MemorySpreadsheetProvider, SpreadsheetProvider, spreadsheetProvider } from '../../src/services/spreadsheetProvider';
+import { getSheetUpdateQueue } from '../../src/queues/sheetUpdateQueue';
+import { initializeDatabase } from '../../src/utils/dbInit';
+import { columnToIndex, indexToColumn, parseCellRef } from '../../src/utils/a1';
+import { mappingRedisKeys, mappingScope } from '../../src/utils/redisKeys';
+import { SyncMapping } from '../../src/types/types';
+import { E2E_ADMIN_TOKEN, E2E_MAPPING_ID, E2E_SHEET_ID, E2E_SHEET_NAME, E2E_TABLE } from './env';
+
+const TABLES = [E2E_TABLE, 'spreadsheets', 'mapping_columns', 'sync_tombstones', 'sync_conflicts', 'cell_history', 'api_keys'];
+
+// Longer than the monitor's 500ms debounce of DB → Sheet passes
+const DEBOUNCE_GRACE_MS = 800;
+const SETTLE_TIMEOUT_MS = 30000;
+// Sheet → DB, DB → Sheet, then one more pass to confirm nothing moves
+const SETTLE_ROUNDS = 3;
+
+/**
+ * A small people table most scenarios start from
+ */
+export const PEOPLE: Record<string, string> = {
+    A1: 'Name', B1: 'Age', C1: 'City',
+    A2: 'John Doe', B2: '30', C2: 'New York',
+    A3: 'Jane Smith', B3: '25', C3: 'London',
+};
+
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function offlineError(message: string, code: string): Error {
+    return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Non-empty cells by A1 reference from "row:col" keys
+ */
+function byReference(cells: Iterable<[string, string]>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [key, value] of cells) {
+        if (value === '') continue;
+        const [rowStr, col] = key.split(':');
+        result[`${col}${rowStr}`] = value;
+    }
+    return result;
+}
+
+export class SyncHarness {
+    readonly http = request(app);
+    readonly sheet: MemorySpreadsheetProvider;
+    readonly monitor: CDCMonitor;
+    private readonly keys = mappingRedisKeys(mappingScope('default', E2E_MAPPING_ID));
+
+    private constructor(sheet: MemorySpreadsheetProvider, monitor: CDCMonitor) {
+        this.sheet = sheet;
+        this.monitor = monitor;
+    }
+
+    /**
+     * Start from an empty database and Redis db, with `seed` (by A1 reference)
+     * typed into the sheet before the first snapshot is taken. `mapping` adds to
+     * the tab's mapping, e.g. `{ mode: 'rows', primaryKey: 'Name' }`.
+     */
+    static async start(seed: Record<string, string> = {}, mapping: Partial<SyncMapping> = {}): Promise<SyncHarness> {
+        process.env.SYNC_MAPPINGS = JSON.stringify([{ id: E2E_MAPPING_ID, sheetName: E2E_SHEET_NAME, table: E2E_TABLE, ...mapping }]);
+        await pool.query('SET FOREIGN_KEY_CHECKS = 0');
+        for (const table of TABLES) {
+            await pool.query('DROP TABLE IF EXISTS ??', [table]);
+        }
+        await pool.query('SET FOREIGN_KEY_CHECKS = 1');
+        await redisClient.flushdb();
+
+        const sheet = spreadsheetProvider();
+        if (!(sheet instanceof MemorySpreadsheetProvider)) {
+            throw new Error('The e2e suite needs SPREADSHEET_PROVIDER=memory');
+        }
+        await sheet.setCells(E2E_SHEET_ID, E2E_SHEET_NAME, seed);
+
+        await initializeDatabase();
+        await spreadsheetRegistry.load();
+        await spreadsheetRegistry.startAll();
+        // A single instance: lead without running the election loop
+        await spreadsheetRegistry.lead();
+        const entry = spreadsheetRegistry.findBySheetId(E2E_SHEET_ID);
+        if (!entry || entry.startError) {
+            throw new Error(`Spreadsheet did not start: ${entry?.startError || 'not registered'}`);
+        }
+        // Polls are driven by settle() instead of the interval
+        entry.monitor.stop();
+        return new SyncHarness(sheet, entry.monitor);
+    }
+
+    async stop(): Promise<void> {
+        jest.restoreAllMocks();
+        await spreadsheetRegistry.stopAll();
+        await delay(DEBOUNCE_GRACE_MS);
+        await pool.end();
+        await redisClient.quit();
+    }
+
+    /**
+     * A person typing into the sheet: the cells change and the Apps Script
+     * trigger posts one webhook per cell. Returns the webhook responses.
+     */
+    async editSheet(cells: Record<string, string>): Promise<request.Response[]> {
+        await this.sheet.setCells(E2E_SHEET_ID, E2E_SHEET_NAME, cells);
+        const responses: request.Response[] = [];
+        for (const [reference, value] of Object.entries(cells)) {
+            const { row, col } = parseCellRef(reference)!;
+            responses.push(await this.webhook({
+                row,
+                col,
+                value,
+                sheetId: E2E_SHEET_ID,
+                sheetName: E2E_SHEET_NAME,
+            }));
+        }
+        return responses;
+    }
+
+    /**
+     * A paste or fill: the block starting at `topLeft` changes at once and the
+     * Apps Script trigger posts it as one v2 webhook
+     */
+    async pasteSheet(topLeft: string, values: string[][]): Promise<request.Response> {
+        const { row, col } = parseCellRef(topLeft)!;
+        const fromColIndex = columnToIndex(col);
+        const cells: Record<string, string> = {};
+        values.forEach((line, r) => line.forEach((value, c) => {
+            cells[`${indexToColumn(fromColIndex + c)}${row + r}`] = value;
+        }));
+        await this.sheet.setCells(E2E_SHEET_ID, E2E_SHEET_NAME, cells);
+
+        const bottomRight = `${indexToColumn(fromColIndex + values[0].length - 1)}${row + values.length - 1}`;
+        return this.webhook({
+            version: 2,
+            range: `${topLeft}:${bottomRight}`,
+            values,
+            sheetId: E2E_SHEET_ID,
+            sheetName: E2E_SHEET_NAME,
+        });
+    }
+
+    /**
+     * Post a webhook signed the way the Apps Script signs it. `nonce` and
+     * `timestamp` may be fixed to replay or age a request.
+     */
+    async webhook(body: object, { nonce = randomUUID() as string, timestamp = Date.now() } = {}): Promise<request.Response> {
+        const secret = await webhookSecrets.ensure('default');
+        const payload = JSON.stringify(body);
+        const signature = createHmac('sha256', secret).update(`${timestamp}.${nonce}.${payload}`).digest('hex');
+        return this.http.post('/api/webhook')
+            .set('Content-Type', 'application/json')
+            .set('X-Webhook-Timestamp', String(timestamp))
+            .set('X-Webhook-Nonce', nonce)
+            .set('X-Webhook-Signature', signature)
+            .send(payload);
+    }
+
+    /**
+     * An API request with a bearer credential, the admin token unless another is given
+     */
+    api(method: 'get' | 'post' | 'delete', path: string, credential = E2E_ADMIN_TOKEN) {
+        return this.http[method](path).set('Authorization', `Bearer ${credential}`);
+    }
+
+    /**
+     * Run a statement through the SQL terminal endpoint
+     */
+    sql(query: string, body: Record<string, unknown> = {}, credential?: string) {
+        return this.api('post', '/api/sql/execute', credential).send({ query, ...body });
+    }
+
+    async status() {
+        const response = await this.api('get', '/api/config/status');
+        return response.body.spreadsheets.find((s: any) => s.sheetId === E2E_SHEET_ID);
+    }
+
+    /**
+     * Let queued webhook jobs and debounced DB → Sheet passes finish, then run
+     * poll + DB → Sheet rounds until both sides have had their say
+     */
+    async settle(): Promise<void> {
+        const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+        const queue = getSheetUpdateQueue('default');
+        for (;;) {
+            const counts = await queue.getJobCounts('waiting', 'active', 'delayed', 'prioritized');
+            if (Object.values(counts).every(count => count === 0)) break;
+            if (Date.now() > deadline) throw new Error(`Webhook jobs did not drain: ${JSON.stringify(counts)}`);
+            await delay(100);
+        }
+        await delay(DEBOUNCE_GRACE_MS);
+
+        for (let round = 0; round < SETTLE_ROUNDS; round++) {
+            await this.monitor.pollForChanges();
+            this.monitor.markDirty();
+            await this.monitor.syncFromDatabase();
+        }
+    }
+
+    /**
+     * Non-empty cells of the sheet tab, by A1 reference
+     */
+    sheetCells(): Promise<Record<string, string>> {
+        return this.sheet.getCells(E2E_SHEET_ID, E2E_SHEET_NAME);
+    }
+
+    /**
+     * Non-empty cells of the synced table, by A1 reference
+     */
+    async tableCells(): Promise<Record<string, string>> {
+        const store = this.monitor.getStore(E2E_MAPPING_ID);
+        if (store instanceof RowTableStore) {
+            const cells = await store.readCells();
+            return byReference(cells.map(c => [`${c.row_num}:${c.col_name}`, c.cell_value]));
+        }
+        const [rows]: any = await pool.query('SELECT row_num, col_name, cell_value FROM ??', [E2E_TABLE]);
+        return byReference(rows.map((r: any) => [`${r.row_num}:${r.col_name}`, r.cell_value ?? '']));
+    }
+
+    /**
+     * The monitor's last known sheet state, by A1 reference
+     */
+    snapshotCells(): Record<string, string> {
+        return byReference(this.monitor.getCachedSnapshot(E2E_MAPPING_ID).entries());
+    }
+
+    async pending(): Promise<{ toSheet: number; toDb: number }> {
+        const [toSheet, toDb] = await Promise.all([
+            redisClient.hlen(this.keys.PENDING_TO_SHEET),
+            redisClient.hlen(this.keys.PENDING_TO_DB),
+        ]);
+        return { toSheet, toDb };
+    }
+
+    /**
+     * Table, sheet and snapshot agree and no change is left waiting in Redis
+     */
+    async expectConverged(): Promise<void> {
+        const sheet = await this.sheetCells();
+        expect(await this.tableCells()).toEqual(sheet);
+        expect(this.snapshotCells()).toEqual(sheet);
+        expect(await this.pending()).toEqual({ toSheet: 0, toDb: 0 });
+    }
+
+    /**
+     * Fail every MySQL call as if the server went away. Returns the undo.
+     */
+    cutDatabase(): () => void {
+        const error = offlineError('connect ECONNREFUSED 127.0.0.1:3306', 'ECONNREFUSED');
+        const spies = [
+            jest.spyOn(pool, 'query').mockRejectedValue(error),
+            jest.spyOn(pool, 'execute').mockRejectedValue(error),
+            jest.spyOn(pool, 'getConnection').mockRejectedValue(error),
+        ];
+        return () => spies.forEach(spy => spy.mockRestore());
+    }
+
+    /**
+     * Fail every spreadsheet API call as if the network went away. Returns the undo.
+     */
+    cutSheet(): () => void {
+        const error = offlineError('getaddrinfo ENOTFOUND sheets.googleapis.com', 'ENOTFOUND');
+        const provider: SpreadsheetProvider = this.sheet;
+        const spies = [
+            jest.spyOn(provider, 'readGrids').mockRejectedValue(error),
+            jest.spyOn(provider, 'writeCells').mockRejectedValue(error),
+            jest.spyOn(provider, 'createDimensionMetadata').mockRejectedValue(error),
+        ];
+        return () => spies.forEach(spy => spy.mockRestore());
+    }
+}
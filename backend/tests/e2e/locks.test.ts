@@ -0,0 +1,60 @@
+import { PEOPLE, SyncHarness } from './harness';
+import lockService from '../../src/services/lockService';
+import { mappingScope } from '../../src/utils/redisKeys';
+import { E2E_MAPPING_ID } from './env';
+
+describe('range, row, column and sheet locks', () => {
+    const scope = mappingScope('default', E2E_MAPPING_ID);
+    let harness: SyncHarness;
+
+    beforeAll(async () => {
+        harness = await SyncHarness.start(PEOPLE);
+        await harness.settle();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('makes wider locks conflict with every overlapping lock, whichever came first', async () => {
+        expect(await lockService.acquire(scope, { kind: 'range', range: 'A1:C10' }, 'paste')).toBe(true);
+        expect(await lockService.inspect(scope, { kind: 'cell', row: 4, col: 'B' })).toEqual({ locked: true, owner: 'paste', lock: 'A1:C10' });
+        expect(await lockService.acquireLock(scope, 4, 'B', 'bot')).toBe(false);
+        expect(await lockService.acquireLock(scope, 4, 'D', 'bot')).toBe(true);
+        // The holder of a range may still lock cells inside it
+        expect(await lockService.acquireLock(scope, 2, 'A', 'paste')).toBe(true);
+
+        // A cell lock is an intent on its row and column
+        expect(await lockService.acquire(scope, { kind: 'column', col: 'D' }, 'structure')).toBe(false);
+        expect((await lockService.inspect(scope, { kind: 'row', row: 4 })).owner).toMatch(/^(paste|bot)$/);
+        expect(await lockService.inspect(scope, { kind: 'row', row: 20 })).toEqual({ locked: false });
+
+        // Only the owner releases, and everything is free again afterwards
+        expect(await lockService.release(scope, { kind: 'range', range: 'A1:C10' }, 'bot')).toBe(0);
+        expect(await lockService.release(scope, [{ kind: 'range', range: 'A1:C10' }, { kind: 'cell', row: 2, col: 'A' }], 'paste')).toBe(2);
+        expect(await lockService.releaseLock(scope, 4, 'D', 'bot')).toBe(true);
+        expect(await lockService.acquire(scope, { kind: 'sheet' }, 'structure')).toBe(true);
+        expect(await lockService.isLocked(scope, 500, 'ZZ')).toEqual({ locked: true, owner: 'structure', lock: 'sheet' });
+        expect(await lockService.release(scope, { kind: 'sheet' }, 'structure')).toBe(1);
+    });
+
+    it('locks a group all or none', async () => {
+        expect(await lockService.acquire(scope, { kind: 'row', row: 3 }, 'structure')).toBe(true);
+        expect(await lockService.acquireLocks(scope, [{ row: 2, col: 'A' }, { row: 3, col: 'A' }], 'job')).toBe(false);
+        expect((await lockService.isLocked(scope, 2, 'A')).locked).toBe(false);
+        expect(await lockService.release(scope, { kind: 'row', row: 3 }, 'structure')).toBe(1);
+    });
+
+    it('makes SQL writes reaching into a locked row wait for it', async () => {
+        expect(await lockService.acquire(scope, { kind: 'row', row: 3 }, 'structure')).toBe(true);
+        const blocked = await harness.sql("UPDATE users SET cell_value = 'x' WHERE col_name = 'C' AND row_num > 1");
+        expect(blocked.status).toBe(409);
+        expect(blocked.body).toMatchObject({ lockConflict: true, cell: 'C3' });
+        expect((await harness.sql("UPDATE users SET cell_value = '31' WHERE row_num = 2 AND col_name = 'B'")).status).toBe(200);
+        await lockService.release(scope, { kind: 'row', row: 3 }, 'structure');
+
+        await harness.settle();
+        expect(await harness.sheetCells()).toMatchObject({ B2: '31', C3: 'London' });
+        await harness.expectConverged();
+    });
+});
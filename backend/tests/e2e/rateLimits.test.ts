@@ -0,0 +1,41 @@
+import { PEOPLE, SyncHarness } from './harness';
+
+describe('rate limits', () => {
+    let harness: SyncHarness;
+
+    beforeAll(async () => {
+        harness = await SyncHarness.start(PEOPLE);
+        await harness.settle();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('turns away a client over its bot run budget with 429 and Retry-After, without limiting others', async () => {
+        const issue = async (name: string) => {
+            const response = await harness.api('post', '/api/auth/keys').send({ name, role: 'editor' });
+            expect(response.status).toBe(201);
+            return response.body.key as string;
+        };
+        const busy = await issue('busy');
+        const other = await issue('other');
+
+        for (let i = 0; i < 2; i++) {
+            expect((await harness.api('post', '/api/bots/run', busy).send({ botCount: 2 })).status).toBe(200);
+        }
+        const limited = await harness.api('post', '/api/bots/run', busy).send({ botCount: 2 });
+        expect(limited.status).toBe(429);
+        expect(parseInt(limited.headers['retry-after'])).toBeGreaterThan(0);
+        expect(limited.body.success).toBe(false);
+
+        expect((await harness.api('post', '/api/bots/run', other).send({ botCount: 2 })).status).toBe(200);
+
+        const status = await harness.api('get', '/api/config/status');
+        const bots = status.body.rateLimits.find((r: any) => r.endpoint === 'bots');
+        expect(bots).toMatchObject({ perClient: 2, requests: 4, limitedByClient: 1, limitedByIp: 0 });
+
+        await harness.settle();
+        await harness.expectConverged();
+    });
+});
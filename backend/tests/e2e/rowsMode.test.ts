@@ -0,0 +1,27 @@
+import { PEOPLE, SyncHarness } from './harness';
+
+describe('header-row tables', () => {
+    let harness: SyncHarness;
+
+    beforeAll(async () => {
+        harness = await SyncHarness.start(PEOPLE, { mode: 'rows', primaryKey: 'Name' });
+        await harness.settle();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('keeps both of two concurrent edits to different cells of one row', async () => {
+        // The worker runs these jobs side by side; each rewrites the whole record
+        const responses = await Promise.all([
+            harness.editSheet({ B2: '31' }),
+            harness.editSheet({ C2: 'Paris' }),
+        ]);
+        expect(responses.flat().map(r => r.status)).toEqual([202, 202]);
+
+        await harness.settle();
+        expect(await harness.tableCells()).toMatchObject({ A2: 'John Doe', B2: '31', C2: 'Paris' });
+        await harness.expectConverged();
+    });
+});
@@ -0,0 +1,4 @@
+import { applyTestEnv } from './env';
+
+// Before any test file imports the app, whose config modules read the env on load
+applyTestEnv();
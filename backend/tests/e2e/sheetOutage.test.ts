@@ -0,0 +1,37 @@
+import { PEOPLE, SyncHarness } from './harness';
+
+describe('sheet outage', () => {
+    let harness: SyncHarness;
+
+    beforeAll(async () => {
+        harness = await SyncHarness.start(PEOPLE);
+        await harness.settle();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('queues DB writes while the sheet is unreachable and replays them when it is back', async () => {
+        const restore = harness.cutSheet();
+
+        expect((await harness.sql("UPDATE users SET cell_value = 'Berlin' WHERE row_num = 2 AND col_name = 'C'")).status).toBe(200);
+        expect((await harness.sql("INSERT INTO users (row_num, col_name, cell_value) VALUES (4, 'A', 'Sam Lee')")).status).toBe(200);
+        await harness.settle();
+
+        expect((await harness.status()).sheetOnline).toBe(false);
+        const queued = (await harness.pending()).toSheet;
+        expect(queued).toBeGreaterThan(0);
+        // Later passes re-queue the same cells; the backlog keeps one entry per cell
+        await harness.settle();
+        expect((await harness.pending()).toSheet).toBe(queued);
+        expect(await harness.tableCells()).toMatchObject({ C2: 'Berlin', A4: 'Sam Lee' });
+
+        restore();
+        await harness.settle();
+
+        expect((await harness.status()).sheetOnline).toBe(true);
+        expect(await harness.sheetCells()).toMatchObject({ C2: 'Berlin', A4: 'Sam Lee' });
+        await harness.expectConverged();
+    });
+});
@@ -0,0 +1,155 @@
+import { PEOPLE, SyncHarness } from './harness';
+import pool from '../../src/config/database';
+import lockService from '../../src/services/lockService';
+import { mappingScope } from '../../src/utils/redisKeys';
+import { E2E_MAPPING_ID } from './env';
+
+describe('SQL terminal writes', () => {
+    let harness: SyncHarness;
+
+    beforeAll(async () => {
+        harness = await SyncHarness.start(PEOPLE);
+        await harness.settle();
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('pushes updates, inserts and deletes to the sheet', async () => {
+        expect((await harness.sql("UPDATE users SET cell_value = 'Berlin' WHERE row_num = 2 AND col_name = 'C'")).status).toBe(200);
+        expect((await harness.sql("INSERT INTO users (row_num, col_name, cell_value) VALUES (4, 'A', 'Sam Lee')")).status).toBe(200);
+        expect((await harness.sql("DELETE FROM users WHERE row_num = 3 AND col_name = 'B'")).status).toBe(200);
+
+        await harness.settle();
+
+        const sheet = await harness.sheetCells();
+        expect(sheet).toMatchObject({ C2: 'Berlin', A4: 'Sam Lee' });
+        expect(sheet).not.toHaveProperty('B3');
+        await harness.expectConverged();
+    });
+
+    it('turns a write based on a stale version into a conflict instead of applying it', async () => {
+        const read = await harness.sql("SELECT version FROM users WHERE row_num = 2 AND col_name = 'A'");
+        const seenVersion = read.body.data[0].version;
+
+        await harness.editSheet({ A2: 'Johnny Doe' });
+        await harness.settle();
+
+        const stale = await harness.sql(
+            "UPDATE users SET cell_value = 'John D.' WHERE row_num = 2 AND col_name = 'A'",
+            { expectedVersion: seenVersion }
+        );
+        expect(stale.status).toBe(409);
+        expect(stale.body.versionConflict).toBe(true);
+
+        await harness.settle();
+        expect((await harness.tableCells()).A2).toBe('Johnny Doe');
+        await harness.expectConverged();
+    });
+
+    it('checks the parsed statement instead of keywords in its text', async () => {
+        expect((await harness.sql("UPDATE users SET cell_value = 'drop the table' WHERE row_num = 3 AND col_name = 'C'")).status).toBe(200);
+        const concat = await harness.sql("SELECT CONCAT(col_name, row_num) AS ref FROM users WHERE cell_value = 'drop the table'");
+        expect(concat.status).toBe(200);
+        expect(concat.body.data).toEqual([{ ref: 'C3' }]);
+
+        const sleep = await harness.sql('SELECT * FROM users WHERE 1=1 AND SLEEP(5)');
+        expect(sleep.status).toBe(403);
+        expect(sleep.body).toMatchObject({ error: 'Function SLEEP() is not allowed (line 1, column 35)', position: { line: 1, column: 35 } });
+
+        // The write target is the UPDATE's table; reading another one in a subquery is checked too
+        const subquery = await harness.sql("UPDATE users SET cell_value = 'x' WHERE row_num IN (SELECT id FROM api_keys)");
+        expect(subquery.status).toBe(403);
+        expect(subquery.body.error).toMatch(/^Table api_keys can't be read/);
+
+        // A CTE only vouches for the columns it outputs
+        const cte = await harness.sql("WITH x AS (SELECT 1 AS a) UPDATE users SET cell_value = secret_col WHERE row_num = 2 AND col_name = 'B'");
+        expect(cte.status).toBe(403);
+        expect(cte.body.error).toMatch(/^Column secret_col is not a column of users/);
+        const derived = await harness.sql("SELECT ref FROM (SELECT CONCAT(col_name, row_num) AS ref FROM users WHERE cell_value = 'drop the table') d");
+        expect(derived.body.data).toEqual([{ ref: 'C3' }]);
+
+        // The parser drops comments, but MySQL runs /*! ... */ and reads /*+ ... */ as hints
+        for (const hidden of [
+            'SELECT 1 /*!, (SELECT key_hash FROM api_keys LIMIT 1) */',
+            'DELETE FROM users WHERE row_num = 3 /*! OR 1=1 */',
+            "UPDATE users SET cell_value = 'x' /*!, last_modified_by = 'admin' */ WHERE row_num = 2 AND col_name = 'B'",
+            'SELECT /*+ MAX_EXECUTION_TIME(1) */ * FROM users',
+        ]) {
+            const response = await harness.sql(hidden);
+            expect(response.status).toBe(403);
+            expect(response.body.error).toMatch(/^Executable comments/);
+        }
+        expect((await harness.sql("SELECT col_name FROM users WHERE cell_value = '/*! text */' /* a note */")).status).toBe(200);
+
+        expect((await harness.sql("UPDATE users SET synced_version = 0 WHERE row_num = 2 AND col_name = 'A'")).status).toBe(403);
+        expect((await harness.sql('SELECT 1; DROP TABLE users')).status).toBe(403);
+        expect((await harness.sql('SELEC * FROM users')).status).toBe(400);
+
+        await harness.settle();
+        await harness.expectConverged();
+    });
+
+    it('locks every cell a range write or multi-row insert touches', async () => {
+        const scope = mappingScope('default', E2E_MAPPING_ID);
+        const range = "UPDATE users SET cell_value = 'Paris' WHERE row_num >= 2 AND col_name = 'C'";
+
+        // A webhook job holding C3 blocks the whole statement, not just that cell
+        expect(await lockService.acquireLock(scope, 3, 'C', 'webhook-job')).toBe(true);
+        const blocked = await harness.sql(range);
+        expect(blocked.status).toBe(409);
+        expect(blocked.body).toMatchObject({ lockConflict: true, cell: 'C3' });
+        expect((await harness.tableCells()).C2).toBe('Berlin');
+        await lockService.releaseLock(scope, 3, 'C', 'webhook-job');
+
+        expect((await harness.sql(range)).status).toBe(200);
+        const insert = await harness.sql("INSERT INTO users (row_num, col_name, cell_value) VALUES (6, 'A', 'Max Roe'), (6, 'B', '41')");
+        expect(insert.status).toBe(200);
+        expect(insert.body.rowsAffected).toBe(2);
+        // Cells that only exist once the statement runs can't be locked up front
+        expect((await harness.sql(
+            'INSERT INTO users (row_num, col_name, cell_value) SELECT row_num + 10, col_name, cell_value FROM users'
+        )).status).toBe(400);
+
+        await harness.settle();
+        expect(await harness.sheetCells()).toMatchObject({ C2: 'Paris', C3: 'Paris', A6: 'Max Roe', B6: '41' });
+        await harness.expectConverged();
+    });
+
+    it('needs a credential, lets viewers only read and stamps writes with the writer', async () => {
+        expect((await harness.http.post('/api/sql/execute').send({ query: 'SELECT * FROM users' })).status).toBe(401);
+
+        const issue = async (name: string, role: string) => {
+            const response = await harness.api('post', '/api/auth/keys').send({ name, role });
+            expect(response.status).toBe(201);
+            return response.body.key as string;
+        };
+        const viewer = await issue('vera', 'viewer');
+        const editor = await issue('eddie', 'editor');
+
+        expect((await harness.sql('SELECT * FROM users', {}, viewer)).status).toBe(200);
+        expect((await harness.sql("UPDATE users SET cell_value = 'x' WHERE row_num = 2 AND col_name = 'B'", {}, viewer)).status).toBe(403);
+        expect((await harness.api('post', '/api/bots/run', viewer).send({})).status).toBe(403);
+
+        // A session token stands in for the key
+        const session = await harness.http.post('/api/auth/session').send({ apiKey: editor });
+        expect(session.status).toBe(200);
+        // ...but can't be renewed without the key, and no one can take the bootstrap admin's name
+        expect((await harness.http.post('/api/auth/session').send({ apiKey: session.body.token })).status).toBe(401);
+        expect((await harness.api('post', '/api/auth/keys').send({ name: 'admin', role: 'viewer' })).status).toBe(400);
+        expect((await harness.sql("UPDATE users SET cell_value = '31' WHERE row_num = 2 AND col_name = 'B'", {}, session.body.token)).status).toBe(200);
+        expect((await harness.sql("INSERT INTO users (row_num, col_name, cell_value) VALUES (5, 'A', 'Ann Lee')", {}, editor)).status).toBe(200);
+        expect((await harness.sql(
+            "UPDATE users SET cell_value = 'y', last_modified_by = 'someone' WHERE row_num = 2 AND col_name = 'B'", {}, editor
+        )).status).toBe(400);
+
+        const [rows]: any = await pool.query(
+            "SELECT col_name, row_num, last_modified_by FROM users WHERE (row_num, col_name) IN ((2, 'B'), (5, 'A')) ORDER BY row_num"
+        );
+        expect(rows.map((r: any) => r.last_modified_by)).toEqual(['eddie', 'eddie']);
+
+        await harness.settle();
+        await harness.expectConverged();
+    });
+});
@@ -0,0 +1,107 @@
+import { PEOPLE, SyncHarness } from './harness';
+import { E2E_SHEET_ID } from './env';
+import webhookSecrets from '../../src/services/webhookSecrets';
+
+describe('sheet edits through the webhook', () => {
+    let harness: SyncHarness;
+
+    beforeAll(async () => {
+        harness = await SyncHarness.start(PEOPLE);
+    });
+
+    afterAll(async () => {
+        await harness.stop();
+    });
+
+    it('loads the initial sheet into the table', async () => {
+        await harness.settle();
+        expect(await harness.tableCells()).toEqual(PEOPLE);
+        await harness.expectConverged();
+    });
+
+    it('writes edited, new and cleared cells to the table', async () => {
+        const responses = await harness.editSheet({ B2: '31', C3: 'Paris', A4: 'Sam Lee', C2: '' });
+        for (const response of responses) {
+            expect(response.status).toBeLessThan(300);
+        }
+
+        await harness.settle();
+
+        const table = await harness.tableCells();
+        expect(table).toMatchObject({ B2: '31', C3: 'Paris', A4: 'Sam Lee' });
+        expect(table).not.toHaveProperty('C2');
+        await harness.expectConverged();
+    });
+
+    it('writes a pasted block sent as one batch webhook', async () => {
+        const response = await harness.pasteSheet('A5', [['Ana Ruiz', '27', 'Madrid'], ['Li Wei', '', 'Shanghai']]);
+        expect(response.status).toBe(202);
+
+        await harness.settle();
+
+        const table = await harness.tableCells();
+        expect(table).toMatchObject({ A5: 'Ana Ruiz', B5: '27', C5: 'Madrid', A6: 'Li Wei', C6: 'Shanghai' });
+        expect(table).not.toHaveProperty('B6');
+        await harness.expectConverged();
+    });
+
+    it('rejects a batch webhook whose values do not match its range', async () => {
+        const response = await harness.webhook({
+            version: 2,
+            range: 'A5:C6',
+            values: [['only', 'one row']],
+            sheetId: E2E_SHEET_ID,
+        });
+        expect(response.status).toBe(400);
+    });
+
+    it('rejects unsigned, replayed and stale webhooks', async () => {
+        const edit = { row: 2, col: 'A', value: 'Mallory', sheetId: E2E_SHEET_ID, sheetName: 'Sheet1' };
+
+        expect((await harness.http.post('/api/webhook').send(edit)).status).toBe(401);
+
+        const nonce = 'replayed-nonce-0001';
+        expect((await harness.webhook({ ...edit, value: 'John Doe' }, { nonce })).status).toBe(202);
+        expect((await harness.webhook(edit, { nonce })).status).toBe(401);
+
+        expect((await harness.webhook(edit, { timestamp: Date.now() - 60 * 60 * 1000 })).status).toBe(401);
+
+        await harness.settle();
+        expect((await harness.tableCells()).A2).toBe('John Doe');
+        await harness.expectConverged();
+    });
+
+    it('hands a rotated secret to a script still signing with the old one only when asked to', async () => {
+        // A plain rotation keeps the old secret working but never sends the new one
+        let oldSecret = await webhookSecrets.ensure('default');
+        await webhookSecrets.rotate('default', { graceMs: 60000 });
+        jest.spyOn(webhookSecrets, 'ensure').mockResolvedValueOnce(oldSecret);
+        const kept = await harness.webhook({ row: 3, col: 'B', value: '25', sheetId: E2E_SHEET_ID, sheetName: 'Sheet1' });
+        expect(kept.status).toBe(202);
+        expect(kept.headers['x-webhook-secret']).toBeUndefined();
+
+        oldSecret = await webhookSecrets.ensure('default');
+        await webhookSecrets.rotate('default', { graceMs: 60000, handOver: true });
+
+        // The harness signs with the old secret it still finds under `previous`
+        jest.spyOn(webhookSecrets, 'ensure').mockResolvedValueOnce(oldSecret);
+        const response = await harness.webhook({ row: 3, col: 'B', value: '26', sheetId: E2E_SHEET_ID, sheetName: 'Sheet1' });
+        expect(response.status).toBe(202);
+        expect(response.headers['x-webhook-secret']).toBe(await webhookSecrets.ensure('default'));
+
+        // Without a grace period the old secret stops working at once
+        await webhookSecrets.rotate('default', { graceMs: 0 });
+        jest.spyOn(webhookSecrets, 'ensure').mockResolvedValueOnce(oldSecret);
+        expect((await harness.webhook({ row: 3, col: 'B', value: '27', sheetId: E2E_SHEET_ID, sheetName: 'Sheet1' })).status).toBe(401);
+
+        await harness.settle();
+        await harness.expectConverged();
+    });
+
+    it('rejects a webhook for an unregistered spreadsheet', async () => {
+        const response = await harness.http.post('/api/webhook').send({ row: 2, col: 'A', value: 'x', sheetId: 'someone-else' });
+        expect(response.status).toBe(404);
+        await harness.settle();
+        await harness.expectConverged();
+    });
+});
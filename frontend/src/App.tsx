@@ -2,7 +2,10 @@ import { useState, useEffect } from 'react';
 import axios from 'axios';
 import SQLTerminal from './components/SQLTerminal';
 import SheetViewer from './components/SheetViewer';
+import BacklogPanel from './components/BacklogPanel';
+import SignInBar from './components/SignInBar';
 import { ConnectivityProvider, useConnectivity } from './context/ConnectivityContext';
+import { hasRole, useAuth } from './context/auth';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
@@ -10,7 +13,7 @@ interface BotResult {
   botName: string;
   cell: string;
   value: string;
-  status: 'success' | 'lock_conflict' | 'error';
+  status: 'success' | 'lock_conflict' | 'version_conflict' | 'error';
   message: string;
   lockWaitMs?: number;
 }
@@ -23,6 +26,7 @@ interface BotSimResponse {
     totalTimeMs: number;
     successes: number;
     lockConflicts: number;
+    versionConflicts: number;
     errors: number;
   };
   results: BotResult[];
@@ -34,6 +38,7 @@ function App() {
   const [botRunning, setBotRunning] = useState(false);
   const [botResults, setBotResults] = useState<BotSimResponse | null>(null);
   const [botCount, setBotCount] = useState(8);
+  const { session } = useAuth();
 
   useEffect(() => {
     const envSheetId = import.meta.env.VITE_GOOGLE_SHEET_ID;
@@ -44,13 +49,15 @@ function App() {
       if (cached) setSheetId(cached);
     }
 
+    // Needs a signed-in viewer; fetched again after signing in
+    if (!session) return;
     axios.get(`${API_URL}/api/config/sheet-id`)
       .then(res => {
         setSheetId(res.data.sheetId);
         localStorage.setItem('superjoin_sheet_id', res.data.sheetId);
       })
       .catch(err => console.error('Failed to fetch sheet ID:', err));
-  }, []);
+  }, [session]);
 
   const handleQueryExecuted = () => {
     setRefreshKey(prev => prev + 1);
@@ -92,9 +99,11 @@ function AppContent({
   botResults, setBotResults, botCount, setBotCount, setRefreshKey 
 }: AppContentProps) {
   const { isBackendOnline } = useConnectivity();
+  const { session } = useAuth();
+  const canRunBots = hasRole(session, 'editor');
 
   const runBots = async () => {
-    if (!isBackendOnline) return;
+    if (!isBackendOnline || !canRunBots) return;
     setBotRunning(true);
     setBotResults(null);
     try {
@@ -109,6 +118,7 @@ function AppContent({
 
   return (
     <div className="h-screen w-full flex flex-col bg-gray-900">
+      <SignInBar />
       <div className="flex-1 flex overflow-hidden">
         <div className="w-1/2 border-r border-gray-700 flex flex-col">
           <SQLTerminal onQueryExecuted={handleQueryExecuted} />
@@ -130,10 +140,10 @@ function AppContent({
                 </label>
                 <button
                   onClick={runBots}
-                  disabled={botRunning || !isBackendOnline}
+                  disabled={botRunning || !isBackendOnline || !canRunBots}
                   className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-4 py-1.5 rounded text-xs font-medium transition-all"
                 >
-                  {botRunning ? 'Running...' : !isBackendOnline ? 'Offline' : 'Launch Bots'}
+                  {botRunning ? 'Running...' : !isBackendOnline ? 'Offline' : !canRunBots ? 'Editor role needed' : 'Launch Bots'}
                 </button>
               </div>
             </div>
@@ -153,6 +163,11 @@ function AppContent({
                   <span className="bg-red-900/40 text-red-400 px-2 py-1 rounded">
                     {botResults.summary.lockConflicts} blocked
                   </span>
+                  {botResults.summary.versionConflicts > 0 && (
+                    <span className="bg-orange-900/40 text-orange-400 px-2 py-1 rounded">
+                      {botResults.summary.versionConflicts} conflicts
+                    </span>
+                  )}
                   <span className="bg-[#2d2d2d] text-gray-400 px-2 py-1 rounded">
                     {botResults.summary.totalTimeMs}ms
                   </span>
@@ -167,12 +182,14 @@ function AppContent({
                           ? 'bg-green-900/20 border border-green-900/40'
                           : r.status === 'lock_conflict'
                           ? 'bg-red-900/20 border border-red-900/40'
+                          : r.status === 'version_conflict'
+                          ? 'bg-orange-900/20 border border-orange-900/40'
                           : 'bg-yellow-900/20 border border-yellow-900/40'
                       }`}
                     >
                       <div className="flex items-center gap-2">
                         <span className={`w-2 h-2 rounded-full ${
-                          r.status === 'success' ? 'bg-green-500' : r.status === 'lock_conflict' ? 'bg-red-500' : 'bg-yellow-500'
+                          r.status === 'success' ? 'bg-green-500' : r.status === 'lock_conflict' ? 'bg-red-500' : r.status === 'version_conflict' ? 'bg-orange-500' : 'bg-yellow-500'
                         }`}></span>
                         <span className="text-gray-300 font-semibold">{r.botName}</span>
                         <span className="text-gray-500">→</span>
@@ -180,9 +197,9 @@ function AppContent({
                       </div>
                       <div className="flex items-center gap-3">
                         <span className={`${
-                          r.status === 'success' ? 'text-green-400' : r.status === 'lock_conflict' ? 'text-red-400' : 'text-yellow-400'
+                          r.status === 'success' ? 'text-green-400' : r.status === 'lock_conflict' ? 'text-red-400' : r.status === 'version_conflict' ? 'text-orange-400' : 'text-yellow-400'
                         }`}>
-                          {r.status === 'success' ? `"${r.value}"` : r.status === 'lock_conflict' ? 'BLOCKED' : 'ERROR'}
+                          {r.status === 'success' ? `"${r.value}"` : r.status === 'lock_conflict' ? 'BLOCKED' : r.status === 'version_conflict' ? 'CONFLICT' : 'ERROR'}
                         </span>
                         {r.lockWaitMs !== undefined && (
                           <span className="text-gray-600">{r.lockWaitMs}ms</span>
@@ -207,6 +224,8 @@ function AppContent({
               </div>
             )}
           </div>
+
+          <BacklogPanel />
         </div>
 
         <div className="flex-1 flex flex-col">
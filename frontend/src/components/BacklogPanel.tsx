@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { useConnectivity } from '../context/ConnectivityContext';
+import { hasRole, useAuth } from '../context/auth';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+const REFRESH_INTERVAL = 10000;
+const JOB_PAGE_SIZE = 20;
+
+type Target = 'sheet' | 'db';
+
+interface PendingSummary {
+  count: number;
+  oldestAgeMs: number | null;
+  deadLetters: number;
+}
+
+interface SpreadsheetBacklog {
+  key: string;
+  jobs: Record<string, number>;
+  oldestFailedAgeMs: number | null;
+  mappings: { id: string; table: string; pending: Record<Target, PendingSummary> }[];
+}
+
+interface FailedJob {
+  id: string;
+  cell: string | null;
+  attemptsMade: number;
+  failedReason: string | null;
+  ageMs: number;
+}
+
+interface PendingEntry {
+  field: string;
+  cell?: string;
+  value?: string;
+  ageMs?: number;
+  attempts?: number;
+  lastError?: string | null;
+}
+
+interface DeadLetter {
+  cell?: string;
+  change?: { value: string };
+  attempts?: number;
+  lastError: string;
+  failedAgoMs: number;
+}
+
+interface ActionResult {
+  retried?: number;
+  removed?: number;
+  requeued?: number;
+  replayed?: number;
+  remaining?: number;
+  forwarded?: boolean;
+}
+
+interface PendingDetail {
+  spreadsheet: string;
+  mapping: string;
+  target: Target;
+  pending: PendingEntry[];
+  deadLetters: DeadLetter[];
+}
+
+// 90000 → '1m'
+const formatAge = (ms: number | null | undefined): string => {
+  if (ms === null || ms === undefined) return '—';
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
+export default function BacklogPanel() {
+  const [open, setOpen] = useState(false);
+  const [backlog, setBacklog] = useState<SpreadsheetBacklog[]>([]);
+  const [failedJobs, setFailedJobs] = useState<Record<string, FailedJob[]>>({});
+  const [detail, setDetail] = useState<PendingDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { isBackendOnline } = useConnectivity();
+  const { session } = useAuth();
+  const isAdmin = hasRole(session, 'admin');
+
+  const errorOf = (err: unknown): string =>
+    (axios.isAxiosError(err) && err.response?.data?.error) || (err as Error).message || 'Request failed';
+
+  const load = useCallback(async () => {
+    if (!isAdmin) return;
+    try {
+      const response = await axios.get(`${API_URL}/api/admin/backlog`);
+      const spreadsheets: SpreadsheetBacklog[] = response.data.spreadsheets || [];
+      setBacklog(spreadsheets);
+
+      const jobs: Record<string, FailedJob[]> = {};
+      for (const sheet of spreadsheets) {
+        if (!sheet.jobs.failed) continue;
+        const failed = await axios.get(`${API_URL}/api/admin/jobs/${sheet.key}`, {
+          params: { state: 'failed', limit: JOB_PAGE_SIZE },
+        });
+        jobs[sheet.key] = failed.data.jobs || [];
+      }
+      setFailedJobs(jobs);
+      setError(null);
+    } catch (err) {
+      setError(errorOf(err));
+    }
+  }, [isAdmin]);
+
+  const loadDetail = useCallback(async (spreadsheet: string, mapping: string, target: Target) => {
+    try {
+      const response = await axios.get(`${API_URL}/api/admin/pending/${spreadsheet}/${mapping}/${target}`);
+      setDetail({ spreadsheet, mapping, target, pending: response.data.pending, deadLetters: response.data.deadLetters });
+    } catch (err) {
+      setError(errorOf(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open || !isBackendOnline || !isAdmin) return;
+    const first = setTimeout(load, 0);
+    const interval = setInterval(load, REFRESH_INTERVAL);
+    return () => {
+      clearTimeout(first);
+      clearInterval(interval);
+    };
+  }, [open, isBackendOnline, isAdmin, load]);
+
+  // Run an admin action, then show its outcome and reload what it touched
+  const act = async (method: 'post' | 'delete', path: string, describe: (data: ActionResult) => string, params?: object) => {
+    setBusy(true);
+    try {
+      const response = await axios.request({ method, url: `${API_URL}/api/admin${path}`, params });
+      setNotice(describe(response.data));
+      await load();
+      if (detail) await loadDetail(detail.spreadsheet, detail.mapping, detail.target);
+    } catch (err) {
+      setError(errorOf(err));
+    }
+    setBusy(false);
+  };
+
+  const pendingPath = (d: { spreadsheet: string; mapping: string; target: Target }) =>
+    `/pending/${d.spreadsheet}/${d.mapping}/${d.target}`;
+
+  return (
+    <div className="border-t border-[#333] bg-[#1e1e1e]">
+      <div className="px-4 py-2 bg-[#252526] border-b border-[#333] flex items-center justify-between">
+        <button
+          onClick={() => setOpen(!open)}
+          className="text-gray-300 text-xs font-semibold uppercase tracking-wider hover:text-white"
+        >
+          {open ? '▾' : '▸'} Sync Backlog
+        </button>
+        {open && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={load}
+              disabled={!isAdmin || !isBackendOnline}
+              className="text-gray-400 hover:text-white hover:bg-[#333] disabled:opacity-50 px-2 py-1 rounded text-xs"
+            >
+              Refresh
+            </button>
+          </div>
+        )}
+      </div>
+
+      {open && (
+        <div className="max-h-[260px] overflow-auto p-3 space-y-3 text-xs">
+          {!isAdmin && <div className="text-gray-600 text-center">Sign in with an admin key to inspect queues</div>}
+          {error && <div className="bg-red-900/20 border border-red-900/40 text-red-400 px-3 py-1.5 rounded">{error}</div>}
+          {notice && <div className="bg-green-900/20 border border-green-900/40 text-green-400 px-3 py-1.5 rounded">{notice}</div>}
+
+          {backlog.map(sheet => (
+            <div key={sheet.key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex gap-2 flex-wrap">
+                  <span className="text-gray-300 font-semibold">{sheet.key}</span>
+                  {Object.entries(sheet.jobs).map(([state, count]) => (
+                    <span
+                      key={state}
+                      className={`px-2 py-0.5 rounded ${state === 'failed' && count > 0 ? 'bg-red-900/40 text-red-400' : 'bg-[#2d2d2d] text-gray-400'}`}
+                    >
+                      {count} {state}
+                    </span>
+                  ))}
+                  {sheet.oldestFailedAgeMs !== null && (
+                    <span className="text-gray-500">oldest failure {formatAge(sheet.oldestFailedAgeMs)} ago</span>
+                  )}
+                </div>
+                {sheet.jobs.failed > 0 && (
+                  <div className="flex gap-2">
+                    <button
+                      disabled={busy}
+                      onClick={() => act('post', `/jobs/${sheet.key}/retry`, d => `Retried ${d.retried} job(s)`)}
+                      className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                      Retry all
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => act('delete', `/jobs/${sheet.key}`, d => `Purged ${d.removed} job(s)`, { state: 'failed' })}
+                      className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      Purge
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {(failedJobs[sheet.key] || []).map(job => (
+                <div key={job.id} className="flex items-center justify-between px-3 py-1.5 rounded bg-red-900/10 border border-red-900/30 font-mono">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-gray-500">#{job.id}</span>
+                    <span className="text-gray-300">{job.cell}</span>
+                    <span className="text-red-400 truncate" title={job.failedReason || ''}>{job.failedReason}</span>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-gray-600">{job.attemptsMade}× · {formatAge(job.ageMs)}</span>
+                    <button
+                      disabled={busy}
+                      onClick={() => act('post', `/jobs/${sheet.key}/${job.id}/retry`, () => `Retried job #${job.id}`)}
+                      className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => act('delete', `/jobs/${sheet.key}/${job.id}`, () => `Removed job #${job.id}`)}
+                      className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {sheet.mappings.map(mapping => (
+                <div key={mapping.id} className="flex gap-2 flex-wrap items-center">
+                  <span className="text-gray-500">{mapping.id} → {mapping.table}</span>
+                  {(['sheet', 'db'] as Target[]).map(target => {
+                    const summary = mapping.pending[target];
+                    const selected = detail?.spreadsheet === sheet.key && detail.mapping === mapping.id && detail.target === target;
+                    return (
+                      <button
+                        key={target}
+                        onClick={() => (selected ? setDetail(null) : loadDetail(sheet.key, mapping.id, target))}
+                        className={`px-2 py-0.5 rounded ${selected ? 'bg-blue-900/40 text-blue-300' : 'bg-[#2d2d2d] text-gray-400 hover:text-gray-200'}`}
+                      >
+                        to {target}: {summary.count} pending
+                        {summary.count > 0 && ` (${formatAge(summary.oldestAgeMs)})`}
+                        {summary.deadLetters > 0 && <span className="text-orange-400"> · {summary.deadLetters} dead</span>}
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {detail && (
+            <div className="space-y-1 border-t border-[#333] pt-2">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-300">
+                  {detail.spreadsheet}/{detail.mapping} → {detail.target}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    disabled={busy || detail.pending.length === 0}
+                    onClick={() => act('post', `${pendingPath(detail)}/replay`, d =>
+                      d.forwarded ? 'Replay handed to the CDC leader' : `Replayed ${d.replayed}, ${d.remaining} left`)}
+                    className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    Replay
+                  </button>
+                  <button
+                    disabled={busy || detail.pending.length === 0}
+                    onClick={() => act('delete', pendingPath(detail), d => `Dropped ${d.removed} queued change(s)`)}
+                    className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                  >
+                    Purge
+                  </button>
+                  <button
+                    disabled={busy || detail.deadLetters.length === 0}
+                    onClick={() => act('post', `${pendingPath(detail)}/dead-letters/requeue`, d => `Requeued ${d.requeued} dead letter(s)`)}
+                    className="text-orange-400 hover:text-orange-300 disabled:opacity-50"
+                  >
+                    Requeue dead
+                  </button>
+                  <button
+                    disabled={busy || detail.deadLetters.length === 0}
+                    onClick={() => act('delete', `${pendingPath(detail)}/dead-letters`, d => `Dropped ${d.removed} dead letter(s)`)}
+                    className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                  >
+                    Purge dead
+                  </button>
+                </div>
+              </div>
+
+              {detail.pending.length === 0 && <div className="text-gray-600">Nothing queued</div>}
+              {detail.pending.map(entry => (
+                <div key={entry.field} className="flex items-center justify-between px-3 py-1 rounded bg-[#252526] font-mono">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-gray-300">{entry.cell ?? entry.field}</span>
+                    <span className="text-gray-400 truncate">"{entry.value}"</span>
+                    {entry.lastError && <span className="text-red-400 truncate" title={entry.lastError}>{entry.lastError}</span>}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-gray-600">{entry.attempts ?? 0}× · {formatAge(entry.ageMs)}</span>
+                    {entry.cell && (
+                      <button
+                        disabled={busy}
+                        onClick={() => act('delete', pendingPath(detail), () => `Dropped ${entry.cell}`, { cell: entry.cell })}
+                        className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {detail.deadLetters.map((letter, i) => (
+                <div key={i} className="flex items-center justify-between px-3 py-1 rounded bg-orange-900/10 border border-orange-900/30 font-mono">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-orange-400">☠ {letter.cell ?? '?'}</span>
+                    {letter.change && <span className="text-gray-400 truncate">"{letter.change.value}"</span>}
+                    <span className="text-red-400 truncate" title={letter.lastError}>{letter.lastError}</span>
+                  </div>
+                  <span className="text-gray-600 shrink-0">{letter.attempts ?? 0}× · {formatAge(letter.failedAgoMs)} ago</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
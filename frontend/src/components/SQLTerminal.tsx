@@ -18,7 +18,7 @@ interface QueryResult {
 
 const SAMPLE_QUERIES = [
   "SELECT * FROM users;",
-  "INSERT INTO users (row_num, col_name, cell_value, last_modified_by) VALUES (1, 'A', 'Hello', 'sql_terminal');",
+  "INSERT INTO users (row_num, col_name, cell_value) VALUES (1, 'A', 'Hello');",
   "UPDATE users SET cell_value = 'Updated' WHERE row_num = 1 AND col_name = 'A';",
   "SELECT row_num, col_name, cell_value FROM users ORDER BY row_num, col_name;",
   "DELETE FROM users WHERE row_num = 1 AND col_name = 'A';",
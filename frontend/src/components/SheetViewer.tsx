@@ -12,13 +12,40 @@ interface CellData {
   updated_at?: string;
 }
 
+interface HistoryEntry {
+  id: number;
+  writeId: string;
+  cell: string;
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  oldValue: string | null;
+  newValue: string | null;
+  side: 'sheet' | 'db';
+  source: string;
+  version: number | null;
+  changedAt: string;
+}
+
 interface Props {
   sheetId: string | null;
   refreshKey: number;
 }
 
-const COLUMNS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H','I'];
+const DEFAULT_COLUMNS = 9; // A-I
 const DEFAULT_ROWS = 30;
+const HISTORY_PAGE_SIZE = 20;
+
+// 'A' → 0, 'AA' → 26
+const columnToIndex = (col: string): number =>
+  col.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+// 0 → 'A', 26 → 'AA'
+const indexToColumn = (index: number): string => {
+  let col = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    col = String.fromCharCode(65 + ((n - 1) % 26)) + col;
+  }
+  return col;
+};
 
 export default function SheetViewer({ sheetId, refreshKey }: Props) {
   const [cells, setCells] = useState<CellData[]>([]);
@@ -27,6 +54,32 @@ export default function SheetViewer({ sheetId, refreshKey }: Props) {
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [_error, setError] = useState<string | null>(null);
   const { isBackendOnline } = useConnectivity();
+  const [selectedCell, setSelectedCell] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<number | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async (cell: string, cursor?: number) => {
+    setHistoryLoading(true);
+    try {
+      const response = await axios.get(`${API_URL}/api/history`, {
+        params: { cell, limit: HISTORY_PAGE_SIZE, ...(cursor !== undefined ? { cursor } : {}) },
+      });
+      const entries: HistoryEntry[] = response.data.entries || [];
+      setHistory(prev => (cursor !== undefined ? [...prev, ...entries] : entries));
+      setHistoryCursor(response.data.nextCursor ?? null);
+      setHistoryError(null);
+    } catch (err) {
+      setHistoryError((axios.isAxiosError(err) && err.response?.data?.error) || 'Failed to load history');
+    }
+    setHistoryLoading(false);
+  }, []);
+
+  const selectCell = (ref: string) => {
+    setSelectedCell(ref);
+    fetchHistory(ref);
+  };
 
   const fetchData = useCallback(async () => {
     if (!isBackendOnline) {
@@ -51,6 +104,19 @@ export default function SheetViewer({ sheetId, refreshKey }: Props) {
     setLoading(false);
   }, [isBackendOnline]);
 
+  // Reverts every cell of the write, not just the selected one
+  const undoWrite = async (writeId: string) => {
+    try {
+      const response = await axios.post(`${API_URL}/api/history/writes/${writeId}/undo`);
+      const { restored, skipped } = response.data;
+      setHistoryError(skipped > 0 ? `Undo restored ${restored} cell(s), skipped ${skipped} changed since` : null);
+    } catch (err) {
+      setHistoryError((axios.isAxiosError(err) && err.response?.data?.error) || 'Undo failed');
+    }
+    fetchData();
+    if (selectedCell) fetchHistory(selectedCell);
+  };
+
   useEffect(() => {
     fetchData();
   }, [fetchData, refreshKey, isBackendOnline]);
@@ -62,6 +128,8 @@ export default function SheetViewer({ sheetId, refreshKey }: Props) {
   }, [autoRefresh, fetchData, isBackendOnline]);
 
   const maxRow = Math.max(DEFAULT_ROWS, ...cells.map(c => c.row_num), 0);
+  const columnCount = Math.max(DEFAULT_COLUMNS, ...cells.map(c => columnToIndex(c.col_name) + 1));
+  const columns = Array.from({ length: columnCount }, (_, i) => indexToColumn(i));
 
   const getCellValue = (row: number, col: string): string => {
     const cell = cells.find(c => c.row_num === row && c.col_name === col);
@@ -127,7 +195,10 @@ export default function SheetViewer({ sheetId, refreshKey }: Props) {
             <div className="flex items-center gap-2">
               <span className="text-gray-500 text-[10px] font-mono">{lastUpdated}</span>
               <button
-                onClick={fetchData}
+                onClick={() => {
+                  fetchData();
+                  if (selectedCell) fetchHistory(selectedCell);
+                }}
                 className="text-gray-400 hover:text-white hover:bg-[#333] p-1.5 rounded transition-all"
                 title="Refresh Data"
               >
@@ -139,12 +210,13 @@ export default function SheetViewer({ sheetId, refreshKey }: Props) {
           </div>
         </div>
 
+        <div className="flex-1 flex min-h-0">
         <div className="flex-1 overflow-auto p-2 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent">
           <table className="w-full border-collapse text-sm">
             <thead className="sticky top-0 z-10">
               <tr>
                 <th className="w-10 bg-gray-700 border border-gray-600 p-1 text-gray-400 text-xs"></th>
-                {COLUMNS.map((col) => (
+                {columns.map((col) => (
                   <th key={col} className="bg-gray-700 border border-gray-600 p-1.5 text-gray-300 font-medium text-xs min-w-[80px]">
                     {col}
                   </th>
@@ -157,16 +229,19 @@ export default function SheetViewer({ sheetId, refreshKey }: Props) {
                   <td className="bg-gray-700 border border-gray-600 p-1 text-gray-400 text-center text-xs font-mono">
                     {row}
                   </td>
-                  {COLUMNS.map((col) => {
+                  {columns.map((col) => {
                     const value = getCellValue(row, col);
                     const hasValue = value !== '';
+                    const ref = `${col}${row}`;
 
                     return (
                       <td
                         key={`${row}-${col}`}
-                        className={`border border-gray-700 p-1.5 min-w-[80px] ${
+                        onClick={() => selectCell(ref)}
+                        title={`${ref}: click for history`}
+                        className={`border border-gray-700 p-1.5 min-w-[80px] cursor-pointer ${
                           hasValue ? 'bg-gray-900 text-gray-200' : 'bg-gray-850 text-gray-600'
-                        }`}
+                        } ${selectedCell === ref ? 'outline outline-1 outline-blue-500' : ''}`}
                       >
                         {value}
                       </td>
@@ -177,6 +252,67 @@ export default function SheetViewer({ sheetId, refreshKey }: Props) {
             </tbody>
           </table>
         </div>
+
+        {selectedCell && (
+          <div className="w-72 border-l border-[#333] bg-[#252526] flex flex-col">
+            <div className="px-3 py-2 border-b border-[#333] flex items-center justify-between">
+              <span className="text-gray-300 text-xs font-semibold uppercase tracking-wider">
+                History · <span className="font-mono text-blue-400">{selectedCell}</span>
+              </span>
+              <button
+                onClick={() => setSelectedCell(null)}
+                className="text-gray-500 hover:text-white text-xs px-1"
+                title="Close history"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto p-2 space-y-1.5">
+              {historyError && <div className="text-red-400 text-xs">{historyError}</div>}
+              {!historyError && history.length === 0 && !historyLoading && (
+                <div className="text-gray-500 text-xs">No recorded changes</div>
+              )}
+              {history.map((entry) => (
+                <div key={entry.id} className="border-l-2 border-[#444] pl-2 py-0.5 text-xs font-mono">
+                  <div className="flex items-center justify-between text-[10px] text-gray-500">
+                    <span>{new Date(entry.changedAt).toLocaleString()}</span>
+                    <span className="flex items-center gap-1.5">
+                      <span className={entry.side === 'sheet' ? 'text-green-400' : 'text-blue-400'}>{entry.source}</span>
+                      <button
+                        onClick={() => undoWrite(entry.writeId)}
+                        className="text-gray-500 hover:text-yellow-300"
+                        title="Undo this write"
+                      >
+                        ↶
+                      </button>
+                    </span>
+                  </div>
+                  <div className="text-gray-300 break-all">
+                    {entry.type === 'INSERT' ? (
+                      <span className="text-green-300">+ "{entry.newValue}"</span>
+                    ) : entry.type === 'DELETE' ? (
+                      <span className="text-red-300 line-through">"{entry.oldValue}"</span>
+                    ) : (
+                      <>
+                        <span className="text-gray-500">"{entry.oldValue}"</span> → "{entry.newValue}"
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {historyCursor !== null && (
+                <button
+                  onClick={() => fetchHistory(selectedCell, historyCursor)}
+                  disabled={historyLoading}
+                  className="w-full text-xs text-blue-400 hover:text-blue-300 py-1 disabled:opacity-50"
+                >
+                  {historyLoading ? 'Loading…' : 'Load older'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        </div>
       </div>
       )}
     </div>
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { useAuth } from '../context/auth';
+
+export default function SignInBar() {
+  const { session, signIn, signOut } = useAuth();
+  const [apiKey, setApiKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey) return;
+    setBusy(true);
+    try {
+      await signIn(apiKey);
+      setApiKey('');
+      setError(null);
+    } catch (err) {
+      setError((axios.isAxiosError(err) && err.response?.data?.error) || 'Sign-in failed');
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="px-4 py-1.5 bg-[#252526] border-b border-[#333] flex items-center justify-end gap-3 text-xs">
+      {session ? (
+        <>
+          <span className="text-gray-400">
+            Signed in as <span className="text-gray-200 font-semibold">{session.name}</span>
+            <span className="ml-2 bg-[#2d2d2d] text-gray-400 px-2 py-0.5 rounded">{session.role}</span>
+          </span>
+          <button onClick={signOut} className="text-gray-400 hover:text-white hover:bg-[#333] px-2 py-1 rounded">
+            Sign out
+          </button>
+        </>
+      ) : (
+        <form onSubmit={submit} className="flex items-center gap-2">
+          {error && <span className="text-red-400">{error}</span>}
+          <input
+            type="password"
+            placeholder="API key"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            className="w-48 bg-[#2d2d2d] text-gray-200 px-2 py-1 rounded border border-[#444] focus:outline-none focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!apiKey || busy}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded font-medium"
+          >
+            {busy ? 'Signing in...' : 'Sign in'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
+import axios from 'axios';
+import { AuthContext, readSession, storeSession, type Session } from './auth';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(readSession);
+
+  const signOut = useCallback(() => {
+    storeSession(null);
+    setSession(null);
+  }, []);
+
+  const signIn = useCallback(async (apiKey: string) => {
+    const response = await axios.post(`${API_URL}/api/auth/session`, { apiKey });
+    const { token, expiresAt, identity } = response.data;
+    const next: Session = { token, expiresAt, name: identity.name, role: identity.role };
+    storeSession(next);
+    setSession(next);
+  }, []);
+
+  // An expired or revoked session comes back as 401: forget it so the sign-in form shows
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, (error) => {
+      if (axios.isAxiosError(error) && error.response?.status === 401 && readSession()) {
+        signOut();
+      }
+      return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [signOut]);
+
+  return (
+    <AuthContext.Provider value={{ session, signIn, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,62 @@
+import { createContext, useContext } from 'react';
+import axios from 'axios';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+const SESSION_KEY = 'superjoin_session';
+
+export type Role = 'viewer' | 'editor' | 'admin';
+const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+export interface Session {
+  token: string;
+  expiresAt: number;
+  name: string;
+  role: Role;
+}
+
+export interface AuthContextType {
+  session: Session | null;
+  signIn: (apiKey: string) => Promise<void>;
+  signOut: () => void;
+}
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function readSession(): Session | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const session: Session | null = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeSession(session: Session | null) {
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+}
+
+export function hasRole(session: Session | null, role: Role): boolean {
+  return !!session && ROLES.indexOf(session.role) >= ROLES.indexOf(role);
+}
+
+// Every backend request carries the session, including ones fired before the provider mounts
+axios.interceptors.request.use((config) => {
+  const session = readSession();
+  if (session && config.url?.startsWith(API_URL) && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${session.token}`;
+  }
+  return config;
+});
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}